@@ -1,6 +1,25 @@
 import { useEffect, useState, useCallback, useMemo } from "react";
-import { VsCodeApi, MessageFromExtension, Stats } from "./types";
+import {
+  VsCodeApi,
+  MessageFromExtension,
+  AssetData,
+  AssetCategory,
+  AssetSummary,
+  ScanProgress,
+  ExcludedFile,
+  AssetFilters,
+  ImageMetadata,
+  OptimizeResult,
+  SvgInspection,
+  SimilarImage,
+  AssetUsage,
+  AssetFile,
+  UsageLocation,
+  SortKey,
+} from "./types";
 import { useI18n } from "./contexts/I18nContext";
+import { UsageProvider } from "./contexts/UsageContext";
+import { AssetActionsProvider, AssetActions } from "./contexts/AssetActionsContext";
 import Header from "./components/Header";
 import SearchBar from "./components/SearchBar";
 import TabBar from "./components/TabBar";
@@ -10,41 +29,144 @@ import FontSection from "./components/FontSection";
 import OfficeSection from "./components/OfficeSection";
 import OtherSection from "./components/OtherSection";
 import PreviewOverlay from "./components/PreviewOverlay";
+import LoadMore from "./components/LoadMore";
+import ScanBanner from "./components/ScanBanner";
+import ExcludedModal from "./components/ExcludedModal";
+import FilterBar from "./components/FilterBar";
+import UsagesModal from "./components/UsagesModal";
+import OptimizeModal from "./components/OptimizeModal";
+import {
+  EMPTY_ASSET_DATA,
+  applyAssetDelta,
+  createAssetData,
+  computeStats,
+  computeDuplicateHashes,
+  filterByRoot,
+  statsFromSummary,
+  DEFAULT_FILTERS,
+  applyFilters,
+  hasActiveFilter,
+} from "./utils/assetData";
 
 // 获取 VSCode API
 const vscode: VsCodeApi = window.acquireVsCodeApi();
 
+const EMPTY_SIMILAR: Record<string, SimilarImage[]> = {};
+
 export default function App() {
   const { t } = useI18n();
-  const [activeTab, setActiveTab] = useState<
-    "images" | "media" | "fonts" | "office" | "others"
-  >("images");
+  const [activeTab, setActiveTab] = useState<AssetCategory>("images");
   const [searchQuery, setSearchQuery] = useState("");
   const [isRefreshing, setIsRefreshing] = useState(false);
-  const [assetData, setAssetData] = useState<any>(null);
-  const [stats, setStats] = useState<Stats>({
-    images: 0,
-    media: 0,
-    fonts: 0,
-    office: 0,
-    others: 0,
-    folders: 0,
-    total: 0,
-  });
-
-  const [sortBy, setSortBy] = useState<"name" | "size-asc" | "size-desc">(
-    "name",
+  const [allAssetData, setAssetData] = useState<AssetData | null>(null);
+  // 扩展端基于完整索引的汇总（前端只加载了部分分页）
+  const [summary, setSummary] = useState<AssetSummary | null>(null);
+  const [scanProgress, setScanProgress] = useState<ScanProgress | null>(null);
+  // 被忽略规则排除的文件，非 null 时显示弹窗
+  const [excludedFiles, setExcludedFiles] = useState<ExcludedFile[] | null>(null);
+  // 多根工作区下当前筛选的文件夹，null 表示全部
+  const [activeRoot, setActiveRoot] = useState<string | null>(null);
+  const [filters, setFilters] = useState<AssetFilters>(DEFAULT_FILTERS);
+  // 源码引用分析结果，分析完成前为 null
+  const [usage, setUsage] = useState<AssetUsage | null>(null);
+  // 正在查看引用位置的资源，usages 为 null 表示仍在查找
+  const [usagesTarget, setUsagesTarget] = useState<{
+    file: AssetFile;
+    usages: UsageLocation[] | null;
+  } | null>(null);
+  // 预览中查看的图片元数据
+  const [imageMetadata, setImageMetadata] = useState<{
+    path: string;
+    metadata: ImageMetadata;
+  } | null>(null);
+  // 预览中查看的 SVG 源码与检查结果
+  const [svgInspection, setSvgInspection] = useState<{
+    path: string;
+    inspection: SvgInspection;
+  } | null>(null);
+  // 压缩预览，非 null 时显示弹窗
+  const [optimizing, setOptimizing] = useState<{
+    total: number;
+    results: OptimizeResult[];
+    done: boolean;
+  } | null>(null);
+  const roots = allAssetData?.roots ?? [];
+  const categories = allAssetData?.categories ?? EMPTY_ASSET_DATA.categories;
+  const unusedPaths = useMemo(
+    () => (usage?.enabled ? new Set(usage.unused ?? []) : null),
+    [usage],
+  );
+  const reclaimable = useMemo(() => {
+    if (!usage?.enabled) return null;
+    const total = { count: 0, bytes: 0 };
+    for (const [root, item] of Object.entries(usage.reclaimable ?? {})) {
+      if (activeRoot && root !== activeRoot) continue;
+      total.count += item.count;
+      total.bytes += item.bytes;
+    }
+    return total;
+  }, [usage, activeRoot]);
+  const assetData = useMemo(
+    () =>
+      allAssetData &&
+      applyFilters(
+        filterByRoot(allAssetData, activeRoot),
+        filters,
+        unusedPaths ?? undefined,
+      ),
+    [allAssetData, activeRoot, filters, unusedPaths],
   );
-  const [duplicateHashes, setDuplicateHashes] = useState<
-    Record<string, number>
-  >({});
+
+  const [sortBy, setSortBy] = useState<SortKey>("name");
   const [thresholdValue, setThresholdValue] = useState<number>(100);
   const [thresholdUnit, setThresholdUnit] = useState<"B" | "KB" | "MB">("KB");
+  // 等待定位并高亮的资源路径（来自编辑器中的「定位光标处的资源」）
+  const [revealPath, setRevealPath] = useState<string | null>(null);
   const [duplicateModalGroup, setDuplicateModalGroup] = useState<{
     file: any;
     hash: string;
   } | null>(null);
 
+  // 当前筛选的文件夹被移出工作区时回到全部
+  useEffect(() => {
+    if (activeRoot && !roots.some((root) => root.name === activeRoot)) {
+      setActiveRoot(null);
+    }
+  }, [roots, activeRoot]);
+
+  // 自定义分类被从配置中移除时回到图片
+  useEffect(() => {
+    if (!categories.some((category) => category.id === activeTab)) {
+      setActiveTab("images");
+    }
+  }, [categories, activeTab]);
+
+  // 汇总尚未到达（扫描中）时按已加载的数据统计
+  const stats = useMemo(
+    () =>
+      summary
+        ? statsFromSummary(summary, activeRoot, categories)
+        : computeStats(assetData ?? EMPTY_ASSET_DATA),
+    [summary, activeRoot, assetData, categories],
+  );
+  const duplicateHashes = useMemo(
+    () =>
+      summary?.duplicateHashes ??
+      computeDuplicateHashes(allAssetData ?? EMPTY_ASSET_DATA),
+    [summary, allAssetData],
+  );
+  const similarImages = summary?.similarImages ?? EMPTY_SIMILAR;
+  // 各分类已加载数量与总数，用于分页
+  const loadedStats = useMemo(
+    () => computeStats(allAssetData ?? EMPTY_ASSET_DATA),
+    [allAssetData],
+  );
+  const totalStats = useMemo(
+    () =>
+      summary ? statsFromSummary(summary, null, categories) : loadedStats,
+    [summary, loadedStats, categories],
+  );
+
   const largeFileThreshold = useMemo(() => {
     const multipliers = { B: 1, KB: 1024, MB: 1024 * 1024 };
     return thresholdValue * multipliers[thresholdUnit];
@@ -72,64 +194,65 @@ export default function App() {
         setTimeout(() => {
           setSearchQuery(message.fileName);
         }, 100);
-      } else if (message.type === "assetData") {
-        // 接收资源数据
-        const data = message.data;
-        setAssetData(data);
-
-        // 计算重复哈希
-        const hashes: Record<string, number> = {};
-        data.images?.forEach((group: any) => {
-          group.files.forEach((file: any) => {
-            if (file.hash) {
-              hashes[file.hash] = (hashes[file.hash] || 0) + 1;
-            }
-          });
+      } else if (message.type === "assetReset") {
+        // 重新扫描或重新请求数据，清空已加载的分页
+        setAssetData(createAssetData(message.categories, message.roots));
+        setSummary(null);
+      } else if (message.type === "assetSummary") {
+        setSummary({
+          counts: message.counts,
+          duplicateHashes: message.duplicateHashes,
+          mismatched: message.mismatched,
+          privateMetadata: message.privateMetadata,
+          similarImages: message.similarImages,
+          scan: message.scan,
+        });
+      } else if (message.type === "scanProgress") {
+        setScanProgress({
+          processed: message.processed,
+          total: message.total,
+          done: message.done,
         });
-        setDuplicateHashes(hashes);
-
-        // 更新统计信息
-        const imageCount =
-          data.images?.reduce(
-            (sum: number, group: any) => sum + group.files.length,
-            0,
-          ) || 0;
-        const mediaCount =
-          data.media?.reduce(
-            (sum: number, group: any) => sum + group.files.length,
-            0,
-          ) || 0;
-        const fontCount =
-          data.fonts?.reduce(
-            (sum: number, group: any) => sum + group.files.length,
-            0,
-          ) || 0;
-        const officeCount =
-          data.office?.reduce(
-            (sum: number, group: any) => sum + group.files.length,
-            0,
-          ) || 0;
-        const othersCount =
-          data.others?.reduce(
-            (sum: number, group: any) => sum + group.files.length,
-            0,
-          ) || 0;
-        const folderCount = data.images?.length || 0;
-
-        setStats({
-          images: imageCount,
-          media: mediaCount,
-          fonts: fontCount,
-          office: officeCount,
-          others: othersCount,
-          folders: folderCount,
-          total:
-            imageCount + mediaCount + fontCount + officeCount + othersCount,
+      } else if (message.type === "assetUsage") {
+        setUsage({
+          enabled: message.enabled,
+          unused: message.unused,
+          reclaimable: message.reclaimable,
         });
-      } else if (message.type === "fontData") {
-        // 接收字体数据
-        setAssetData({ fonts: message.data });
-        setStats((prev) => ({ ...prev, fonts: message.data?.length || 0 }));
+      } else if (message.type === "assetUsages") {
+        setUsagesTarget((prev) =>
+          prev && prev.file.path === message.path
+            ? { ...prev, usages: message.usages }
+            : prev,
+        );
+      } else if (message.type === "revealAsset") {
+        // 清除可能隐藏目标卡片的文件夹、筛选与搜索条件
+        setActiveRoot(null);
+        setFilters(DEFAULT_FILTERS);
+        setSearchQuery("");
+        setActiveTab(message.category);
+        setRevealPath(message.path);
+      } else if (message.type === "imageMetadata") {
+        setImageMetadata({ path: message.path, metadata: message.metadata });
+      } else if (message.type === "svgInspection") {
+        setSvgInspection({ path: message.path, inspection: message.inspection });
+      } else if (message.type === "optimizeResult") {
+        setOptimizing((prev) =>
+          prev && { ...prev, results: [...prev.results, message.result] },
+        );
+      } else if (message.type === "optimizeDone") {
+        setOptimizing((prev) => prev && { ...prev, done: true });
+      } else if (message.type === "excludedFiles") {
+        setExcludedFiles(message.files);
+      } else if (message.type === "assetDelta") {
+        // 接收索引增量变更，只合并变化的文件
+        setAssetData((prev) =>
+          applyAssetDelta(
+            prev ?? EMPTY_ASSET_DATA,
+            message.upserted,
+            message.removed,
+          ),
+        );
       }
     };
 
@@ -137,11 +260,32 @@ export default function App() {
     return () => window.removeEventListener("message", handleMessage);
   }, []);
 
+  // 目标卡片渲染后滚动到可见区域并短暂高亮
+  useEffect(() => {
+    if (!revealPath) return;
+    const card = document.querySelector<HTMLElement>(
+      `[data-file-path="${CSS.escape(revealPath)}"]`,
+    );
+    if (!card) return;
+    card.scrollIntoView({ block: "center", behavior: "smooth" });
+    card.classList.add("reveal-highlight");
+    setTimeout(() => card.classList.remove("reveal-highlight"), 2000);
+    setRevealPath(null);
+  }, [revealPath, allAssetData, activeTab]);
+
   const handleRefresh = useCallback(() => {
     setIsRefreshing(true);
     vscode.postMessage({ type: "refresh" });
   }, []);
 
+  const handleCancelScan = useCallback(() => {
+    vscode.postMessage({ type: "cancelScan" });
+  }, []);
+
+  const handleShowExcluded = useCallback(() => {
+    vscode.postMessage({ type: "getExcluded" });
+  }, []);
+
   const handleReveal = useCallback((path: string) => {
     vscode.postMessage({ type: "reveal", path });
   }, []);
@@ -150,21 +294,120 @@ export default function App() {
     vscode.postMessage({ type: "openFile", path });
   }, []);
 
+  const handleOpenLocation = useCallback((usage: UsageLocation) => {
+    vscode.postMessage({
+      type: "openLocation",
+      path: usage.file,
+      line: usage.line,
+      character: usage.character,
+    });
+  }, []);
+
+  const handleInspectMetadata = useCallback((path: string) => {
+    vscode.postMessage({ type: "getMetadata", path });
+  }, []);
+
+  const handleStripMetadata = useCallback((path: string) => {
+    vscode.postMessage({ type: "stripMetadata", path });
+  }, []);
+
+  const handleInspectSvg = useCallback((path: string) => {
+    vscode.postMessage({ type: "inspectSvg", path });
+  }, []);
+
+  const handleOptimizeSvg = useCallback((path: string) => {
+    vscode.postMessage({ type: "optimizeSvg", path });
+  }, []);
+
+  const handleConvert = useCallback((paths: string[]) => {
+    vscode.postMessage({ type: "convertImages", paths });
+  }, []);
+
+  const handleGenerateVariants = useCallback((path: string) => {
+    vscode.postMessage({ type: "generateVariants", path });
+  }, []);
+
+  const handleGenerateSvgComponents = useCallback((paths: string[]) => {
+    vscode.postMessage({ type: "generateSvgComponents", paths });
+  }, []);
+
+  const handleOptimize = useCallback((paths: string[]) => {
+    setOptimizing({ total: paths.length, results: [], done: false });
+    vscode.postMessage({ type: "optimizeImages", paths });
+  }, []);
+
+  const handleApplyOptimization = useCallback((paths: string[]) => {
+    setOptimizing(null);
+    vscode.postMessage({ type: "applyOptimization", paths });
+  }, []);
+
+  // 关闭弹窗即放弃预览，扩展停止压缩并删除临时文件
+  const handleCloseOptimize = useCallback(() => {
+    setOptimizing(null);
+    vscode.postMessage({ type: "discardOptimization" });
+  }, []);
+
+  const assetActions = useMemo<AssetActions>(
+    () => ({
+      findUsages: (file) => {
+        setUsagesTarget({ file, usages: null });
+        vscode.postMessage({ type: "findUsages", path: file.path });
+      },
+      rename: (file) => {
+        vscode.postMessage({ type: "renameAsset", path: file.path });
+      },
+      move: (file) => {
+        vscode.postMessage({ type: "moveAsset", path: file.path });
+      },
+    }),
+    [],
+  );
+
+  const handleLoadMore = useCallback(
+    (category: AssetCategory, all = false) => {
+      vscode.postMessage({ type: "loadMore", category, all });
+    },
+    [],
+  );
+
+  // 搜索、筛选、按体积排序需要完整数据，此时一次性加载当前分类剩余的分页
+  useEffect(() => {
+    const needsAll =
+      searchQuery !== "" ||
+      hasActiveFilter(filters) ||
+      (activeTab === "images" && sortBy !== "name");
+    if (needsAll && loadedStats[activeTab] < totalStats[activeTab]) {
+      handleLoadMore(activeTab, true);
+    }
+  }, [
+    searchQuery,
+    filters,
+    sortBy,
+    activeTab,
+    loadedStats,
+    totalStats,
+    handleLoadMore,
+  ]);
+
   const handleTabChange = useCallback((tab: typeof activeTab) => {
     setActiveTab(tab);
     setSearchQuery(""); // 切换标签时清空搜索
   }, []);
 
   const handleDuplicateClick = (file: any) => {
+    // 重复文件可能位于尚未加载的分页中
+    if (loadedStats.images < totalStats.images) {
+      handleLoadMore("images", true);
+    }
     setDuplicateModalGroup({ file, hash: file.hash });
   };
 
   // 根据哈希获取其他重复文件，并按文件夹分组
   const getDuplicateGroups = (hash: string, sourcePath: string) => {
-    if (!assetData?.images || !hash) return [];
+    if (!allAssetData?.groups.images || !hash) return [];
 
     const otherFiles: any[] = [];
-    assetData.images.forEach((group: any) => {
+    allAssetData.groups.images.forEach((group: any) => {
       group.files.forEach((file: any) => {
         if (file.hash === hash && file.path !== sourcePath) {
           // 这里的 file 对象本身不带 folder 字段，需要从 group 中获取
@@ -184,80 +427,179 @@ export default function App() {
     return Object.entries(groups).map(([folder, files]) => ({ folder, files }));
   };
 
+  // 近似图片（相似度从高到低），只包含已加载的文件
+  const getSimilarFiles = (sourcePath: string) => {
+    const files = new Map<string, any>();
+    allAssetData?.groups.images?.forEach((group: any) =>
+      group.files.forEach((file: any) => files.set(file.path, file)),
+    );
+    return (similarImages[sourcePath] ?? [])
+      .filter((item) => files.has(item.path))
+      .map((item) => ({ ...files.get(item.path), similarity: item.similarity }));
+  };
+
+  const similarFiles = duplicateModalGroup
+    ? getSimilarFiles(duplicateModalGroup.file.path)
+    : [];
+
   return (
     <div className="app">
       <Header
         stats={stats}
         isRefreshing={isRefreshing}
         onRefresh={handleRefresh}
+        roots={roots}
+        activeRoot={activeRoot}
+        onRootChange={setActiveRoot}
+        scanProgress={scanProgress}
+        onCancelScan={handleCancelScan}
+        reclaimable={reclaimable}
       />
 
+      {summary?.scan && (
+        <ScanBanner report={summary.scan} onShowExcluded={handleShowExcluded} />
+      )}
+
       <SearchBar
         value={searchQuery}
         onChange={setSearchQuery}
-        sortBy={sortBy as any}
-        onSortChange={setSortBy as any}
+        sortBy={sortBy}
+        onSortChange={setSortBy}
+      />
+
+      <FilterBar
+        filters={filters}
+        onChange={setFilters}
+        mismatchCount={summary?.mismatched ?? 0}
+        privacyCount={summary?.privateMetadata ?? 0}
+        unusedCount={reclaimable?.count ?? null}
       />
 
       <TabBar
+        categories={categories}
         stats={stats}
         activeTab={activeTab}
         onTabChange={handleTabChange}
       />
 
-      <div className="panels">
-        <div className={`panel ${activeTab === "images" ? "active" : ""}`}>
-          <ImageSection
-            data={assetData?.images || []}
-            searchQuery={searchQuery}
-            sortBy={sortBy as any}
-            duplicateHashes={duplicateHashes}
-            largeFileThreshold={largeFileThreshold}
-            thresholdValue={thresholdValue}
-            thresholdUnit={thresholdUnit}
-            onThresholdValueChange={setThresholdValue}
-            onThresholdUnitChange={setThresholdUnit as any}
-            onReveal={handleReveal}
-            onDuplicateClick={handleDuplicateClick}
-          />
-        </div>
+      <AssetActionsProvider actions={assetActions}>
+        <UsageProvider unused={unusedPaths}>
+          <div className="panels">
+            <div className={`panel ${activeTab === "images" ? "active" : ""}`}>
+              <ImageSection
+                data={assetData?.groups.images || []}
+                searchQuery={searchQuery}
+                sortBy={sortBy}
+                duplicateHashes={duplicateHashes}
+                similarImages={similarImages}
+                largeFileThreshold={largeFileThreshold}
+                thresholdValue={thresholdValue}
+                thresholdUnit={thresholdUnit}
+                onThresholdValueChange={setThresholdValue}
+                onThresholdUnitChange={setThresholdUnit as any}
+                onReveal={handleReveal}
+                onDuplicateClick={handleDuplicateClick}
+                metadata={imageMetadata}
+                onInspectMetadata={handleInspectMetadata}
+                onStripMetadata={handleStripMetadata}
+                onOptimize={handleOptimize}
+                onConvert={handleConvert}
+                onGenerateVariants={handleGenerateVariants}
+                svgInspection={svgInspection}
+                onInspectSvg={handleInspectSvg}
+                onOptimizeSvg={handleOptimizeSvg}
+                onGenerateSvgComponents={handleGenerateSvgComponents}
+              />
+              <LoadMore
+                loaded={loadedStats.images}
+                total={totalStats.images}
+                onLoadMore={() => handleLoadMore("images")}
+              />
+            </div>
 
-        <div className={`panel ${activeTab === "media" ? "active" : ""}`}>
-          <MediaSection
-            data={assetData?.media || []}
-            searchQuery={searchQuery}
-            onReveal={handleReveal}
-            onOpenFile={handleOpenFile}
-          />
-        </div>
+            <div className={`panel ${activeTab === "media" ? "active" : ""}`}>
+              <MediaSection
+                data={assetData?.groups.media || []}
+                searchQuery={searchQuery}
+                onReveal={handleReveal}
+                onOpenFile={handleOpenFile}
+              />
+              <LoadMore
+                loaded={loadedStats.media}
+                total={totalStats.media}
+                onLoadMore={() => handleLoadMore("media")}
+              />
+            </div>
 
-        <div className={`panel ${activeTab === "fonts" ? "active" : ""}`}>
-          <FontSection
-            data={assetData?.fonts || []}
-            searchQuery={searchQuery}
-            onReveal={handleReveal}
-            // onOpenFile={handleOpenFile}
-          />
-        </div>
+            <div className={`panel ${activeTab === "fonts" ? "active" : ""}`}>
+              <FontSection
+                data={assetData?.groups.fonts || []}
+                searchQuery={searchQuery}
+                onReveal={handleReveal}
+                // onOpenFile={handleOpenFile}
+              />
+              <LoadMore
+                loaded={loadedStats.fonts}
+                total={totalStats.fonts}
+                onLoadMore={() => handleLoadMore("fonts")}
+              />
+            </div>
 
-        <div className={`panel ${activeTab === "office" ? "active" : ""}`}>
-          <OfficeSection
-            data={assetData?.office || []}
-            searchQuery={searchQuery}
-            onReveal={handleReveal}
-            onOpenFile={handleOpenFile}
-          />
-        </div>
+            <div className={`panel ${activeTab === "office" ? "active" : ""}`}>
+              <OfficeSection
+                data={assetData?.groups.office || []}
+                searchQuery={searchQuery}
+                onReveal={handleReveal}
+                onOpenFile={handleOpenFile}
+              />
+              <LoadMore
+                loaded={loadedStats.office}
+                total={totalStats.office}
+                onLoadMore={() => handleLoadMore("office")}
+              />
+            </div>
 
-        <div className={`panel ${activeTab === "others" ? "active" : ""}`}>
-          <OtherSection
-            data={assetData?.others || []}
-            searchQuery={searchQuery}
-            onReveal={handleReveal}
-            onOpenFile={handleOpenFile}
-          />
-        </div>
-      </div>
+            <div className={`panel ${activeTab === "others" ? "active" : ""}`}>
+              <OtherSection
+                data={assetData?.groups.others || []}
+                searchQuery={searchQuery}
+                onReveal={handleReveal}
+                onOpenFile={handleOpenFile}
+              />
+              <LoadMore
+                loaded={loadedStats.others}
+                total={totalStats.others}
+                onLoadMore={() => handleLoadMore("others")}
+              />
+            </div>
+
+            {/* 自定义分类统一使用通用文件列表展示 */}
+            {categories
+              .filter((category) => !category.builtin)
+              .map((category) => (
+                <div
+                  key={category.id}
+                  className={`panel ${activeTab === category.id ? "active" : ""}`}
+                >
+                  <OtherSection
+                    data={assetData?.groups[category.id] || []}
+                    searchQuery={searchQuery}
+                    onReveal={handleReveal}
+                    onOpenFile={handleOpenFile}
+                    emptyIcon={category.icon}
+                    emptyTitle={t('noCategoryFiles', category.label ?? category.id)}
+                    emptyHint={category.extensions.map((ext) => ext.toUpperCase()).join(" / ")}
+                  />
+                  <LoadMore
+                    loaded={loadedStats[category.id] ?? 0}
+                    total={totalStats[category.id] ?? 0}
+                    onLoadMore={() => handleLoadMore(category.id)}
+                  />
+                </div>
+              ))}
+          </div>
+        </UsageProvider>
+      </AssetActionsProvider>
 
       {/* 重复文件弹窗 */}
       {duplicateModalGroup && (
@@ -305,53 +647,123 @@ export default function App() {
               </div>
 
               {/* 重复列表部分 */}
+              {duplicateHashes[duplicateModalGroup.hash] > 1 && (
                 <div className="modal-section duplicates">
-                <div className="section-header">
-                  {t('duplicateList', duplicateHashes[duplicateModalGroup.hash] - 1)}
-                </div>
-                <div className="duplicate-groups">
-                  {getDuplicateGroups(
-                    duplicateModalGroup.hash,
-                    duplicateModalGroup.file.path,
-                  ).map((group) => (
-                    <div key={group.folder} className="modal-folder-group">
-                      <div className="modal-folder-title">
-                        📁 {group.folder}
-                      </div>
-                      <div className="duplicate-list">
-                        {group.files.map((file: any) => (
-                          <div
-                            key={file.path}
-                            className="duplicate-item small with-preview"
-                          >
-                            <div className="dup-mini-preview">
-                              <img src={file.uri} alt={file.name} />
-                            </div>
-                            <div className="dup-info">
-                              <div className="dup-name" title={file.name}>
-                                {file.name}
+                  <div className="section-header">
+                    {t('duplicateList', duplicateHashes[duplicateModalGroup.hash] - 1)}
+                  </div>
+                  <div className="duplicate-groups">
+                    {getDuplicateGroups(
+                      duplicateModalGroup.hash,
+                      duplicateModalGroup.file.path,
+                    ).map((group) => (
+                      <div key={group.folder} className="modal-folder-group">
+                        <div className="modal-folder-title">
+                          📁 {group.folder}
+                        </div>
+                        <div className="duplicate-list">
+                          {group.files.map((file: any) => (
+                            <div
+                              key={file.path}
+                              className="duplicate-item small with-preview"
+                            >
+                              <div className="dup-mini-preview">
+                                <img src={file.uri} alt={file.name} />
                               </div>
-                              <div className="dup-meta-inline">
-                                {file.size} · {file.relativePath}
+                              <div className="dup-info">
+                                <div className="dup-name" title={file.name}>
+                                  {file.name}
+                                </div>
+                                <div className="dup-meta-inline">
+                                  {file.size} · {file.relativePath}
+                                </div>
                               </div>
+                              <button
+                                className="btn secondary tiny"
+                                onClick={() => handleReveal(file.path)}
+                              >
+                                {t('locate')}
+                              </button>
                             </div>
-                            <button
-                              className="btn secondary tiny"
-                              onClick={() => handleReveal(file.path)}
-                            >
-                              {t('locate')}
-                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* 近似图片部分 */}
+              {similarFiles.length > 0 && (
+                <div className="modal-section duplicates">
+                  <div className="section-header">
+                    {t('similarList', similarFiles.length)}
+                  </div>
+                  <div className="duplicate-list">
+                    {similarFiles.map((file) => (
+                      <div
+                        key={file.path}
+                        className="duplicate-item small with-preview"
+                      >
+                        <div className="dup-mini-preview">
+                          <img src={file.uri} alt={file.name} />
+                        </div>
+                        <div className="dup-info">
+                          <div className="dup-name" title={file.name}>
+                            {file.name}
+                          </div>
+                          <div className="dup-meta-inline">
+                            {file.size}
+                            {file.image && ` · ${file.image.width}×${file.image.height}`}
+                            {" · "}
+                            {file.relativePath}
                           </div>
-                        ))}
+                        </div>
+                        <span
+                          className="similarity-score"
+                          title={t('similarityTitle')}
+                        >
+                          {file.similarity}%
+                        </span>
+                        <button
+                          className="btn secondary tiny"
+                          onClick={() => handleReveal(file.path)}
+                        >
+                          {t('locate')}
+                        </button>
                       </div>
-                    </div>
-                  ))}
+                    ))}
+                  </div>
                 </div>
-              </div>
+              )}
             </div>
           </div>
         </div>
       )}
+      {excludedFiles && (
+        <ExcludedModal
+          files={excludedFiles}
+          onClose={() => setExcludedFiles(null)}
+          onReveal={handleReveal}
+        />
+      )}
+      {usagesTarget && (
+        <UsagesModal
+          file={usagesTarget.file}
+          usages={usagesTarget.usages}
+          onClose={() => setUsagesTarget(null)}
+          onOpenLocation={handleOpenLocation}
+        />
+      )}
+      {optimizing && (
+        <OptimizeModal
+          total={optimizing.total}
+          results={optimizing.results}
+          done={optimizing.done}
+          onApply={handleApplyOptimization}
+          onClose={handleCloseOptimize}
+        />
+      )}
       <PreviewOverlay />
     </div>
   );
@@ -0,0 +1,35 @@
+import { AssetFile } from '../types';
+import { useI18n } from '../contexts/I18nContext';
+import { useAssetActions } from '../contexts/AssetActionsContext';
+
+/**
+ * 各分类卡片共用的操作按钮（查找引用、重命名、移动），放在卡片原有的操作区内
+ */
+export default function AssetActions({ file }: { file: AssetFile }) {
+  const { t } = useI18n();
+  const actions = useAssetActions();
+
+  const buttons: Array<{ key: keyof typeof actions; label: string; title: string }> = [
+    { key: 'findUsages', label: t('findUsages'), title: t('findUsagesTitle') },
+    { key: 'rename', label: t('renameAsset'), title: t('renameAssetTitle') },
+    { key: 'move', label: t('moveAsset'), title: t('moveAssetTitle') },
+  ];
+
+  return (
+    <>
+      {buttons.map(({ key, label, title }) => (
+        <button
+          key={key}
+          className="btn secondary"
+          onClick={(e) => {
+            e.stopPropagation();
+            actions[key](file);
+          }}
+          title={title}
+        >
+          {label}
+        </button>
+      ))}
+    </>
+  );
+}
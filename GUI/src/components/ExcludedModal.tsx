@@ -0,0 +1,67 @@
+import { useMemo } from 'react';
+import { ExcludedFile } from '../types';
+import { useI18n } from '../contexts/I18nContext';
+
+interface ExcludedModalProps {
+  files: ExcludedFile[];
+  onClose: () => void;
+  onReveal: (path: string) => void;
+}
+
+/**
+ * 被 .gitignore / .assetignore 排除的文件列表，按规则文件分组并显示命中的规则
+ */
+export default function ExcludedModal({ files, onClose, onReveal }: ExcludedModalProps) {
+  const { t } = useI18n();
+
+  const groups = useMemo(() => {
+    const map = new Map<string, ExcludedFile[]>();
+    for (const file of files) {
+      const key = `${file.root}/${file.reason.source}`;
+      if (!map.has(key)) map.set(key, []);
+      map.get(key)!.push(file);
+    }
+    return Array.from(map.entries())
+      .map(([source, list]) => ({
+        source,
+        files: list.sort((a, b) => a.relativePath.localeCompare(b.relativePath)),
+      }))
+      .sort((a, b) => a.source.localeCompare(b.source));
+  }, [files]);
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content wide" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h3>{t('excludedFiles', files.length)}</h3>
+          <button className="close-btn" onClick={onClose}>✕</button>
+        </div>
+        <div className="modal-body">
+          {groups.length === 0 && <div className="empty">{t('noExcludedFiles')}</div>}
+          {groups.map(group => (
+            <div key={group.source} className="modal-folder-group">
+              <div className="modal-folder-title">📄 {group.source}</div>
+              <div className="duplicate-list">
+                {group.files.map(file => (
+                  <div key={file.path} className="duplicate-item small">
+                    <div className="dup-info">
+                      <div className="dup-name" title={file.relativePath}>
+                        {file.relativePath}
+                      </div>
+                      <div className="dup-meta-inline">
+                        {t('excludedBy', file.reason.line, file.reason.pattern)}
+                      </div>
+                    </div>
+                    <button className="btn secondary tiny" onClick={() => onReveal(file.path)}>
+                      {t('locate')}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
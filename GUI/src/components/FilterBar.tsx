@@ -0,0 +1,47 @@
+import { AssetFilters } from '../types';
+import { useI18n } from '../contexts/I18nContext';
+
+interface FilterBarProps {
+  filters: AssetFilters;
+  onChange: (filters: AssetFilters) => void;
+  mismatchCount: number;
+  /** 含 GPS 或个人信息元数据的图片数 */
+  privacyCount: number;
+  /** 未被引用的文件数，引用分析未开启或未完成时为 null，不显示对应筛选 */
+  unusedCount: number | null;
+}
+
+/**
+ * 作用于所有分类的快捷筛选
+ */
+export default function FilterBar({ filters, onChange, mismatchCount, privacyCount, unusedCount }: FilterBarProps) {
+  const { t } = useI18n();
+
+  return (
+    <div className="filter-bar">
+      <button
+        className={`filter-chip ${filters.mismatch ? 'active' : ''}`}
+        onClick={() => onChange({ ...filters, mismatch: !filters.mismatch })}
+        title={t('filterMismatchTitle')}
+      >
+        {t('filterMismatch', mismatchCount)}
+      </button>
+      <button
+        className={`filter-chip ${filters.privacy ? 'active' : ''}`}
+        onClick={() => onChange({ ...filters, privacy: !filters.privacy })}
+        title={t('filterPrivacyTitle')}
+      >
+        {t('filterPrivacy', privacyCount)}
+      </button>
+      {unusedCount !== null && (
+        <button
+          className={`filter-chip ${filters.unused ? 'active' : ''}`}
+          onClick={() => onChange({ ...filters, unused: !filters.unused })}
+          title={t('filterUnusedTitle')}
+        >
+          {t('filterUnused', unusedCount)}
+        </button>
+      )}
+    </div>
+  );
+}
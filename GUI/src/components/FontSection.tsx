@@ -2,6 +2,9 @@ import { useState, useEffect } from 'react';
 import { FontFile } from '../types';
 import { useI18n } from '../contexts/I18nContext';
 import { handleAssetDragStart } from '../utils/dragUtils';
+import MismatchBadge from './MismatchBadge';
+import UnusedBadge from './UnusedBadge';
+import AssetActions from './AssetActions';
 
 interface FontSectionProps {
   data: Array<{ folder: string; files: FontFile[] }>;
@@ -187,6 +190,8 @@ export default function FontSection({
                     <span>🔤</span>
                     <span>{font.name}</span>
                     <span className="badge">{font.ext}</span>
+                    <MismatchBadge file={font} />
+                    <UnusedBadge file={font} />
                   </div>
                   <div className="font-family">{font.familyName}</div>
                   {!font.uri ? (
@@ -237,6 +242,7 @@ export default function FontSection({
                     >
                       {t('locateFont')}
                     </button>
+                    <AssetActions file={font} />
                   </div>
                 </div>
               );
@@ -1,23 +1,36 @@
 import { useState, useRef, useEffect } from 'react';
-import { Stats } from '../types';
+import { ScanProgress, Stats, WorkspaceRoot } from '../types';
+import { formatSize } from '../utils/assetData';
 import { useI18n } from '../contexts/I18nContext';
 
 interface HeaderProps {
   stats: Stats;
   isRefreshing: boolean;
   onRefresh: () => void;
+  roots: WorkspaceRoot[];
+  activeRoot: string | null;
+  onRootChange: (root: string | null) => void;
+  scanProgress: ScanProgress | null;
+  onCancelScan: () => void;
+  /** 未被引用的文件数与可回收体积（当前工作区文件夹），引用分析未完成时为 null */
+  reclaimable: { count: number; bytes: number } | null;
 }
 
-export default function Header({ isRefreshing, onRefresh }: HeaderProps) {
+export default function Header({ isRefreshing, onRefresh, roots, activeRoot, onRootChange, scanProgress, onCancelScan, reclaimable }: HeaderProps) {
   const { t, locale, setLocale } = useI18n();
   const [showLangMenu, setShowLangMenu] = useState(false);
+  const [showRootMenu, setShowRootMenu] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
+  const rootMenuRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     const handleClickOutside = (e: MouseEvent) => {
       if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
         setShowLangMenu(false);
       }
+      if (rootMenuRef.current && !rootMenuRef.current.contains(e.target as Node)) {
+        setShowRootMenu(false);
+      }
     };
     document.addEventListener('mousedown', handleClickOutside);
     return () => document.removeEventListener('mousedown', handleClickOutside);
@@ -29,8 +42,59 @@ export default function Header({ isRefreshing, onRefresh }: HeaderProps) {
     <div className="header">
       <div>
         <div className="title">{t('title')}</div>
+        {reclaimable && reclaimable.count > 0 && (
+          <div className="reclaimable" title={t('reclaimableTitle')}>
+            {t('reclaimable', reclaimable.count, formatSize(reclaimable.bytes))}
+          </div>
+        )}
+        {scanProgress && !scanProgress.done && (
+          <div className="scan-progress">
+            <span>{t('scanning', scanProgress.processed, scanProgress.total)}</span>
+            <div className="scan-progress-bar">
+              <div
+                className="scan-progress-fill"
+                style={{ width: `${scanProgress.total ? (scanProgress.processed / scanProgress.total) * 100 : 0}%` }}
+              />
+            </div>
+            <button className="btn secondary small" onClick={onCancelScan} title={t('stopScanTitle')}>
+              {t('stopScan')}
+            </button>
+          </div>
+        )}
       </div>
       <div className="header-actions">
+        {/* 多根工作区才显示文件夹切换 */}
+        {roots.length > 1 && (
+          <div className="lang-selector root-selector" ref={rootMenuRef}>
+            <button
+              className={`lang-btn ${showRootMenu ? 'active' : ''}`}
+              onClick={() => setShowRootMenu(!showRootMenu)}
+              title={t('workspaceRoot')}
+            >
+              📂 {activeRoot ?? t('allRoots')} ▼
+            </button>
+            {showRootMenu && (
+              <div className="lang-menu">
+                <div
+                  className={`lang-item ${activeRoot === null ? 'active' : ''}`}
+                  onClick={() => { onRootChange(null); setShowRootMenu(false); }}
+                >
+                  {t('allRoots')}
+                </div>
+                {roots.map(root => (
+                  <div
+                    key={root.path}
+                    className={`lang-item ${activeRoot === root.name ? 'active' : ''}`}
+                    title={root.path}
+                    onClick={() => { onRootChange(root.name); setShowRootMenu(false); }}
+                  >
+                    {root.name}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
         <div className="lang-selector" ref={menuRef}>
           <button
             className={`lang-btn ${showLangMenu ? 'active' : ''}`}
@@ -0,0 +1,21 @@
+import { ImageInfo } from '../types';
+import { useI18n } from '../contexts/I18nContext';
+
+/**
+ * 图片文件头信息：尺寸、位深、色彩空间、透明通道、帧数与 viewBox
+ */
+export default function ImageDetails({ image }: { image?: ImageInfo }) {
+  const { t } = useI18n();
+  if (!image) return null;
+
+  const parts = [
+    `${image.width} × ${image.height}`,
+    image.bitDepth ? t('bitDepth', image.bitDepth) : null,
+    image.colorSpace,
+    image.hasAlpha ? t('alphaChannel') : null,
+    image.frames && image.frames > 1 ? t('frameCount', image.frames) : null,
+    image.viewBox ? `viewBox ${image.viewBox}` : null,
+  ].filter(Boolean);
+
+  return <span className="image-details">{parts.join(' · ')}</span>;
+}
@@ -1,13 +1,39 @@
 import { useEffect, useState } from "react";
-import { ImageFile } from "../types";
+import {
+  ImageFile,
+  ImageInfo,
+  ImageMetadata,
+  SimilarImage,
+  SortKey,
+  SvgInspection,
+} from "../types";
 import { useI18n } from "../contexts/I18nContext";
 import { handleAssetDragStart } from "../utils/dragUtils";
+import MismatchBadge from "./MismatchBadge";
+import UnusedBadge from "./UnusedBadge";
+import AssetActions from "./AssetActions";
+import ImageDetails from "./ImageDetails";
+import MetadataPanel from "./MetadataPanel";
+import SvgPanel from "./SvgPanel";
+
+/** 支持无损去除元数据的格式 */
+const STRIPPABLE_EXTS = ["JPG", "JPEG", "PNG", "WEBP"];
+/** 支持重新压缩的格式 */
+const OPTIMIZABLE_EXTS = ["PNG", "JPG", "JPEG", "WEBP", "GIF", "SVG"];
+/** 可以转换为 WebP/AVIF 的格式 */
+const CONVERTIBLE_EXTS = ["PNG", "JPG", "JPEG"];
+/** 可以生成尺寸变体的格式 */
+const SCALABLE_EXTS = ["PNG", "JPG", "JPEG", "WEBP", "AVIF"];
+/** 可以生成 React/Vue 组件的格式 */
+const COMPONENT_EXTS = ["SVG"];
 
 interface ImageSectionProps {
   data: Array<{ folder: string; files: ImageFile[] }>;
   searchQuery: string;
-  sortBy: "name" | "size-asc" | "size-desc";
+  sortBy: SortKey;
   duplicateHashes: Record<string, number>;
+  /** 按感知哈希找到的近似图片 */
+  similarImages: Record<string, SimilarImage[]>;
   largeFileThreshold: number;
   thresholdValue: number;
   thresholdUnit: "B" | "KB" | "MB";
@@ -15,6 +41,22 @@ interface ImageSectionProps {
   onThresholdUnitChange: (unit: "B" | "KB" | "MB") => void;
   onReveal: (path: string) => void;
   onDuplicateClick: (file: ImageFile) => void;
+  /** 最近一次读取的元数据，path 对应请求的图片 */
+  metadata: { path: string; metadata: ImageMetadata } | null;
+  onInspectMetadata: (path: string) => void;
+  onStripMetadata: (path: string) => void;
+  /** 压缩图片，先预览再确认覆盖 */
+  onOptimize: (paths: string[]) => void;
+  /** 转换为 WebP/AVIF，格式与选项由扩展端询问 */
+  onConvert: (paths: string[]) => void;
+  /** 从源图生成 @1x/@2x/@3x 或 srcset 宽度变体 */
+  onGenerateVariants: (path: string) => void;
+  /** 最近一次读取的 SVG 检查结果，path 对应请求的文件 */
+  svgInspection: { path: string; inspection: SvgInspection } | null;
+  onInspectSvg: (path: string) => void;
+  onOptimizeSvg: (path: string) => void;
+  /** 从 SVG 生成 React/Vue 组件，框架与选项由扩展端询问 */
+  onGenerateSvgComponents: (paths: string[]) => void;
 }
 
 interface FolderGroup {
@@ -28,6 +70,7 @@ export default function ImageSection({
   searchQuery,
   sortBy,
   duplicateHashes,
+  similarImages,
   largeFileThreshold,
   thresholdValue,
   thresholdUnit,
@@ -35,15 +78,45 @@ export default function ImageSection({
   onThresholdUnitChange,
   onReveal,
   onDuplicateClick,
+  metadata,
+  onInspectMetadata,
+  onStripMetadata,
+  onOptimize,
+  onConvert,
+  onGenerateVariants,
+  svgInspection,
+  onInspectSvg,
+  onOptimizeSvg,
+  onGenerateSvgComponents,
 }: ImageSectionProps) {
   const { t } = useI18n();
   const [folders, setFolders] = useState<FolderGroup[]>([]);
   const [previewImage, setPreviewImage] = useState<{
+    path: string;
     src: string;
     name: string;
     size: string;
+    ext: string;
+    image?: ImageInfo;
   } | null>(null);
   const [bgBrightness, setBgBrightness] = useState(50); // 0-100
+  const [showMetadata, setShowMetadata] = useState(false);
+  // SVG 源码面板与元数据面板位置相同，同一时间只显示一个
+  const [showSvgSource, setShowSvgSource] = useState(false);
+  // 预览中的图片被改写（如去除元数据）后哈希变化，据此重新读取元数据
+  const previewHash = previewImage
+    ? data
+        .flatMap((group) => group.files)
+        .find((file) => file.path === previewImage.path)?.hash
+    : undefined;
+
+  useEffect(() => {
+    if (showMetadata && previewImage) onInspectMetadata(previewImage.path);
+  }, [showMetadata, previewImage?.path, previewHash]);
+
+  useEffect(() => {
+    if (showSvgSource && previewImage?.ext === "SVG") onInspectSvg(previewImage.path);
+  }, [showSvgSource, previewImage?.path, previewHash]);
 
   // 将接收到的数据转换为组件内部状态
   useEffect(() => {
@@ -65,8 +138,15 @@ export default function ImageSection({
     );
   };
 
-  const showPreview = (src: string, name: string, size: string) => {
-    setPreviewImage({ src, name, size });
+  const showPreview = (file: ImageFile) => {
+    setPreviewImage({
+      path: file.path,
+      src: file.uri,
+      name: file.name,
+      size: file.size,
+      ext: file.ext,
+      image: file.image,
+    });
   };
 
   const closePreview = () => {
@@ -83,6 +163,10 @@ export default function ImageSection({
           return (a.sizeBytes || 0) - (b.sizeBytes || 0);
         case "size-desc":
           return (b.sizeBytes || 0) - (a.sizeBytes || 0);
+        case "dimensions-asc":
+          return pixels(a) - pixels(b);
+        case "dimensions-desc":
+          return pixels(b) - pixels(a);
         default:
           return 0;
       }
@@ -106,6 +190,15 @@ export default function ImageSection({
     })
     .filter((group) => group.files.length > 0);
 
+  // 当前筛选结果中超过阈值、可以压缩的大图
+  const largeFiles = filteredFolders.flatMap((group) =>
+    group.files.filter(
+      (file) =>
+        (file.sizeBytes || 0) > largeFileThreshold &&
+        OPTIMIZABLE_EXTS.includes(file.ext),
+    ),
+  );
+
   if (folders.length === 0) {
     return (
       <div className="empty">
@@ -138,6 +231,15 @@ export default function ImageSection({
             <option value="MB">MB</option>
           </select>
         </div>
+        {largeFiles.length > 0 && (
+          <button
+            className="btn small"
+            title={t('optimizeLargeTitle')}
+            onClick={() => onOptimize(largeFiles.map((file) => file.path))}
+          >
+            {t('optimizeLarge', largeFiles.length)}
+          </button>
+        )}
       </div>
 
       {filteredFolders.map((group) => (
@@ -153,6 +255,38 @@ export default function ImageSection({
             <span>📁</span>
             <span className="folder-name">{group.folder}</span>
             <span className="folder-count">{t('imagesCount', group.files.length)}</span>
+            {group.files.some((file) => CONVERTIBLE_EXTS.includes(file.ext)) && (
+              <button
+                className="btn secondary small folder-action"
+                title={t('convertFolderTitle')}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onConvert(
+                    group.files
+                      .filter((file) => CONVERTIBLE_EXTS.includes(file.ext))
+                      .map((file) => file.path),
+                  );
+                }}
+              >
+                {t('convert')}
+              </button>
+            )}
+            {group.files.some((file) => COMPONENT_EXTS.includes(file.ext)) && (
+              <button
+                className="btn secondary small folder-action"
+                title={t('svgComponentsFolderTitle')}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onGenerateSvgComponents(
+                    group.files
+                      .filter((file) => COMPONENT_EXTS.includes(file.ext))
+                      .map((file) => file.path),
+                  );
+                }}
+              >
+                {t('svgComponents')}
+              </button>
+            )}
           </div>
           <div className="gallery">
             {group.files.map((file) => {
@@ -161,6 +295,7 @@ export default function ImageSection({
                 ? duplicateHashes[file.hash] || 0
                 : 0;
               const isDuplicate = duplicateCount > 1;
+              const similar = similarImages[file.path] ?? [];
 
               return (
                 <div
@@ -192,11 +327,33 @@ export default function ImageSection({
                         {t('duplicate')}
                       </div>
                     )}
+                    {similar.length > 0 && (
+                      <div
+                        className="badge similar"
+                        title={t('similarCount', similar.length, similar[0].similarity)}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onDuplicateClick(file);
+                        }}
+                      >
+                        {t('similar')}
+                      </div>
+                    )}
+                    <MismatchBadge file={file} />
+                    <UnusedBadge file={file} />
+                    {file.privacy?.length ? (
+                      <div
+                        className="badge privacy"
+                        title={t("privacyBadgeTitle")}
+                      >
+                        {file.privacy.includes("gps") ? t("privacyGps") : t("privacyPersonal")}
+                      </div>
+                    ) : null}
                   </div>
 
                   <div
                     className="img-container"
-                    onClick={() => showPreview(file.uri, file.name, file.size)}
+                    onClick={() => showPreview(file)}
                   >
                     <img src={file.uri} alt={file.name} loading="lazy" />
                   </div>
@@ -215,14 +372,74 @@ export default function ImageSection({
                       <span className={isLarge ? "text-warning" : ""}>
                         {file.size}
                       </span>
+                      {file.image && (
+                        <span className="file-dimensions">
+                          {file.image.width}×{file.image.height}
+                        </span>
+                      )}
                       <span className="file-ext">{file.ext}</span>
                     </div>
+                    <div className="card-actions compact">
+                      <AssetActions file={file} />
+                      {OPTIMIZABLE_EXTS.includes(file.ext) && (
+                        <button
+                          className="btn secondary"
+                          title={t('optimizeTitle')}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onOptimize([file.path]);
+                          }}
+                        >
+                          {t('optimize')}
+                        </button>
+                      )}
+                      {CONVERTIBLE_EXTS.includes(file.ext) && (
+                        <button
+                          className="btn secondary"
+                          title={t('convertTitle')}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onConvert([file.path]);
+                          }}
+                        >
+                          {t('convert')}
+                        </button>
+                      )}
+                      {SCALABLE_EXTS.includes(file.ext) && (
+                        <button
+                          className="btn secondary"
+                          title={t('generateVariantsTitle')}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onGenerateVariants(file.path);
+                          }}
+                        >
+                          {t('generateVariants')}
+                        </button>
+                      )}
+                      {COMPONENT_EXTS.includes(file.ext) && (
+                        <button
+                          className="btn secondary"
+                          title={t('svgComponentsTitle')}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onGenerateSvgComponents([file.path]);
+                          }}
+                        >
+                          {t('svgComponents')}
+                        </button>
+                      )}
+                    </div>
                     <div>
-                      {isDuplicate && (
+                      {(isDuplicate || similar.length > 0) && (
                         <div
                           className="chongfu-action"
                           style={{ marginTop: "3px" }}
-                          title={t('duplicateCount', duplicateCount)}
+                          title={
+                            isDuplicate
+                              ? t('duplicateCount', duplicateCount)
+                              : t('similarCount', similar.length, similar[0].similarity)
+                          }
                           onClick={(e) => {
                             e.stopPropagation();
                             onDuplicateClick(file);
@@ -257,15 +474,68 @@ export default function ImageSection({
           />
           <div className="preview-info">
             {previewImage.name} · {previewImage.size}
+            {previewImage.image && (
+              <div>
+                <ImageDetails image={previewImage.image} />
+              </div>
+            )}
           </div>
           <div className="preview-header">
             <div className="preview-close">
+              <button
+                className={`btn small ${showMetadata ? "" : "secondary"}`}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setShowMetadata(!showMetadata);
+                  setShowSvgSource(false);
+                }}
+              >
+                {t('metadata')}
+              </button>{" "}
+              {previewImage.ext === "SVG" && (
+                <>
+                  <button
+                    className={`btn small ${showSvgSource ? "" : "secondary"}`}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setShowSvgSource(!showSvgSource);
+                      setShowMetadata(false);
+                    }}
+                  >
+                    {t('svgSource')}
+                  </button>{" "}
+                </>
+              )}
               <button className="btn small" onClick={closePreview}>
                 {t('close')}
               </button>
             </div>
           </div>
-          
+          {showMetadata && (
+            <MetadataPanel
+              metadata={
+                metadata?.path === previewImage.path ? metadata.metadata : null
+              }
+              onStrip={
+                STRIPPABLE_EXTS.includes(previewImage.ext)
+                  ? () => onStripMetadata(previewImage.path)
+                  : undefined
+              }
+              stripUnsupported={!STRIPPABLE_EXTS.includes(previewImage.ext)}
+            />
+          )}
+          {showSvgSource && previewImage.ext === "SVG" && (
+            <SvgPanel
+              key={previewImage.path}
+              inspection={
+                svgInspection?.path === previewImage.path
+                  ? svgInspection.inspection
+                  : null
+              }
+              onOptimize={() => onOptimizeSvg(previewImage.path)}
+            />
+          )}
+
           <div className="preview-footer">
             <div
               className="preview-bg-control"
@@ -289,4 +559,9 @@ export default function ImageSection({
       )}
     </>
   );
-}
\ No newline at end of file
+}
+
+/** 按尺寸排序时比较像素总数，未解析出尺寸的按 0 处理 */
+function pixels(file: ImageFile) {
+  return file.image ? file.image.width * file.image.height : 0;
+}
@@ -0,0 +1,45 @@
+import { useEffect, useRef } from 'react';
+import { useI18n } from '../contexts/I18nContext';
+
+interface LoadMoreProps {
+  loaded: number;
+  total: number;
+  onLoadMore: () => void;
+}
+
+/**
+ * 分页加载哨兵：滚动到可见区域时自动请求下一页，也可手动点击
+ */
+export default function LoadMore({ loaded, total, onLoadMore }: LoadMoreProps) {
+  const { t } = useI18n();
+  const ref = useRef<HTMLDivElement>(null);
+  // 同一页只请求一次，等新数据到达（loaded 变化）后再允许下一次请求
+  const requested = useRef(false);
+
+  useEffect(() => {
+    requested.current = false;
+  }, [loaded]);
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!el || loaded >= total) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some(entry => entry.isIntersecting) && !requested.current) {
+        requested.current = true;
+        onLoadMore();
+      }
+    });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [loaded, total, onLoadMore]);
+
+  if (loaded >= total) return null;
+
+  return (
+    <div className="load-more" ref={ref}>
+      <button className="btn secondary small" onClick={onLoadMore}>
+        {t('loadMore', loaded, total)}
+      </button>
+    </div>
+  );
+}
@@ -2,6 +2,9 @@ import { useEffect, useState } from 'react';
 import { MediaFile } from '../types';
 import { useI18n } from '../contexts/I18nContext';
 import { handleAssetDragStart } from '../utils/dragUtils';
+import MismatchBadge from './MismatchBadge';
+import UnusedBadge from './UnusedBadge';
+import AssetActions from './AssetActions';
 
 interface MediaSectionProps {
   data: Array<{ folder: string; files: MediaFile[] }>;
@@ -89,6 +92,8 @@ export default function MediaSection({
                   <span>{file.kind === 'video' ? '🎬' : '🎧'}</span>
                   <span>{file.name}</span>
                   <span className="badge">{file.ext}</span>
+                  <MismatchBadge file={file} />
+                  <UnusedBadge file={file} />
                 </div>
                 <div className="media-preview">
                   {file.kind === 'video' ? (
@@ -102,6 +107,7 @@ export default function MediaSection({
                   <button className="btn" onClick={() => onReveal(file.path)}>
                     {t('locateResource')}
                   </button>
+                  <AssetActions file={file} />
                 </div>
               </div>
             ))}
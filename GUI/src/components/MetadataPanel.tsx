@@ -0,0 +1,60 @@
+import { ImageMetadata, PrivacyKind } from '../types';
+import { useI18n } from '../contexts/I18nContext';
+
+interface MetadataPanelProps {
+  /** null 表示仍在读取 */
+  metadata: ImageMetadata | null;
+  /** 格式支持无损去除时提供 */
+  onStrip?: () => void;
+  /** 格式不支持无损去除（如 AVIF/HEIC）时说明原因 */
+  stripUnsupported?: boolean;
+}
+
+/**
+ * 图片预览中的元数据面板：按 EXIF/GPS/IPTC/XMP 分组列出字段，并标出隐私字段
+ */
+export default function MetadataPanel({ metadata, onStrip, stripUnsupported }: MetadataPanelProps) {
+  const { t } = useI18n();
+  const privacyLabel = (kind: PrivacyKind) => (kind === 'gps' ? t('privacyGps') : t('privacyPersonal'));
+
+  return (
+    <div className="metadata-panel" onClick={(e) => e.stopPropagation()}>
+      <div className="metadata-header">
+        <span className="metadata-title">{t('metadata')}</span>
+        {onStrip && metadata && metadata.groups.length > 0 && (
+          <button className="btn small" onClick={onStrip} title={t('stripMetadataTitle')}>
+            {t('stripMetadata')}
+          </button>
+        )}
+      </div>
+      {!metadata && <div className="muted">{t('loadingMetadata')}</div>}
+      {metadata && metadata.groups.length === 0 && <div className="muted">{t('noMetadata')}</div>}
+      {stripUnsupported && metadata && metadata.groups.length > 0 && (
+        <div className="muted">{t('stripMetadataUnsupported')}</div>
+      )}
+      {metadata && metadata.privacy.length > 0 && (
+        <div className="metadata-warning">
+          {t('privacyWarning', metadata.privacy.map(privacyLabel).join(', '))}
+        </div>
+      )}
+      {metadata?.groups.map((group) => (
+        <div key={group.name} className="metadata-group">
+          <div className="metadata-group-name">{group.name}</div>
+          <table className="metadata-table">
+            <tbody>
+              {group.fields.map((field, index) => (
+                <tr key={`${field.name}-${index}`} className={field.privacy ? 'privacy' : ''}>
+                  <td className="metadata-name">{field.name}</td>
+                  <td className="metadata-value" title={field.value}>
+                    {field.value}
+                    {field.privacy && <span className="badge privacy">{privacyLabel(field.privacy)}</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import { AssetFile } from '../types';
+import { useI18n } from '../contexts/I18nContext';
+
+/**
+ * 扩展名与文件头识别出的实际格式不一致时显示
+ */
+export default function MismatchBadge({ file }: { file: AssetFile }) {
+  const { t } = useI18n();
+  if (!file.extMismatch) return null;
+
+  return (
+    <span
+      className="badge mismatch"
+      title={t('extMismatchTitle', file.ext || '-', (file.sniffedType || '').toUpperCase())}
+    >
+      {t('extMismatch')}
+    </span>
+  );
+}
@@ -3,6 +3,9 @@ import { OfficeFile } from '../types';
 import DocumentPreview from './DocumentPreview';
 import { useI18n } from '../contexts/I18nContext';
 import { handleAssetDragStart } from '../utils/dragUtils';
+import MismatchBadge from './MismatchBadge';
+import UnusedBadge from './UnusedBadge';
+import AssetActions from './AssetActions';
 
 interface OfficeSectionProps {
   data: Array<{ folder: string; files: OfficeFile[] }>;
@@ -126,6 +129,8 @@ export default function OfficeSection({
                   <span>{getFileIcon(file.fileType)}</span>
                   <span>{file.name}</span>
                   <span className="badge">{file.ext}</span>
+                  <MismatchBadge file={file} />
+                  <UnusedBadge file={file} />
                 </div>
                 <div className="office-type">{getFileTypeName(file.fileType)}</div>
                 <div className="office-meta">📦 {file.size}</div>
@@ -150,6 +155,7 @@ export default function OfficeSection({
                   >
                     {t('locateResource')}
                   </button>
+                  <AssetActions file={file} />
                 </div>
               </div>
             ))}
@@ -0,0 +1,136 @@
+import { useEffect, useState } from 'react';
+import { OptimizeResult } from '../types';
+import { useI18n } from '../contexts/I18nContext';
+import { formatSize } from '../utils/assetData';
+
+interface OptimizeModalProps {
+  /** 待压缩的图片数量 */
+  total: number;
+  /** 已完成的压缩结果，按完成顺序追加 */
+  results: OptimizeResult[];
+  done: boolean;
+  onApply: (paths: string[]) => void;
+  onClose: () => void;
+}
+
+/**
+ * 压缩预览：逐张显示压缩前后体积，选中一张可拖动分隔线对比画面，确认后才覆盖原文件
+ */
+export default function OptimizeModal({ total, results, done, onApply, onClose }: OptimizeModalProps) {
+  const { t } = useI18n();
+  // 默认应用所有变小的结果，用户可取消勾选
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [activePath, setActivePath] = useState<string | null>(null);
+
+  const optimized = results.filter((result) => result.previewUri);
+  const active = results.find((result) => result.path === activePath) ?? optimized[0];
+  const selected = optimized.filter((result) => !excluded.has(result.path));
+  const before = selected.reduce((sum, r) => sum + r.originalSize, 0);
+  const saved = before - selected.reduce((sum, r) => sum + (r.optimizedSize ?? r.originalSize), 0);
+
+  const toggle = (path: string) => {
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content wide optimize-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h3>{t('optimizeImages', results.length, total)}</h3>
+          <button className="close-btn" onClick={onClose}>✕</button>
+        </div>
+        <div className="modal-body">
+          {active?.previewUri && (
+            <CompareView key={active.path} before={active.originalUri} after={active.previewUri} />
+          )}
+          {!done && <div className="muted optimize-progress">{t('optimizing')}</div>}
+          <div className="duplicate-list">
+            {results.map((result) => (
+              <div
+                key={result.path}
+                className={`duplicate-item small optimize-item ${active?.path === result.path ? 'active' : ''}`}
+                onClick={() => result.previewUri && setActivePath(result.path)}
+              >
+                <input
+                  type="checkbox"
+                  disabled={!result.previewUri}
+                  checked={!!result.previewUri && !excluded.has(result.path)}
+                  onClick={(e) => e.stopPropagation()}
+                  onChange={() => toggle(result.path)}
+                />
+                <div className="dup-info">
+                  <div className="dup-name" title={result.path}>{result.name}</div>
+                  <div className="dup-meta-inline">
+                    {result.error
+                      ? t('optimizeFailed', result.error)
+                      : result.optimizedSize === undefined
+                        ? t('alreadyOptimized', formatSize(result.originalSize))
+                        : `${formatSize(result.originalSize)} → ${formatSize(result.optimizedSize)}`}
+                  </div>
+                </div>
+                {result.optimizedSize !== undefined && (
+                  <span className="optimize-saving">
+                    -{percentOf(result.originalSize - result.optimizedSize, result.originalSize)}%
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+        <div className="modal-footer">
+          <span className="optimize-total">
+            {t('optimizeTotal', selected.length, formatSize(saved), percentOf(saved, before))}
+          </span>
+          <button className="btn secondary small" onClick={onClose}>{t('cancel')}</button>
+          <button
+            className="btn small"
+            disabled={!done || !selected.length}
+            onClick={() => onApply(selected.map((result) => result.path))}
+          >
+            {t('applyOptimization')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function percentOf(part: number, whole: number) {
+  return whole ? Math.round((part / whole) * 100) : 0;
+}
+
+/**
+ * 压缩前后对比：压缩结果叠在原图上，拖动滑块改变分隔位置
+ */
+function CompareView({ before, after }: { before: string; after: string }) {
+  const { t } = useI18n();
+  const [split, setSplit] = useState(50);
+
+  useEffect(() => setSplit(50), [before, after]);
+
+  return (
+    <div className="compare-view">
+      <div className="compare-stage">
+        <img src={before} alt="" />
+        <img className="compare-after" src={after} alt="" style={{ clipPath: `inset(0 0 0 ${split}%)` }} />
+        <div className="compare-divider" style={{ left: `${split}%` }} />
+      </div>
+      <div className="compare-labels">
+        <span>{t('compareBefore')}</span>
+        <input
+          type="range"
+          min="0"
+          max="100"
+          value={split}
+          onChange={(e) => setSplit(Number(e.target.value))}
+        />
+        <span>{t('compareAfter')}</span>
+      </div>
+    </div>
+  );
+}
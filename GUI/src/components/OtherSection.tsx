@@ -2,12 +2,19 @@ import { useState, useEffect } from 'react';
 import { AssetFile } from '../types';
 import { useI18n } from '../contexts/I18nContext';
 import { handleAssetDragStart } from '../utils/dragUtils';
+import MismatchBadge from './MismatchBadge';
+import UnusedBadge from './UnusedBadge';
+import AssetActions from './AssetActions';
 
 interface OtherSectionProps {
   data: Array<{ folder: string; files: AssetFile[] }>;
   searchQuery: string;
   onReveal: (path: string) => void;
   onOpenFile: (path: string) => void;
+  /** 自定义分类的空状态文案，默认使用「其他」分类的文案 */
+  emptyIcon?: string;
+  emptyTitle?: string;
+  emptyHint?: string;
 }
 
 interface FolderGroup {
@@ -20,6 +27,9 @@ export default function OtherSection({
   data,
   searchQuery, 
   onReveal, 
+  emptyIcon,
+  emptyTitle,
+  emptyHint,
 }: OtherSectionProps) {
   const { t } = useI18n();
   const [folders, setFolders] = useState<FolderGroup[]>([]);
@@ -57,9 +67,9 @@ export default function OtherSection({
   if (folders.length === 0) {
     return (
       <div className="empty">
-        <div style={{ fontSize: '32px', marginBottom: '8px' }}>📂</div>
-        <div style={{ fontWeight: 600, marginBottom: '6px' }}>{t('noOthers')}</div>
-        <div className="muted">{t('othersFormats')}</div>
+        <div style={{ fontSize: '32px', marginBottom: '8px' }}>{emptyIcon ?? '📂'}</div>
+        <div style={{ fontWeight: 600, marginBottom: '6px' }}>{emptyTitle ?? t('noOthers')}</div>
+        <div className="muted">{emptyHint ?? t('othersFormats')}</div>
       </div>
     );
   }
@@ -89,6 +99,8 @@ export default function OtherSection({
                   <span>📄</span>
                   <span>{file.name}</span>
                   <span className="badge">{file.ext || 'FILE'}</span>
+                  <MismatchBadge file={file} />
+                  <UnusedBadge file={file} />
                 </div>
                 <div className="other-meta">📦 {file.size}</div>
                 <div className="card-actions">
@@ -98,6 +110,7 @@ export default function OtherSection({
                   <button className="btn" onClick={() => onReveal(file.path)}>
                     {t('locateResource')}
                   </button>
+                  <AssetActions file={file} />
                 </div>
               </div>
             ))}
@@ -0,0 +1,39 @@
+import { ScanReport } from '../types';
+import { useI18n } from '../contexts/I18nContext';
+
+interface ScanBannerProps {
+  report: ScanReport;
+  onShowExcluded: () => void;
+}
+
+/**
+ * 扫描提示：文件数达到上限、扫描被取消、有大文件被跳过或有文件被忽略规则排除时显示
+ */
+export default function ScanBanner({ report, onShowExcluded }: ScanBannerProps) {
+  const { t } = useI18n();
+  const messages: string[] = [];
+
+  if (report.truncated) messages.push(t('scanTruncated', report.maxFileCount));
+  if (report.cancelled) messages.push(t('scanCancelled'));
+  if (report.skippedLarge > 0) {
+    messages.push(t('scanSkippedLarge', report.skippedLarge, report.maxFileSize));
+  }
+
+  if (!messages.length && !report.ignored) return null;
+
+  return (
+    <div className="scan-banner" role="status">
+      {messages.map(message => (
+        <p key={message}>{message}</p>
+      ))}
+      {report.ignored > 0 && (
+        <p>
+          {t('scanIgnored', report.ignored)}{' '}
+          <button className="btn secondary tiny" onClick={onShowExcluded}>
+            {t('viewExcluded')}
+          </button>
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,20 @@
 import { useState, useEffect, useRef } from 'react';
 import { useI18n } from '../contexts/I18nContext';
+import { SortKey } from '../types';
+
+const SORT_OPTIONS = [
+  { key: 'name', label: 'sortByName' },
+  { key: 'size-asc', label: 'sortBySizeAsc' },
+  { key: 'size-desc', label: 'sortBySizeDesc' },
+  { key: 'dimensions-asc', label: 'sortByDimensionsAsc' },
+  { key: 'dimensions-desc', label: 'sortByDimensionsDesc' },
+] as const satisfies ReadonlyArray<{ key: SortKey; label: string }>;
 
 interface SearchBarProps {
   value: string;
   onChange: (value: string) => void;
-  sortBy: 'name' | 'size-asc' | 'size-desc';
-  onSortChange: (sort: 'name' | 'size-asc' | 'size-desc') => void;
+  sortBy: SortKey;
+  onSortChange: (sort: SortKey) => void;
 }
 
 export default function SearchBar({ value, onChange, sortBy, onSortChange }: SearchBarProps) {
@@ -68,12 +77,8 @@ export default function SearchBar({ value, onChange, sortBy, onSortChange }: Sea
   const toggleSortMenu = () => setShowSortMenu(!showSortMenu);
 
   const getSortLabel = () => {
-    switch (sortBy) {
-      case 'name': return t('sortByName');
-      case 'size-asc': return t('sortBySizeAsc');
-      case 'size-desc': return t('sortBySizeDesc');
-      default: return t('sortLabel');
-    }
+    const option = SORT_OPTIONS.find((o) => o.key === sortBy);
+    return t(option ? option.label : 'sortLabel');
   };
 
   return (
@@ -89,24 +94,15 @@ export default function SearchBar({ value, onChange, sortBy, onSortChange }: Sea
         
         {showSortMenu && (
           <div className="sort-menu">
-            <div 
-              className={`sort-item ${sortBy === 'name' ? 'active' : ''}`} 
-              onClick={() => { onSortChange('name'); setShowSortMenu(false); }}
-            >
-              {t('sortByName')}
-            </div>
-            <div 
-              className={`sort-item ${sortBy === 'size-asc' ? 'active' : ''}`} 
-              onClick={() => { onSortChange('size-asc'); setShowSortMenu(false); }}
-            >
-              {t('sortBySizeAsc')}
-            </div>
-            <div 
-              className={`sort-item ${sortBy === 'size-desc' ? 'active' : ''}`} 
-              onClick={() => { onSortChange('size-desc'); setShowSortMenu(false); }}
-            >
-              {t('sortBySizeDesc')}
-            </div>
+            {SORT_OPTIONS.map(({ key, label }) => (
+              <div
+                key={key}
+                className={`sort-item ${sortBy === key ? 'active' : ''}`}
+                onClick={() => { onSortChange(key); setShowSortMenu(false); }}
+              >
+                {t(label)}
+              </div>
+            ))}
           </div>
         )}
       </div>
@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { SvgInspection, SvgWarningKind } from '../types';
+import { useI18n } from '../contexts/I18nContext';
+import { formatSize } from '../utils/assetData';
+
+interface SvgPanelProps {
+  /** null 表示仍在读取 */
+  inspection: SvgInspection | null;
+  onOptimize: () => void;
+}
+
+const WARNINGS = {
+  raster: { icon: '🖼️', label: 'svgWarningRaster' },
+  script: { icon: '⚠️', label: 'svgWarningScript' },
+  external: { icon: '🔗', label: 'svgWarningExternal' },
+} as const satisfies Record<SvgWarningKind, { icon: string; label: string }>;
+
+/**
+ * 图片预览中的 SVG 面板：显示格式化后的源码与 svgo 优化结果，
+ * 列出内嵌位图、脚本与外部引用，并可一键优化
+ */
+export default function SvgPanel({ inspection, onOptimize }: SvgPanelProps) {
+  const { t } = useI18n();
+  const [showOptimized, setShowOptimized] = useState(false);
+  const canOptimize =
+    !!inspection && !inspection.error && inspection.optimizedSize < inspection.size;
+  const saved = inspection ? inspection.size - inspection.optimizedSize : 0;
+
+  return (
+    <div className="metadata-panel svg-panel" onClick={(e) => e.stopPropagation()}>
+      <div className="metadata-header">
+        <span className="metadata-title">{t('svgSource')}</span>
+        {canOptimize && (
+          <button className="btn small" onClick={onOptimize} title={t('optimizeSvgTitle')}>
+            {t('optimize')}
+          </button>
+        )}
+      </div>
+      {!inspection && <div className="muted">{t('loadingSvg')}</div>}
+      {inspection?.error && (
+        <div className="metadata-warning">{t('svgParseError', inspection.error)}</div>
+      )}
+      {inspection && !inspection.error && (
+        <div className="svg-size-diff">
+          {canOptimize
+            ? t(
+                'svgSizeDiff',
+                formatSize(inspection.size),
+                formatSize(inspection.optimizedSize),
+                Math.round((saved / inspection.size) * 100),
+              )
+            : t('alreadyOptimized', formatSize(inspection.size))}
+        </div>
+      )}
+      {inspection && inspection.warnings.length > 0 && (
+        <ul className="svg-warnings">
+          {inspection.warnings.map((warning, index) => (
+            <li key={index} className={`svg-warning ${warning.kind}`} title={warning.detail}>
+              {WARNINGS[warning.kind].icon} {t(WARNINGS[warning.kind].label)}
+              <code>{warning.detail}</code>
+            </li>
+          ))}
+        </ul>
+      )}
+      {inspection && (
+        <>
+          {!inspection.error && (
+            <div className="svg-source-tabs">
+              <button
+                className={`btn small ${showOptimized ? 'secondary' : ''}`}
+                onClick={() => setShowOptimized(false)}
+              >
+                {t('svgOriginal')}
+              </button>
+              <button
+                className={`btn small ${showOptimized ? '' : 'secondary'}`}
+                onClick={() => setShowOptimized(true)}
+              >
+                {t('svgOptimized')}
+              </button>
+            </div>
+          )}
+          <pre className="svg-source">
+            <code>{showOptimized ? inspection.optimizedSource : inspection.source}</code>
+          </pre>
+          {inspection.truncated && <div className="muted">{t('svgTruncated')}</div>}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,33 +1,42 @@
-import { Stats } from '../types';
+import { AssetCategory, BuiltinCategory, CategoryInfo, Stats } from '../types';
 import { useI18n } from '../contexts/I18nContext';
 
 interface TabBarProps {
-  activeTab: 'images' | 'media' | 'fonts' | 'office' | 'others';
-  onTabChange: (tab: 'images' | 'media' | 'fonts' | 'office' | 'others') => void;
+  categories: CategoryInfo[];
+  activeTab: AssetCategory;
+  onTabChange: (tab: AssetCategory) => void;
   stats: Stats;
 }
 
-export default function TabBar({ activeTab, onTabChange, stats }: TabBarProps) {
+const BUILTIN_LABELS = {
+  images: 'tabImages',
+  media: 'tabMedia',
+  fonts: 'tabFonts',
+  office: 'tabOffice',
+  others: 'tabOthers',
+} as const satisfies Record<BuiltinCategory, string>;
+
+export default function TabBar({ categories, activeTab, onTabChange, stats }: TabBarProps) {
   const { t } = useI18n();
-  const tabs = [
-    { id: 'images' as const, labelKey: 'tabImages' as const },
-    { id: 'media' as const, labelKey: 'tabMedia' as const },
-    { id: 'fonts' as const, labelKey: 'tabFonts' as const },
-    { id: 'office' as const, labelKey: 'tabOffice' as const },
-    { id: 'others' as const, labelKey: 'tabOthers' as const },
-  ];
+
+  // 优先使用配置中的名称，内置分类未配置时按语言翻译
+  const labelOf = (category: CategoryInfo) =>
+    category.label ??
+    (category.id in BUILTIN_LABELS
+      ? t(BUILTIN_LABELS[category.id as BuiltinCategory])
+      : category.id);
 
   return (
     <div className="tabbar">
-      {tabs.map(tab => (
+      {categories.map(category => (
         <button
-          key={tab.id}
-          className={`tab ${activeTab === tab.id ? 'active' : ''}`}
-          onClick={() => onTabChange(tab.id)}
+          key={category.id}
+          className={`tab ${activeTab === category.id ? 'active' : ''}`}
+          onClick={() => onTabChange(category.id)}
         >
-          {t(tab.labelKey)} {stats?.[tab.id as keyof Stats] || 0}
+          {category.icon ? `${category.icon} ` : ''}{labelOf(category)} {stats?.[category.id] || 0}
         </button>
       ))}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,18 @@
+import { AssetFile } from '../types';
+import { useI18n } from '../contexts/I18nContext';
+import { useUsage } from '../contexts/UsageContext';
+
+/**
+ * 资源未被任何源码引用时显示
+ */
+export default function UnusedBadge({ file }: { file: AssetFile }) {
+  const { t } = useI18n();
+  const { enabled, unused } = useUsage();
+  if (!enabled || !unused.has(file.path)) return null;
+
+  return (
+    <span className="badge unused" title={t('unusedTitle')}>
+      {t('unused')}
+    </span>
+  );
+}
@@ -0,0 +1,65 @@
+import { useMemo } from 'react';
+import { AssetFile, UsageLocation } from '../types';
+import { useI18n } from '../contexts/I18nContext';
+
+interface UsagesModalProps {
+  file: AssetFile;
+  /** 引用位置，扩展端查找完成前为 null */
+  usages: UsageLocation[] | null;
+  onClose: () => void;
+  onOpenLocation: (usage: UsageLocation) => void;
+}
+
+/**
+ * 资源在源码中的引用位置，按引用文件分组，点击跳转到对应行
+ */
+export default function UsagesModal({ file, usages, onClose, onOpenLocation }: UsagesModalProps) {
+  const { t } = useI18n();
+
+  const groups = useMemo(() => {
+    const map = new Map<string, UsageLocation[]>();
+    for (const usage of usages ?? []) {
+      if (!map.has(usage.relativePath)) map.set(usage.relativePath, []);
+      map.get(usage.relativePath)!.push(usage);
+    }
+    return Array.from(map.entries()).map(([relativePath, list]) => ({ relativePath, usages: list }));
+  }, [usages]);
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content wide" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h3>{t('usagesOf', file.name, usages?.length ?? 0)}</h3>
+          <button className="close-btn" onClick={onClose}>✕</button>
+        </div>
+        <div className="modal-body">
+          {usages === null && <div className="empty">{t('searchingUsages')}</div>}
+          {usages?.length === 0 && <div className="empty">{t('noUsages')}</div>}
+          {groups.map(group => (
+            <div key={group.relativePath} className="modal-folder-group">
+              <div className="modal-folder-title">📄 {group.relativePath}</div>
+              <div className="duplicate-list">
+                {group.usages.map(usage => (
+                  <div
+                    key={`${usage.line}:${usage.character}`}
+                    className="duplicate-item small usage-item"
+                    onClick={() => onOpenLocation(usage)}
+                    title={t('openLocation')}
+                  >
+                    <span className="usage-line">{usage.line + 1}</span>
+                    <code className="usage-snippet">{usage.snippet}</code>
+                    {!usage.exact && (
+                      <span className="badge" title={t('usageByNameTitle')}>
+                        {t('usageByName')}
+                      </span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
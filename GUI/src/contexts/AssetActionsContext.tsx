@@ -0,0 +1,22 @@
+import { createContext, useContext, ReactNode } from 'react';
+import { AssetFile } from '../types';
+
+/** 资源卡片上的通用操作，由 App 统一与扩展端通信 */
+export interface AssetActions {
+  findUsages: (file: AssetFile) => void;
+  /** 重命名/移动由扩展端弹出输入框，并同步改写引用 */
+  rename: (file: AssetFile) => void;
+  move: (file: AssetFile) => void;
+}
+
+const AssetActionsContext = createContext<AssetActions | null>(null);
+
+export function AssetActionsProvider({ actions, children }: { actions: AssetActions; children: ReactNode }) {
+  return <AssetActionsContext.Provider value={actions}>{children}</AssetActionsContext.Provider>;
+}
+
+export function useAssetActions() {
+  const ctx = useContext(AssetActionsContext);
+  if (!ctx) throw new Error('useAssetActions must be used within AssetActionsProvider');
+  return ctx;
+}
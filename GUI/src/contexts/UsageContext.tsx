@@ -0,0 +1,23 @@
+import { createContext, useContext, ReactNode } from 'react';
+
+interface UsageContextType {
+  /** 引用分析已完成且 assetManage.detectUnused 开启 */
+  enabled: boolean;
+  unused: Set<string>;
+}
+
+const EMPTY_USAGE: UsageContextType = { enabled: false, unused: new Set() };
+
+const UsageContext = createContext<UsageContextType>(EMPTY_USAGE);
+
+/**
+ * 向各分类的卡片提供未使用资源集合，避免逐层传递
+ */
+export function UsageProvider({ unused, children }: { unused: Set<string> | null; children: ReactNode }) {
+  const value = unused ? { enabled: true, unused } : EMPTY_USAGE;
+  return <UsageContext.Provider value={value}>{children}</UsageContext.Provider>;
+}
+
+export function useUsage() {
+  return useContext(UsageContext);
+}
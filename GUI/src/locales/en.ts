@@ -4,6 +4,52 @@ export const en = {
   refresh: '🔄 Refresh',
   refreshing: '⏳ Refreshing',
   language: 'Language',
+  workspaceRoot: 'Workspace folder',
+  allRoots: 'All folders',
+  scanning: (done: number, total: number) => `Scanning ${done}/${total}`,
+  stopScan: 'Stop',
+  stopScanTitle: 'Stop scanning and keep the files found so far',
+
+  // ScanBanner
+  scanTruncated: (max: number) => `Scan truncated: only the first ${max} files were indexed. Raise assetManage.maxFileCount or narrow assetManage.scanInclude.`,
+  scanCancelled: 'Scan stopped: the list may be incomplete. Click Refresh to scan again.',
+  scanSkippedLarge: (n: number, mb: number) => `${n} file(s) larger than ${mb} MB were listed without hashing or parsing.`,
+  scanIgnored: (n: number) => `${n} file(s) excluded by .gitignore / .assetignore.`,
+  viewExcluded: 'Show why',
+
+  // ExcludedModal
+  excludedFiles: (n: number) => `Excluded files (${n})`,
+  excludedBy: (line: number, pattern: string) => `line ${line}: ${pattern}`,
+  noExcludedFiles: 'No files are excluded',
+
+  // FilterBar
+  filterMismatch: (n: number) => `⚠️ Extension mismatch (${n})`,
+  filterMismatchTitle: 'Only show files whose content does not match their extension',
+  extMismatch: 'Mismatch',
+  extMismatchTitle: (ext: string, actual: string) => `Extension is ${ext} but the content is ${actual}`,
+  filterUnused: (n: number) => `🗑️ Unused only (${n})`,
+  filterUnusedTitle: 'Only show assets that are not referenced by any source file',
+  filterPrivacy: (n: number) => `📍 Private metadata (${n})`,
+  filterPrivacyTitle: 'Only show images whose metadata contains GPS location or personal information',
+  privacyGps: 'GPS',
+  privacyPersonal: 'Personal',
+  privacyBadgeTitle: 'Metadata contains GPS location or personal information',
+  unused: 'Unused',
+  unusedTitle: 'Not referenced by any source file (path, file name or import)',
+  reclaimable: (n: number, size: string) => `🗑️ ${n} unused · ${size} reclaimable`,
+  reclaimableTitle: 'Total size of assets that no source file references',
+  findUsages: '🔍 Usages',
+  findUsagesTitle: 'Find where this asset is referenced in source files',
+  usagesOf: (name: string, n: number) => `References to ${name} (${n})`,
+  searchingUsages: 'Searching references…',
+  noUsages: 'No source file references this asset',
+  openLocation: 'Open at this location',
+  usageByName: 'By name',
+  usageByNameTitle: 'The path could not be resolved; matched by file name only',
+  renameAsset: '✏️ Rename',
+  renameAssetTitle: 'Rename this asset and update every reference to it',
+  moveAsset: '📂 Move',
+  moveAssetTitle: 'Move this asset and update every reference to it',
 
   // TabBar
   tabImages: 'Images',
@@ -16,6 +62,8 @@ export const en = {
   sortByName: 'Sort by name',
   sortBySizeAsc: 'Size: small → large',
   sortBySizeDesc: 'Size: large → small',
+  sortByDimensionsAsc: 'Dimensions: small → large',
+  sortByDimensionsDesc: 'Dimensions: large → small',
   sortLabel: 'Sort',
   searchPlaceholder: 'Search by filename or path...',
   clearSearch: 'Clear search',
@@ -32,10 +80,65 @@ export const en = {
   fileTooLarge: (val: number, unit: string) => `File too large (threshold: ${val}${unit})`,
   duplicateCount: (n: number) => `${n} duplicate(s) found`,
   viewDuplicates: 'View duplicates',
+  similar: 'Similar',
+  similarCount: (n: number, best: number) => `${n} similar image(s), up to ${best}% alike`,
   imagesCount: (n: number) => `${n} item(s)`,
   background: 'Background:',
   backgroundBrightness: 'bg-brightness:',
   close: 'Close',
+  bitDepth: (n: number) => `${n}-bit`,
+  alphaChannel: 'Alpha',
+  frameCount: (n: number) => `${n} frames`,
+  metadata: 'Metadata',
+  loadingMetadata: 'Reading metadata...',
+  noMetadata: 'No EXIF, IPTC or XMP metadata',
+  privacyWarning: (kinds: string) => `Contains private metadata: ${kinds}`,
+  stripMetadata: 'Strip metadata',
+  stripMetadataTitle: 'Remove EXIF/IPTC/XMP in place without re-encoding (a backup is kept)',
+  stripMetadataUnsupported: 'Metadata can only be stripped from JPEG, PNG and WebP; this format would need re-encoding',
+
+  // Optimize
+  optimize: 'Optimize',
+  optimizeTitle: 'Recompress this image and preview the result before overwriting (a backup is kept)',
+  optimizeLarge: (n: number) => `🗜️ Optimize large images (${n})`,
+  optimizeLargeTitle: 'Recompress all images above the large file threshold in the current view',
+  optimizeImages: (done: number, total: number) => `Optimize images (${done}/${total})`,
+  optimizing: 'Compressing...',
+  alreadyOptimized: (size: string) => `${size} · already optimized`,
+  optimizeFailed: (msg: string) => `Failed: ${msg}`,
+  optimizeTotal: (n: number, saved: string, percent: number) => `${n} selected · saves ${saved} (${percent}%)`,
+  applyOptimization: 'Apply',
+  compareBefore: 'Before',
+  compareAfter: 'After',
+  cancel: 'Cancel',
+
+  // Convert
+  convert: 'Convert',
+  convertTitle: 'Convert to WebP or AVIF next to the original',
+  convertFolderTitle: 'Convert the PNG/JPEG images in this folder to WebP or AVIF',
+
+  // Variants
+  generateVariants: 'Variants',
+  generateVariantsTitle: 'Generate @1x/@2x/@3x or srcset width variants and copy an <img srcset> snippet',
+  svgComponents: 'Component',
+  svgComponentsTitle: 'Generate a typed React or Vue icon component from this SVG',
+  svgComponentsFolderTitle: 'Generate React or Vue icon components from the SVGs in this folder',
+
+  // SVG panel
+  svgSource: 'Source',
+  loadingSvg: 'Reading SVG...',
+  svgParseError: (msg: string) => `Unable to parse SVG: ${msg}`,
+  svgSizeDiff: (before: string, after: string, percent: number) => `Optimized: ${before} → ${after} (-${percent}%)`,
+  svgOriginal: 'Original',
+  svgOptimized: 'Optimized',
+  svgTruncated: 'The source is too large, only the beginning is shown',
+  optimizeSvgTitle: 'Remove editor metadata, collapse groups and minify paths, keeping viewBox (a backup is kept)',
+  svgWarningRaster: 'Embedded raster image',
+  svgWarningScript: 'Script',
+  svgWarningExternal: 'External reference',
+
+  // Pagination (shared)
+  loadMore: (loaded: number, total: number) => `Load more (${loaded}/${total})`,
 
   // MediaSection
   noMedia: 'No media found',
@@ -65,12 +168,15 @@ export const en = {
 
   // OtherSection
   noOthers: 'No other assets',
+  noCategoryFiles: (label: string) => `No ${label} files found`,
   othersFormats: 'Supports txt/json/yaml/psd/ai/zip etc.',
 
   // Duplicate modal
   duplicateImages: 'Duplicate images',
   currentImage: 'Current image',
   duplicateList: (n: number) => `Duplicates (${n})`,
+  similarList: (n: number) => `Similar images (${n})`,
+  similarityTitle: 'Similarity based on a perceptual hash; resized or re-exported copies score high',
   locate: 'Reveal',
 
   // DocumentPreview
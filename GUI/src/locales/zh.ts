@@ -4,6 +4,52 @@ export const zh = {
   refresh: '🔄 刷新',
   refreshing: '⏳ 刷新中',
   language: '语言',
+  workspaceRoot: '工作区文件夹',
+  allRoots: '全部文件夹',
+  scanning: (done: number, total: number) => `扫描中 ${done}/${total}`,
+  stopScan: '停止',
+  stopScanTitle: '停止扫描并保留已扫描到的文件',
+
+  // ScanBanner
+  scanTruncated: (max: number) => `扫描已截断：仅索引了前 ${max} 个文件，可调大 assetManage.maxFileCount 或缩小 assetManage.scanInclude 范围。`,
+  scanCancelled: '扫描已停止：列表可能不完整，点击刷新重新扫描。',
+  scanSkippedLarge: (n: number, mb: number) => `${n} 个文件超过 ${mb} MB，仅列出未计算哈希与解析内容。`,
+  scanIgnored: (n: number) => `${n} 个文件被 .gitignore / .assetignore 排除。`,
+  viewExcluded: '查看原因',
+
+  // ExcludedModal
+  excludedFiles: (n: number) => `已排除的文件（${n}）`,
+  excludedBy: (line: number, pattern: string) => `第 ${line} 行：${pattern}`,
+  noExcludedFiles: '没有被排除的文件',
+
+  // FilterBar
+  filterMismatch: (n: number) => `⚠️ 扩展名不符（${n}）`,
+  filterMismatchTitle: '只显示内容与扩展名不一致的文件',
+  extMismatch: '格式不符',
+  extMismatchTitle: (ext: string, actual: string) => `扩展名为 ${ext}，实际内容为 ${actual}`,
+  filterUnused: (n: number) => `🗑️ 仅未使用（${n}）`,
+  filterUnusedTitle: '只显示未被任何源码文件引用的资源',
+  filterPrivacy: (n: number) => `📍 隐私元数据（${n}）`,
+  filterPrivacyTitle: '只显示元数据中含 GPS 位置或个人信息的图片',
+  privacyGps: 'GPS',
+  privacyPersonal: '个人信息',
+  privacyBadgeTitle: '元数据中含 GPS 位置或个人信息',
+  unused: '未使用',
+  unusedTitle: '没有任何源码文件通过路径、文件名或 import 引用该资源',
+  reclaimable: (n: number, size: string) => `🗑️ ${n} 个未使用 · 可回收 ${size}`,
+  reclaimableTitle: '未被任何源码文件引用的资源总大小',
+  findUsages: '🔍 查找引用',
+  findUsagesTitle: '查找源码中引用该资源的位置',
+  usagesOf: (name: string, n: number) => `${name} 的引用（${n}）`,
+  searchingUsages: '正在查找引用…',
+  noUsages: '没有源码文件引用该资源',
+  openLocation: '跳转到该位置',
+  usageByName: '按文件名',
+  usageByNameTitle: '路径无法解析，仅按文件名匹配',
+  renameAsset: '✏️ 重命名',
+  renameAssetTitle: '重命名该资源，并同步更新所有引用',
+  moveAsset: '📂 移动',
+  moveAssetTitle: '移动该资源，并同步更新所有引用',
 
   // TabBar
   tabImages: '图片',
@@ -16,6 +62,8 @@ export const zh = {
   sortByName: '按名字排序',
   sortBySizeAsc: '体积 小-大',
   sortBySizeDesc: '体积 大-小',
+  sortByDimensionsAsc: '尺寸 小-大',
+  sortByDimensionsDesc: '尺寸 大-小',
   sortLabel: '排序方式',
   searchPlaceholder: '搜索文件路径或文件名...',
   clearSearch: '清除搜索',
@@ -32,10 +80,65 @@ export const zh = {
   fileTooLarge: (val: number, unit: string) => `文件过大 (阈值: ${val}${unit})`,
   duplicateCount: (n: number) => `发现 ${n} 个重复项`,
   viewDuplicates: '查看重复',
+  similar: '近似',
+  similarCount: (n: number, best: number) => `${n} 张近似图片，最高相似度 ${best}%`,
   imagesCount: (n: number) => `${n} 张`,
   background: '背景：',
   backgroundBrightness: '背景亮度：',
   close: '关闭',
+  bitDepth: (n: number) => `${n} 位`,
+  alphaChannel: '透明通道',
+  frameCount: (n: number) => `${n} 帧`,
+  metadata: '元数据',
+  loadingMetadata: '正在读取元数据...',
+  noMetadata: '没有 EXIF、IPTC 或 XMP 元数据',
+  privacyWarning: (kinds: string) => `包含隐私元数据：${kinds}`,
+  stripMetadata: '去除元数据',
+  stripMetadataTitle: '原地去除 EXIF/IPTC/XMP，不重新编码（会保留备份）',
+  stripMetadataUnsupported: '仅支持去除 JPEG、PNG、WebP 的元数据，该格式需要重新编码才能去除',
+
+  // 压缩
+  optimize: '压缩',
+  optimizeTitle: '重新压缩这张图片，覆盖前先预览效果（会保留备份）',
+  optimizeLarge: (n: number) => `🗜️ 压缩大图 (${n})`,
+  optimizeLargeTitle: '重新压缩当前视图中所有超过大文件阈值的图片',
+  optimizeImages: (done: number, total: number) => `压缩图片 (${done}/${total})`,
+  optimizing: '正在压缩...',
+  alreadyOptimized: (size: string) => `${size} · 已无法进一步压缩`,
+  optimizeFailed: (msg: string) => `失败：${msg}`,
+  optimizeTotal: (n: number, saved: string, percent: number) => `已选 ${n} 张 · 节省 ${saved}（${percent}%）`,
+  applyOptimization: '应用',
+  compareBefore: '压缩前',
+  compareAfter: '压缩后',
+  cancel: '取消',
+
+  // 转换
+  convert: '转换',
+  convertTitle: '转换为 WebP 或 AVIF，写在原文件旁',
+  convertFolderTitle: '将此文件夹中的 PNG/JPEG 图片转换为 WebP 或 AVIF',
+
+  // 尺寸变体
+  generateVariants: '变体',
+  generateVariantsTitle: '生成 @1x/@2x/@3x 或 srcset 宽度变体，并复制 <img srcset> 片段',
+  svgComponents: '组件',
+  svgComponentsTitle: '从此 SVG 生成带类型的 React 或 Vue 图标组件',
+  svgComponentsFolderTitle: '从此文件夹中的 SVG 生成 React 或 Vue 图标组件',
+
+  // SVG 面板
+  svgSource: '源码',
+  loadingSvg: '正在读取 SVG...',
+  svgParseError: (msg: string) => `无法解析 SVG：${msg}`,
+  svgSizeDiff: (before: string, after: string, percent: number) => `优化后：${before} → ${after}（-${percent}%）`,
+  svgOriginal: '原始',
+  svgOptimized: '优化后',
+  svgTruncated: '源码过大，只显示开头部分',
+  optimizeSvgTitle: '去除编辑器元数据、合并分组并压缩路径，保留 viewBox（会保留备份）',
+  svgWarningRaster: '内嵌位图',
+  svgWarningScript: '脚本',
+  svgWarningExternal: '外部引用',
+
+  // Pagination (shared)
+  loadMore: (loaded: number, total: number) => `加载更多（${loaded}/${total}）`,
 
   // MediaSection
   noMedia: '暂无音视频',
@@ -65,12 +168,15 @@ export const zh = {
 
   // OtherSection
   noOthers: '暂无其他静态资源',
+  noCategoryFiles: (label: string) => `暂无${label}文件`,
   othersFormats: '支持 txt/json/yaml/psd/ai/zip 等常见格式',
 
   // Duplicate modal
   duplicateImages: '内容重复的图片',
   currentImage: '当前图片',
   duplicateList: (n: number) => `重复的图片 (${n})`,
+  similarList: (n: number) => `近似图片（${n}）`,
+  similarityTitle: '基于感知哈希的相似度，缩放或重新导出的副本相似度较高',
   locate: '定位',
 
   // DocumentPreview
@@ -15,11 +15,160 @@ declare global {
 export type MessageToExtension =
   | { type: 'refresh' }
   | { type: 'reveal'; path: string }
-  | { type: 'openFile'; path: string };
+  | { type: 'openFile'; path: string }
+  | { type: 'loadMore'; category: AssetCategory; all?: boolean }
+  | { type: 'cancelScan' }
+  | { type: 'getExcluded' }
+  | { type: 'findUsages'; path: string }
+  | { type: 'renameAsset'; path: string }
+  | { type: 'moveAsset'; path: string }
+  | { type: 'getMetadata'; path: string }
+  | { type: 'stripMetadata'; path: string }
+  | { type: 'convertImages'; paths: string[] }
+  | { type: 'generateVariants'; path: string }
+  | { type: 'inspectSvg'; path: string }
+  | { type: 'optimizeSvg'; path: string }
+  | { type: 'generateSvgComponents'; paths: string[] }
+  | { type: 'optimizeImages'; paths: string[] }
+  | { type: 'applyOptimization'; paths: string[] }
+  | { type: 'discardOptimization' }
+  | { type: 'openLocation'; path: string; line: number; character: number };
 
 export type MessageFromExtension =
   | { type: 'refreshDone' }
-  | { type: 'previewFont'; fileName: string };
+  | { type: 'previewFont'; fileName: string }
+  | { type: 'assetReset'; roots: WorkspaceRoot[]; categories: CategoryInfo[] }
+  | { type: 'assetDelta'; upserted: AssetDeltaItem[]; removed: string[] }
+  | { type: 'assetSummary' } & AssetSummary
+  | { type: 'scanProgress' } & ScanProgress
+  | { type: 'excludedFiles'; files: ExcludedFile[] }
+  | { type: 'assetUsage' } & AssetUsage
+  | { type: 'assetUsages'; path: string; usages: UsageLocation[] }
+  | { type: 'revealAsset'; path: string; category: AssetCategory }
+  | { type: 'imageMetadata'; path: string; metadata: ImageMetadata }
+  | { type: 'svgInspection'; path: string; inspection: SvgInspection }
+  | { type: 'optimizeResult'; result: OptimizeResult }
+  | { type: 'optimizeDone' };
+
+// 内置资源分类，各自有专门的展示组件
+export type BuiltinCategory = 'images' | 'media' | 'fonts' | 'office' | 'others';
+
+// 资源分类（与 TabBar 一一对应），可包含 assetManage.categories 中的自定义分类
+export type AssetCategory = BuiltinCategory | (string & {});
+
+// 扩展端分类注册表中的单个分类，顺序即 TabBar 顺序
+export interface CategoryInfo {
+  id: AssetCategory;
+  /** 自定义分类的显示名称，内置分类按语言翻译 */
+  label?: string;
+  icon?: string;
+  builtin: boolean;
+  extensions: string[];
+}
+
+export interface FolderData<T = AssetFile> {
+  folder: string;
+  /** 所属工作区文件夹名称 */
+  root?: string;
+  files: T[];
+}
+
+export interface WorkspaceRoot {
+  name: string;
+  path: string;
+}
+
+export interface AssetData {
+  roots?: WorkspaceRoot[];
+  categories: CategoryInfo[];
+  groups: AssetGroups;
+}
+
+/** 分类 id → 按目录分组的文件，内置分类使用各自的文件类型 */
+export type AssetGroups = Record<AssetCategory, FolderData[]> & {
+  images: FolderData<ImageFile>[];
+  media: FolderData<MediaFile>[];
+  fonts: FolderData<FontFile>[];
+  office: FolderData<OfficeFile>[];
+};
+
+// 扩展端基于完整索引计算的汇总信息（前端只持有已加载的分页）
+export interface AssetSummary {
+  counts: Record<string, Record<AssetCategory | 'folders', number>>;
+  duplicateHashes: Record<string, number>;
+  /** 扩展名与实际格式不一致的文件数 */
+  mismatched: number;
+  /** 含 GPS 或个人信息元数据的图片数 */
+  privateMetadata: number;
+  /** 按感知哈希找到的近似图片：路径 → 相似图片（不含内容完全相同的重复文件） */
+  similarImages: Record<string, SimilarImage[]>;
+  /** 最近一次全量扫描的预算使用情况 */
+  scan?: ScanReport;
+}
+
+export interface SimilarImage {
+  path: string;
+  /** 相似度百分比 */
+  similarity: number;
+}
+
+/** 扫描预算报告，上限为 0 表示不限制 */
+export interface ScanReport {
+  truncated: boolean;
+  maxFileCount: number;
+  skippedLarge: number;
+  maxFileSize: number;
+  cancelled: boolean;
+  /** 被 .gitignore / .assetignore 排除的文件数 */
+  ignored: number;
+}
+
+/** 被忽略规则排除的文件及命中的规则（规则文件相对工作区、行号、原始模式） */
+export interface ExcludedFile {
+  path: string;
+  root: string;
+  relativePath: string;
+  reason: {
+    source: string;
+    line: number;
+    pattern: string;
+  };
+}
+
+/** 源码引用分析结果：未被引用的资源路径与各工作区文件夹可回收的体积 */
+export interface AssetUsage {
+  /** assetManage.detectUnused 关闭时为 false，其余字段为空 */
+  enabled: boolean;
+  unused?: string[];
+  reclaimable?: Record<string, { count: number; bytes: number }>;
+}
+
+/** 资源在源码中的一处引用，line/character 从 0 开始 */
+export interface UsageLocation {
+  file: string;
+  relativePath: string;
+  line: number;
+  character: number;
+  kind: 'import' | 'url' | 'attribute' | 'markdown' | 'string';
+  /** false 表示路径无法解析，仅按文件名匹配 */
+  exact: boolean;
+  /** 引用所在行的内容 */
+  snippet: string;
+}
+
+export interface ScanProgress {
+  processed: number;
+  total: number;
+  done: boolean;
+}
+
+// 扩展端推送的增量条目
+export interface AssetDeltaItem {
+  category: AssetCategory;
+  root: string;
+  folder: string;
+  file: AssetFile;
+}
 
 // 资源类型定义
 export interface AssetFile {
@@ -32,6 +181,20 @@ export interface AssetFile {
   folder?: string;
   sizeBytes?: number;
   hash?: string;
+  /** 按文件头识别出的实际格式 */
+  sniffedType?: string;
+  /** 扩展名与实际格式不一致 */
+  extMismatch?: boolean;
+}
+
+// 作用于所有分类的筛选条件
+export interface AssetFilters {
+  /** 只显示扩展名与实际格式不一致的文件 */
+  mismatch: boolean;
+  /** 只显示未被源码引用的文件 */
+  unused: boolean;
+  /** 只显示含 GPS 或个人信息元数据的图片 */
+  privacy: boolean;
 }
 
 export interface FontFile extends AssetFile {
@@ -41,10 +204,82 @@ export interface FontFile extends AssetFile {
   previewCharset: string;
 }
 
+// 从图片文件头解析的信息，无法确定的字段为空
+export interface ImageInfo {
+  width: number;
+  height: number;
+  bitDepth?: number;
+  hasAlpha?: boolean;
+  colorSpace?: string;
+  frames?: number;
+  viewBox?: string;
+}
+
 export interface ImageFile extends AssetFile {
   uri: string;
+  image?: ImageInfo;
+  /** 元数据中包含的隐私信息类型 */
+  privacy?: PrivacyKind[];
+}
+
+// gps：位置信息；personal：作者、联系方式、设备序列号等个人信息
+export type PrivacyKind = 'gps' | 'personal';
+
+export interface MetadataField {
+  name: string;
+  value: string;
+  privacy?: PrivacyKind;
+}
+
+// 按来源分组的元数据：EXIF、GPS、IPTC、XMP、Text
+export interface MetadataGroup {
+  name: string;
+  fields: MetadataField[];
+}
+
+export interface ImageMetadata {
+  groups: MetadataGroup[];
+  privacy: PrivacyKind[];
+}
+
+// raster：内嵌位图；script：脚本或事件属性；external：引用外部文件或网址
+export type SvgWarningKind = 'raster' | 'script' | 'external';
+
+export interface SvgWarning {
+  kind: SvgWarningKind;
+  detail: string;
+}
+
+// SVG 源码检查结果，optimizedSource 为格式化后的优化结果
+export interface SvgInspection {
+  source: string;
+  optimizedSource: string;
+  size: number;
+  optimizedSize: number;
+  warnings: SvgWarning[];
+  truncated: boolean;
+  error?: string;
 }
 
+// 单张图片的压缩预览结果，optimizedSize 为空表示无法进一步压缩
+export interface OptimizeResult {
+  path: string;
+  name: string;
+  originalSize: number;
+  optimizedSize?: number;
+  originalUri: string;
+  previewUri?: string;
+  error?: string;
+}
+
+// 图片的排序方式，按尺寸排序时比较像素总数
+export type SortKey =
+  | 'name'
+  | 'size-asc'
+  | 'size-desc'
+  | 'dimensions-asc'
+  | 'dimensions-desc';
+
 export interface MediaFile extends AssetFile {
   uri: string;
   kind: 'audio' | 'video';
@@ -55,12 +290,5 @@ export interface OfficeFile extends AssetFile {
   fileType: 'word' | 'excel' | 'powerpoint' | 'pdf';
 }
 
-export interface Stats {
-  images: number;
-  media: number;
-  fonts: number;
-  office: number;
-  others: number;
-  folders: number;
-  total: number;
-}
\ No newline at end of file
+// 各分类文件数量，另含图片目录数与总数
+export type Stats = Record<AssetCategory | 'folders' | 'total', number>;
\ No newline at end of file
@@ -0,0 +1,151 @@
+import { AssetData, AssetDeltaItem, AssetFile, AssetFilters, AssetGroups, AssetSummary, CategoryInfo, ImageFile, Stats, WorkspaceRoot } from '../types';
+
+/** 扩展端推送分类注册表之前（以及字体视图）使用的内置分类 */
+export const DEFAULT_CATEGORIES: CategoryInfo[] = (['images', 'media', 'fonts', 'office', 'others'] as const).map(id => ({
+  id,
+  builtin: true,
+  extensions: [],
+}));
+
+/**
+ * 按分类注册表创建空数据，每个分类对应一个空分组列表
+ */
+export function createAssetData(categories: CategoryInfo[], roots?: WorkspaceRoot[]): AssetData {
+  const groups = {} as AssetGroups;
+  for (const { id } of [...DEFAULT_CATEGORIES, ...categories]) {
+    groups[id] = [];
+  }
+  return { roots, categories, groups };
+}
+
+export const EMPTY_ASSET_DATA: AssetData = createAssetData(DEFAULT_CATEGORIES);
+
+/**
+ * 将扩展端推送的增量变更合并到现有数据：先移除被删除/更新的文件，再按目录插入
+ */
+export function applyAssetDelta(
+  data: AssetData,
+  upserted: AssetDeltaItem[],
+  removed: string[]
+): AssetData {
+  const dropped = new Set([...removed, ...upserted.map(item => item.file.path)]);
+  const groups = {} as AssetGroups;
+
+  for (const [category, list] of Object.entries(data.groups)) {
+    groups[category] = list
+      .map(group => ({ ...group, files: group.files.filter(file => !dropped.has(file.path)) }))
+      .filter(group => group.files.length > 0);
+  }
+
+  for (const item of upserted) {
+    groups[item.category] ??= [];
+    const group = groups[item.category].find(g => g.folder === item.folder);
+    if (group) {
+      group.files.push(item.file);
+    } else {
+      groups[item.category].push({ folder: item.folder, root: item.root, files: [item.file] });
+    }
+  }
+
+  return { ...data, groups };
+}
+
+/**
+ * 只保留指定工作区文件夹下的目录分组，root 为空时返回全部
+ */
+export function filterByRoot(data: AssetData, root: string | null): AssetData {
+  if (!root) return data;
+  const groups = {} as AssetGroups;
+  for (const [category, list] of Object.entries(data.groups)) {
+    groups[category] = list.filter(group => group.root === root);
+  }
+  return { ...data, groups };
+}
+
+export const DEFAULT_FILTERS: AssetFilters = { mismatch: false, unused: false, privacy: false };
+
+export function hasActiveFilter(filters: AssetFilters) {
+  return Object.values(filters).some(Boolean);
+}
+
+/**
+ * 按筛选条件过滤所有分类的文件，并去掉筛选后为空的目录分组；
+ * unused 为未被引用的文件路径，引用分析尚未完成时「仅未使用」不过滤
+ */
+export function applyFilters(data: AssetData, filters: AssetFilters, unused?: Set<string>): AssetData {
+  if (!hasActiveFilter(filters)) return data;
+  const matches = (file: AssetFile) =>
+    (!filters.mismatch || !!file.extMismatch) &&
+    (!filters.unused || !unused || unused.has(file.path)) &&
+    (!filters.privacy || !!(file as ImageFile).privacy?.length);
+  const groups = {} as AssetGroups;
+  for (const [category, list] of Object.entries(data.groups)) {
+    groups[category] = list
+      .map(group => ({ ...group, files: group.files.filter(matches) }))
+      .filter(group => group.files.length > 0);
+  }
+  return { ...data, groups };
+}
+
+function emptyStats(categories: CategoryInfo[]): Stats {
+  const stats = { folders: 0, total: 0 } as Stats;
+  for (const { id } of [...DEFAULT_CATEGORIES, ...categories]) {
+    stats[id] = 0;
+  }
+  return stats;
+}
+
+/**
+ * 统计各分类文件数量
+ */
+export function computeStats(data: AssetData): Stats {
+  const stats = emptyStats(data.categories);
+  for (const [category, list] of Object.entries(data.groups)) {
+    stats[category] = list.reduce((sum, group) => sum + group.files.length, 0);
+    stats.total += stats[category];
+  }
+  stats.folders = data.groups.images?.length || 0;
+  return stats;
+}
+
+/**
+ * 统计每个图片哈希出现的次数，用于重复检测
+ */
+export function computeDuplicateHashes(data: AssetData): Record<string, number> {
+  const hashes: Record<string, number> = {};
+  data.groups.images?.forEach(group => {
+    group.files.forEach(file => {
+      if (file.hash) {
+        hashes[file.hash] = (hashes[file.hash] || 0) + 1;
+      }
+    });
+  });
+  return hashes;
+}
+
+/**
+ * 根据扩展端汇总信息计算统计数量，root 为空时合计全部工作区文件夹
+ */
+export function statsFromSummary(summary: AssetSummary, root: string | null, categories: CategoryInfo[]): Stats {
+  const stats = emptyStats(categories);
+  for (const [name, counts] of Object.entries(summary.counts)) {
+    if (root && name !== root) continue;
+    for (const [key, count] of Object.entries(counts)) {
+      stats[key] = (stats[key] || 0) + (count || 0);
+      if (key !== 'folders') stats.total += count || 0;
+    }
+  }
+  return stats;
+}
+
+/**
+ * 字节数转为易读的大小（与扩展端 toHumanSize 一致）
+ */
+export function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const kb = bytes / 1024;
+  if (kb < 1024) return `${kb.toFixed(1)} KB`;
+  const mb = kb / 1024;
+  if (mb < 1024) return `${mb.toFixed(2)} MB`;
+  return `${(mb / 1024).toFixed(2)} GB`;
+}
@@ -0,0 +1,64 @@
+import * as vscode from "vscode";
+import { pathKey } from "../utils/fsUtils";
+import { AssetEntry, AssetReference } from "../types";
+import { AssetIndex } from "../services/assetIndex";
+import { AssetPathResolver } from "../services/pathResolver";
+import { SOURCE_EXTENSIONS, extractReferences } from "../services/references";
+
+/** 悬停、补全等编辑器功能生效的源码文件 */
+export const SOURCE_SELECTOR: vscode.DocumentSelector = {
+  scheme: "file",
+  pattern: `**/*.{${SOURCE_EXTENSIONS.join(",")}}`,
+};
+
+export interface AssetAtPosition {
+  ref: AssetReference;
+  range: vscode.Range;
+  /** 解析到的索引条目，目标不在索引中时为空 */
+  entry?: AssetEntry;
+}
+
+/**
+ * 查找文档中某个位置上的资源引用，并通过别名/public 目录解析到索引中的资源
+ */
+export async function findAssetAt(
+  document: vscode.TextDocument,
+  position: vscode.Position,
+  assetIndex: AssetIndex,
+  resolver: AssetPathResolver,
+  token?: vscode.CancellationToken,
+): Promise<AssetAtPosition | undefined> {
+  // 只提取当前行附近的文本，避免大文件悬停时全量扫描
+  const line = document.lineAt(position.line);
+  const ref = extractReferences(line.text).find(
+    (r) => r.start <= position.character && position.character <= r.end,
+  );
+  if (!ref) return undefined;
+
+  const range = new vscode.Range(
+    position.line,
+    ref.start,
+    position.line,
+    ref.end,
+  );
+  await resolver.ready();
+  const candidates = resolver
+    .resolve(ref.value, document.uri.fsPath)
+    .map(pathKey);
+  const entries = await assetIndex.getEntries(token);
+  const entry = candidates
+    .map((key) => entries.find((e) => pathKey(e.path) === key))
+    .find(Boolean);
+  const offset = document.offsetAt(line.range.start);
+  return {
+    ref: {
+      ...ref,
+      start: offset + ref.start,
+      end: offset + ref.end,
+      line: position.line,
+      character: ref.start,
+    },
+    range,
+    entry,
+  };
+}
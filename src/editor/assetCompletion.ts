@@ -0,0 +1,126 @@
+import * as vscode from "vscode";
+import { pathKey, toHumanSize } from "../utils/fsUtils";
+import { AssetCategory, AssetEntry } from "../types";
+import { AssetIndex } from "../services/assetIndex";
+import { AssetPathResolver } from "../services/pathResolver";
+import { renderAssetPreview } from "./assetHover";
+
+/** 引号、url(、/ 时触发补全 */
+export const COMPLETION_TRIGGERS = ["/", "'", '"', "`", "("];
+
+/**
+ * 光标所在的路径上下文：CSS url()、HTML src/href/poster 属性或普通字符串，
+ * 最后一个捕获组为光标前已输入的部分
+ */
+const URL_CONTEXT = /\burl\(\s*['"]?([^'"()\s]*)$/i;
+const ATTRIBUTE_CONTEXT = /\b(?:src|href|poster)\s*=\s*["']([^"'\s]*)$/i;
+const STRING_CONTEXT = /(['"`])([^'"`\s]*)$/;
+
+/** 按分类区分补全项图标 */
+const CATEGORY_KIND: Record<string, vscode.CompletionItemKind> = {
+  images: vscode.CompletionItemKind.Color,
+  fonts: vscode.CompletionItemKind.Text,
+  media: vscode.CompletionItemKind.Event,
+  office: vscode.CompletionItemKind.Reference,
+};
+
+class AssetCompletionItem extends vscode.CompletionItem {
+  constructor(
+    label: vscode.CompletionItemLabel,
+    readonly entry: AssetEntry,
+  ) {
+    super(label, CATEGORY_KIND[entry.category] ?? vscode.CompletionItemKind.File);
+  }
+}
+
+/**
+ * 字符串、url() 与 src="" 中的资源路径补全：按当前文件的相对路径或别名写法列出索引中的资源，
+ * @font-face 中只列出字体，其余位置只列出图片
+ */
+export class AssetCompletionProvider implements vscode.CompletionItemProvider<AssetCompletionItem> {
+  constructor(
+    private readonly assetIndex: AssetIndex,
+    private readonly resolver: AssetPathResolver,
+  ) {}
+
+  async provideCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    token: vscode.CancellationToken,
+  ): Promise<AssetCompletionItem[] | undefined> {
+    const enabled = vscode.workspace
+      .getConfiguration("assetManage")
+      .get<boolean>("pathCompletion", true);
+    const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+    if (!enabled || !folder) return undefined;
+
+    const line = document.lineAt(position.line).text;
+    const typed = matchContext(line.slice(0, position.character));
+    if (typed === undefined) return undefined;
+
+    const start = position.character - typed.length;
+    const end = start + (line.slice(start).match(/^[^'"`()\s]*/)?.[0].length ?? 0);
+    const range = {
+      inserting: new vscode.Range(position.line, start, position.line, position.character),
+      replacing: new vscode.Range(position.line, start, position.line, end),
+    };
+
+    const category: AssetCategory = insideFontFace(document, position) ? "fonts" : "images";
+    const entries = await this.assetIndex.getEntries(token);
+    await this.resolver.ready();
+    if (token.isCancellationRequested) return undefined;
+
+    const self = pathKey(document.uri.fsPath);
+    // 未输入前缀时使用 ./ 写法，避免生成被当作依赖包的裸路径
+    const original = typed || "./";
+    return entries
+      .filter(
+        (entry) =>
+          entry.category === category &&
+          entry.root === folder.name &&
+          pathKey(entry.path) !== self,
+      )
+      .map((entry) => {
+        const value = this.resolver.format(entry.path, document.uri.fsPath, original);
+        const item = new AssetCompletionItem(
+          { label: value, description: toHumanSize(entry.sizeBytes) },
+          entry,
+        );
+        item.detail = entry.relativePath;
+        item.insertText = value;
+        item.filterText = value;
+        item.range = range;
+        // 离当前文件越近的资源越靠前
+        const ups = value.split("/").filter((segment) => segment === "..").length;
+        item.sortText = `${String(ups).padStart(3, "0")}${value}`;
+        return item;
+      });
+  }
+
+  async resolveCompletionItem(item: AssetCompletionItem) {
+    item.documentation = await renderAssetPreview(item.entry);
+    return item;
+  }
+}
+
+/** 光标位于路径上下文中时返回已输入的部分，否则返回 undefined */
+function matchContext(prefix: string) {
+  const url = prefix.match(URL_CONTEXT);
+  if (url) return url[1];
+  const attribute = prefix.match(ATTRIBUTE_CONTEXT);
+  if (attribute) return attribute[1];
+  const string = prefix.match(STRING_CONTEXT);
+  // 同种引号为奇数个时光标才在字符串内部，排除刚闭合的字符串
+  if (string && prefix.split(string[1]).length % 2 === 0) return string[2];
+  return undefined;
+}
+
+/** 光标是否位于 @font-face 规则块内 */
+function insideFontFace(document: vscode.TextDocument, position: vscode.Position) {
+  const before = document.getText(new vscode.Range(new vscode.Position(0, 0), position));
+  const rule = before.lastIndexOf("@font-face");
+  if (rule < 0) return false;
+  const body = before.slice(rule);
+  const depth = (body.match(/\{/g)?.length ?? 0) - (body.match(/\}/g)?.length ?? 0);
+  return depth > 0;
+}
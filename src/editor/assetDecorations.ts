@@ -0,0 +1,207 @@
+import * as vscode from "vscode";
+import { pathKey } from "../utils/fsUtils";
+import { AssetEntry } from "../types";
+import { AssetIndex } from "../services/assetIndex";
+import { AssetPathResolver } from "../services/pathResolver";
+import { extractReferences, isSourceFile } from "../services/references";
+
+/** off：关闭；gutter：行号旁的缩略图；inline：行尾缩略图 */
+export type ThumbnailMode = "off" | "gutter" | "inline";
+
+/** 编辑过程中的刷新延迟 */
+const UPDATE_DELAY = 300;
+
+/**
+ * 引用了索引中图片的行显示缩略图装饰。
+ * 行号栏图标只能通过装饰类型指定，因此每张图片对应一个装饰类型，
+ * 不再被可见编辑器使用的类型会被释放
+ */
+export class AssetDecorations implements vscode.Disposable {
+  private readonly inlineType = vscode.window.createTextEditorDecorationType({});
+  private gutterTypes = new Map<string, vscode.TextEditorDecorationType>();
+  /** 各文档当前使用的行号栏装饰类型 */
+  private documentIcons = new Map<string, Set<string>>();
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private readonly assetIndex: AssetIndex,
+    private readonly resolver: AssetPathResolver,
+  ) {
+    this.disposables.push(
+      vscode.window.onDidChangeVisibleTextEditors(() => {
+        this.releaseUnused();
+        this.updateAll();
+      }),
+      vscode.workspace.onDidChangeTextDocument((e) => this.schedule(e.document)),
+      vscode.workspace.onDidCloseTextDocument((doc) => {
+        this.documentIcons.delete(doc.uri.toString());
+      }),
+      assetIndex.onDidChange(() => this.updateAll()),
+      assetIndex.onDidProgress((progress) => {
+        if (progress.done) this.updateAll();
+      }),
+      resolver.onDidChange(() => this.updateAll()),
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration("assetManage.thumbnailDecorations")) {
+          this.updateAll();
+        }
+      }),
+    );
+    this.updateAll();
+  }
+
+  private get mode() {
+    return vscode.workspace
+      .getConfiguration("assetManage")
+      .get<ThumbnailMode>("thumbnailDecorations", "off");
+  }
+
+  dispose() {
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.disposables.forEach((d) => d.dispose());
+    this.gutterTypes.forEach((type) => type.dispose());
+    this.inlineType.dispose();
+  }
+
+  private updateAll() {
+    const documents = new Set(vscode.window.visibleTextEditors.map((e) => e.document));
+    documents.forEach((doc) => this.schedule(doc));
+  }
+
+  private schedule(document: vscode.TextDocument) {
+    if (document.uri.scheme !== "file" || !isSourceFile(document.uri.fsPath)) {
+      return;
+    }
+    const key = document.uri.toString();
+    const timer = this.timers.get(key);
+    if (timer) clearTimeout(timer);
+    this.timers.set(
+      key,
+      setTimeout(() => {
+        this.timers.delete(key);
+        void this.update(document);
+      }, UPDATE_DELAY),
+    );
+  }
+
+  private async update(document: vscode.TextDocument) {
+    const mode = this.mode;
+    const version = document.version;
+    const lines = mode === "off" ? new Map<number, AssetEntry>() : await this.findImageLines(document);
+    if (document.isClosed || document.version !== version) return;
+
+    const editors = vscode.window.visibleTextEditors.filter((e) => e.document === document);
+    const byImage = new Map<string, vscode.Range[]>();
+    const inline: vscode.DecorationOptions[] = [];
+    lines.forEach((entry, line) => {
+      const range = document.lineAt(line).range;
+      if (mode === "gutter") {
+        const key = pathKey(entry.path);
+        byImage.set(key, [...(byImage.get(key) ?? []), range]);
+        if (!this.gutterTypes.has(key)) {
+          this.gutterTypes.set(
+            key,
+            vscode.window.createTextEditorDecorationType({
+              gutterIconPath: vscode.Uri.file(entry.path),
+              gutterIconSize: "contain",
+            }),
+          );
+        }
+      } else {
+        inline.push({
+          range: new vscode.Range(range.end, range.end),
+          renderOptions: {
+            after: {
+              contentIconPath: vscode.Uri.file(entry.path),
+              width: "1.2em",
+              height: "1.2em",
+              margin: "0 0 0 1em",
+            },
+          },
+        });
+      }
+    });
+
+    const docKey = document.uri.toString();
+    const previous = this.documentIcons.get(docKey) ?? new Set<string>();
+    for (const editor of editors) {
+      editor.setDecorations(this.inlineType, inline);
+      previous.forEach((key) => {
+        const type = this.gutterTypes.get(key);
+        if (type && !byImage.has(key)) editor.setDecorations(type, []);
+      });
+      byImage.forEach((ranges, key) => {
+        editor.setDecorations(this.gutterTypes.get(key)!, ranges);
+      });
+    }
+    this.documentIcons.set(docKey, new Set(byImage.keys()));
+    this.releaseUnused();
+  }
+
+  /**
+   * 引用了图片的行，同一行有多张图片时取第一张
+   */
+  private async findImageLines(document: vscode.TextDocument) {
+    const lines = new Map<number, AssetEntry>();
+    if (!vscode.workspace.getWorkspaceFolder(document.uri)) return lines;
+
+    // 不为装饰触发全量扫描，索引建立后 onDidProgress 会刷新
+    const entries = await this.assetIndex.getIndexedEntries();
+    if (!entries) return lines;
+    await this.resolver.ready();
+    const images = new Map(
+      entries
+        .filter((entry) => entry.category === "images")
+        .map((entry) => [pathKey(entry.path), entry]),
+    );
+    for (const ref of extractReferences(document.getText())) {
+      if (lines.has(ref.line)) continue;
+      const entry = this.resolver
+        .resolve(ref.value, document.uri.fsPath)
+        .map((candidate) => images.get(pathKey(candidate)))
+        .find(Boolean);
+      if (entry) lines.set(ref.line, entry);
+    }
+    return lines;
+  }
+
+  /** 释放没有任何可见文档使用的行号栏装饰类型 */
+  private releaseUnused() {
+    const visible = new Set(
+      vscode.window.visibleTextEditors.map((e) => e.document.uri.toString()),
+    );
+    const used = new Set<string>();
+    this.documentIcons.forEach((keys, docKey) => {
+      if (visible.has(docKey)) keys.forEach((key) => used.add(key));
+      else this.documentIcons.delete(docKey);
+    });
+    this.gutterTypes.forEach((type, key) => {
+      if (!used.has(key)) {
+        type.dispose();
+        this.gutterTypes.delete(key);
+      }
+    });
+  }
+}
+
+/**
+ * 在关闭与上次使用的显示方式之间切换缩略图装饰
+ */
+export async function toggleThumbnailDecorations(state: vscode.Memento) {
+  const config = vscode.workspace.getConfiguration("assetManage");
+  const current = config.get<ThumbnailMode>("thumbnailDecorations", "off");
+  let next: ThumbnailMode;
+  if (current === "off") {
+    next = state.get<ThumbnailMode>("assetManage.lastThumbnailMode", "gutter");
+  } else {
+    await state.update("assetManage.lastThumbnailMode", current);
+    next = "off";
+  }
+  // 工作区中设置过时写回工作区，否则写入用户设置
+  const target =
+    config.inspect("thumbnailDecorations")?.workspaceValue !== undefined
+      ? vscode.ConfigurationTarget.Workspace
+      : vscode.ConfigurationTarget.Global;
+  await config.update("thumbnailDecorations", next, target);
+}
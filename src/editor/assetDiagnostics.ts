@@ -0,0 +1,212 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { pathKey, statSafe } from "../utils/fsUtils";
+import { editDistance } from "../utils/fuzzy";
+import { AssetEntry } from "../types";
+import { AssetIndex } from "../services/assetIndex";
+import { AssetPathResolver } from "../services/pathResolver";
+import {
+  extractReferences,
+  isSourceFile,
+  referenceBasename,
+} from "../services/references";
+
+/** 诊断的 code，快速修复据此识别自己产生的诊断 */
+const MISSING_ASSET = "missingAsset";
+
+const DIAGNOSTIC_SOURCE = "Asset Manage";
+
+/** 编辑过程中的校验延迟 */
+const VALIDATE_DELAY = 500;
+
+/** 快速修复最多给出的候选资源数 */
+const MAX_SUGGESTIONS = 3;
+
+/**
+ * 源码中失效资源引用的诊断：把字符串、import、CSS url()、HTML src/href 中的路径
+ * 与资源索引对照，找不到目标文件时在问题面板中给出警告，
+ * 并提供替换为名称最接近的已有资源的快速修复
+ */
+export class AssetDiagnostics implements vscode.CodeActionProvider, vscode.Disposable {
+  static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  private readonly collection =
+    vscode.languages.createDiagnosticCollection("assetManage");
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private readonly assetIndex: AssetIndex,
+    private readonly resolver: AssetPathResolver,
+  ) {
+    this.disposables.push(
+      this.collection,
+      vscode.languages.registerCodeActionsProvider({ scheme: "file" }, this, {
+        providedCodeActionKinds: AssetDiagnostics.providedCodeActionKinds,
+      }),
+      vscode.workspace.onDidOpenTextDocument((doc) => this.schedule(doc)),
+      vscode.workspace.onDidChangeTextDocument((e) => this.schedule(e.document)),
+      vscode.workspace.onDidCloseTextDocument((doc) => {
+        this.collection.delete(doc.uri);
+      }),
+      // 资源增删后已有的诊断可能失效或新增
+      assetIndex.onDidChange(() => this.validateAll()),
+      assetIndex.onDidProgress((progress) => {
+        if (progress.done) this.validateAll();
+      }),
+      resolver.onDidChange(() => this.validateAll()),
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration("assetManage.reportBrokenReferences")) {
+          this.validateAll();
+        }
+      }),
+    );
+    this.validateAll();
+  }
+
+  private get enabled() {
+    return vscode.workspace
+      .getConfiguration("assetManage")
+      .get<boolean>("reportBrokenReferences", true);
+  }
+
+  dispose() {
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.disposables.forEach((d) => d.dispose());
+  }
+
+  private validateAll() {
+    vscode.workspace.textDocuments.forEach((doc) => this.schedule(doc));
+  }
+
+  private schedule(document: vscode.TextDocument) {
+    if (document.uri.scheme !== "file" || !isSourceFile(document.uri.fsPath)) {
+      return;
+    }
+    const key = document.uri.toString();
+    const timer = this.timers.get(key);
+    if (timer) clearTimeout(timer);
+    this.timers.set(
+      key,
+      setTimeout(() => {
+        this.timers.delete(key);
+        void this.validate(document);
+      }, VALIDATE_DELAY),
+    );
+  }
+
+  private async validate(document: vscode.TextDocument) {
+    const workspace = vscode.workspace.getWorkspaceFolder(document.uri);
+    if (!this.enabled || !workspace || document.isClosed) {
+      this.collection.delete(document.uri);
+      return;
+    }
+
+    const version = document.version;
+    // 不在激活时为校验触发全量扫描，索引建立后 onDidProgress 会重新校验
+    const entries = await this.assetIndex.getIndexedEntries();
+    if (!entries) return;
+    await this.resolver.ready();
+    const known = new Set(entries.map((entry) => pathKey(entry.path)));
+    const diagnostics: vscode.Diagnostic[] = [];
+
+    for (const ref of extractReferences(document.getText())) {
+      if (!this.resolver.isLocal(ref, document.uri.fsPath)) continue;
+      const candidates = this.resolver.resolve(ref.value, document.uri.fsPath);
+      if (await exists(candidates, known)) continue;
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(
+          document.positionAt(ref.start),
+          document.positionAt(ref.end),
+        ),
+        vscode.l10n.t("Asset not found: {0}", ref.value),
+        vscode.DiagnosticSeverity.Warning,
+      );
+      diagnostic.source = DIAGNOSTIC_SOURCE;
+      diagnostic.code = MISSING_ASSET;
+      diagnostics.push(diagnostic);
+    }
+
+    // 校验期间文档又被修改时以下一次校验为准
+    if (document.isClosed || document.version !== version) return;
+    this.collection.set(document.uri, diagnostics);
+  }
+
+  async provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext,
+  ): Promise<vscode.CodeAction[]> {
+    const diagnostics = context.diagnostics.filter(
+      (d) => d.source === DIAGNOSTIC_SOURCE && d.code === MISSING_ASSET,
+    );
+    if (!diagnostics.length) return [];
+
+    const entries = await this.assetIndex.getEntries();
+    await this.resolver.ready();
+    const actions: vscode.CodeAction[] = [];
+
+    for (const diagnostic of diagnostics) {
+      const value = document.getText(diagnostic.range);
+      findClosestAssets(value, document.uri.fsPath, entries).forEach(
+        (entry, index) => {
+          const replacement = this.resolver.format(
+            entry.path,
+            document.uri.fsPath,
+            value,
+          );
+          const action = new vscode.CodeAction(
+            vscode.l10n.t("Change to '{0}'", replacement),
+            vscode.CodeActionKind.QuickFix,
+          );
+          action.edit = new vscode.WorkspaceEdit();
+          action.edit.replace(document.uri, diagnostic.range, replacement);
+          action.diagnostics = [diagnostic];
+          action.isPreferred = index === 0;
+          actions.push(action);
+        },
+      );
+    }
+    return actions;
+  }
+}
+
+/**
+ * 引用的目标是否存在：先查资源索引，再查磁盘（被排除或超出扫描范围的文件不误报）
+ */
+async function exists(candidates: string[], known: Set<string>) {
+  if (candidates.some((candidate) => known.has(pathKey(candidate)))) {
+    return true;
+  }
+  for (const candidate of candidates) {
+    if (await statSafe({ fsPath: candidate })) return true;
+  }
+  return false;
+}
+
+/**
+ * 按文件名编辑距离查找最接近的资源，距离相同时优先同扩展名、离引用文件更近的资源
+ */
+function findClosestAssets(value: string, fromFile: string, entries: AssetEntry[]) {
+  const name = referenceBasename(value);
+  const ext = path.extname(name);
+  const limit = Math.max(2, Math.floor(name.length / 3));
+  const dir = path.dirname(fromFile);
+
+  return entries
+    .map((entry) => ({
+      entry,
+      distance: editDistance(name, entry.name.toLowerCase()),
+      sameExt: path.extname(entry.name).toLowerCase() === ext,
+      depth: path.relative(dir, entry.path).split(path.sep).length,
+    }))
+    .filter((item) => item.distance <= limit)
+    .sort(
+      (a, b) =>
+        a.distance - b.distance ||
+        Number(b.sameExt) - Number(a.sameExt) ||
+        a.depth - b.depth,
+    )
+    .slice(0, MAX_SUGGESTIONS)
+    .map((item) => item.entry);
+}
@@ -0,0 +1,89 @@
+import * as vscode from "vscode";
+import { toHumanSize } from "../utils/fsUtils";
+import { AssetEntry } from "../types";
+import { AssetIndex } from "../services/assetIndex";
+import { AssetPathResolver } from "../services/pathResolver";
+import { detectResourceType } from "../services/mediaInfo";
+import { formatDuration, readMediaDuration } from "../services/mediaDuration";
+import { findAssetAt } from "./assetAtCursor";
+
+/** 悬停缩略图的最大显示尺寸 */
+const THUMBNAIL_WIDTH = 240;
+const THUMBNAIL_HEIGHT = 160;
+
+/**
+ * 源码中资源路径的悬停预览：图片显示缩略图与尺寸，字体显示字体族，
+ * 音视频显示时长，并提供在侧边栏中定位的链接
+ */
+export class AssetHoverProvider implements vscode.HoverProvider {
+  constructor(
+    private readonly assetIndex: AssetIndex,
+    private readonly resolver: AssetPathResolver,
+  ) {}
+
+  async provideHover(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    token: vscode.CancellationToken,
+  ): Promise<vscode.Hover | undefined> {
+    const enabled = vscode.workspace
+      .getConfiguration("assetManage")
+      .get<boolean>("hoverPreview", true);
+    if (!enabled) return undefined;
+
+    const found = await findAssetAt(
+      document,
+      position,
+      this.assetIndex,
+      this.resolver,
+      token,
+    );
+    if (!found?.entry || token.isCancellationRequested) return undefined;
+    return new vscode.Hover(await renderAssetPreview(found.entry), found.range);
+  }
+}
+
+/**
+ * 资源预览的 Markdown，悬停与路径补全的说明文档共用
+ */
+export async function renderAssetPreview(entry: AssetEntry) {
+  const uri = vscode.Uri.file(entry.path);
+  const markdown = new vscode.MarkdownString(undefined, true);
+  markdown.supportHtml = true;
+  markdown.isTrusted = { enabledCommands: ["assetManage.revealAsset"] };
+
+  const details = [toHumanSize(entry.sizeBytes)];
+  const format = (entry.sniffedType ?? entry.ext).toUpperCase();
+  if (format) details.unshift(format);
+
+  if (entry.category === "images" || detectResourceType(uri) === "image") {
+    const image = entry.image;
+    if (image) details.push(`${image.width} × ${image.height}`);
+    const scale = image
+      ? Math.min(1, THUMBNAIL_WIDTH / image.width, THUMBNAIL_HEIGHT / image.height)
+      : 1;
+    const attrs = image
+      ? `width="${Math.max(1, Math.round(image.width * scale))}" height="${Math.max(1, Math.round(image.height * scale))}"`
+      : `height="${THUMBNAIL_HEIGHT}"`;
+    markdown.appendMarkdown(`<img src="${uri.toString()}" ${attrs}/>\n\n`);
+  } else if (entry.familyName) {
+    details.push(vscode.l10n.t("Font family: {0}", entry.familyName));
+  } else if (entry.kind) {
+    const duration = await readMediaDuration(entry.path);
+    if (duration) details.push(vscode.l10n.t("Duration: {0}", formatDuration(duration)));
+  }
+
+  markdown.appendMarkdown(`**${escape(entry.name)}**  \n`);
+  markdown.appendMarkdown(`${details.map(escape).join(" · ")}  \n`);
+  markdown.appendMarkdown(`${escape(entry.relativePath)}\n\n`);
+
+  const args = encodeURIComponent(JSON.stringify([entry.path]));
+  markdown.appendMarkdown(
+    `[$(eye) ${vscode.l10n.t("Reveal in Asset Manage")}](command:assetManage.revealAsset?${args})`,
+  );
+  return markdown;
+}
+
+function escape(text: string) {
+  return text.replace(/[\\`*_{}[\]()#+!<>|]/g, "\\$&");
+}
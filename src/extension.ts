@@ -2,28 +2,181 @@ import * as vscode from "vscode";
 import * as path from "path";
 
 import { AssetViewProvider } from "./sidebar/assetViewProvider";
+import { AssetIndex } from "./services/assetIndex";
+import { ReferenceIndex } from "./services/referenceIndex";
+import { AssetPathResolver } from "./services/pathResolver";
+import { AssetDiagnostics } from "./editor/assetDiagnostics";
+import { SOURCE_SELECTOR, findAssetAt } from "./editor/assetAtCursor";
+import { AssetHoverProvider } from "./editor/assetHover";
+import {
+  AssetDecorations,
+  toggleThumbnailDecorations,
+} from "./editor/assetDecorations";
+import {
+  AssetCompletionProvider,
+  COMPLETION_TRIGGERS,
+} from "./editor/assetCompletion";
+import { moveAsset, renameAsset } from "./services/assetRelocation";
+import { BackupStore } from "./services/backup";
+import { stripImageMetadata } from "./services/metadataCommands";
+import { ImageProcessor } from "./services/imageProcessing";
+import { ImageOptimizer } from "./services/imageOptimizer";
+import { convertImages } from "./services/imageConversion";
+import { generateVariants } from "./services/imageVariants";
+import { generateSvgComponents, optimizeSvgFile } from "./services/svgCommands";
 import { log } from "./utils/logger";
 
 export async function activate(context: vscode.ExtensionContext) {
-  const workspace = vscode.workspace.workspaceFolders?.[0];
-  if (!workspace) {
-    vscode.window.showWarningMessage(
-      vscode.l10n.t("Asset Manage: Please open a workspace first.")
-    );
-    return;
-  }
+  // 未打开文件夹时同样注册视图与命令，之后通过 onDidChangeWorkspaceFolders 感知新加入的文件夹
+  const assetIndex = new AssetIndex(
+    context.storageUri ?? context.globalStorageUri
+  );
+  const resolver = new AssetPathResolver();
+  const backups = new BackupStore(
+    context.storageUri ?? context.globalStorageUri
+  );
+  const referenceIndex = new ReferenceIndex(assetIndex, resolver);
+  const imageProcessor = new ImageProcessor();
+  const optimizer = new ImageOptimizer(
+    context.storageUri ?? context.globalStorageUri,
+    imageProcessor,
+    backups
+  );
+  context.subscriptions.push(
+    assetIndex,
+    imageProcessor,
+    optimizer,
+    resolver,
+    referenceIndex,
+    new AssetDiagnostics(assetIndex, resolver),
+    vscode.languages.registerHoverProvider(
+      SOURCE_SELECTOR,
+      new AssetHoverProvider(assetIndex, resolver)
+    ),
+    new AssetDecorations(assetIndex, resolver),
+    vscode.languages.registerCompletionItemProvider(
+      SOURCE_SELECTOR,
+      new AssetCompletionProvider(assetIndex, resolver),
+      ...COMPLETION_TRIGGERS
+    )
+  );
 
-  const imagesView = new AssetViewProvider("images", context.extensionUri);
+  const imagesView = new AssetViewProvider(
+    "images",
+    context.extensionUri,
+    assetIndex,
+    referenceIndex,
+    optimizer
+  );
 
   registerStatusBarShortcut(context);
 
   context.subscriptions.push(
     vscode.commands.registerCommand("assetManage.refreshIndexes", async () => {
+      if (!vscode.workspace.workspaceFolders?.length) {
+        vscode.window.showWarningMessage(
+          vscode.l10n.t("Asset Manage: Please open a workspace first.")
+        );
+        return;
+      }
       vscode.window.showInformationMessage(
         vscode.l10n.t("Asset Manage index refreshed")
       );
       await imagesView.refreshData();
-    })
+    }),
+    vscode.commands.registerCommand("assetManage.cancelScan", () => {
+      assetIndex.cancelScan();
+    }),
+    vscode.commands.registerCommand(
+      "assetManage.renameAsset",
+      (uri?: vscode.Uri) => {
+        const target = uri ?? vscode.window.activeTextEditor?.document.uri;
+        if (target) return renameAsset(referenceIndex, target);
+      }
+    ),
+    vscode.commands.registerCommand(
+      "assetManage.moveAsset",
+      (uri?: vscode.Uri) => {
+        const target = uri ?? vscode.window.activeTextEditor?.document.uri;
+        if (target) return moveAsset(referenceIndex, target);
+      }
+    ),
+    vscode.commands.registerCommand(
+      "assetManage.revealAssetUnderCursor",
+      async () => {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) return;
+        const found = await findAssetAt(
+          editor.document,
+          editor.selection.active,
+          assetIndex,
+          resolver
+        );
+        if (!found?.entry) {
+          vscode.window.showInformationMessage(
+            vscode.l10n.t("No indexed asset at the cursor")
+          );
+          return;
+        }
+        await imagesView.revealAsset(found.entry.path);
+      }
+    ),
+    vscode.commands.registerCommand(
+      "assetManage.toggleThumbnailDecorations",
+      () => toggleThumbnailDecorations(context.globalState)
+    ),
+    vscode.commands.registerCommand(
+      "assetManage.revealAsset",
+      (target?: string | vscode.Uri) => {
+        const fsPath = typeof target === "string" ? target : target?.fsPath;
+        if (fsPath) return imagesView.revealAsset(fsPath);
+      }
+    ),
+    vscode.commands.registerCommand(
+      "assetManage.stripMetadata",
+      (uri?: vscode.Uri, uris?: vscode.Uri[]) => {
+        // 资源管理器多选时第二个参数为全部选中项
+        const targets = uris?.length ? uris : uri ? [uri] : [];
+        if (!targets.length && vscode.window.activeTextEditor) {
+          targets.push(vscode.window.activeTextEditor.document.uri);
+        }
+        return stripImageMetadata(backups, targets);
+      }
+    ),
+    vscode.commands.registerCommand(
+      "assetManage.convertImages",
+      (uri?: vscode.Uri, uris?: vscode.Uri[]) => {
+        const targets = uris?.length ? uris : uri ? [uri] : [];
+        if (!targets.length && vscode.window.activeTextEditor) {
+          targets.push(vscode.window.activeTextEditor.document.uri);
+        }
+        return convertImages(imageProcessor, referenceIndex, targets);
+      }
+    ),
+    vscode.commands.registerCommand(
+      "assetManage.generateVariants",
+      (uri?: vscode.Uri) => {
+        const target = uri ?? vscode.window.activeTextEditor?.document.uri;
+        if (target) return generateVariants(imageProcessor, target);
+      }
+    ),
+    vscode.commands.registerCommand(
+      "assetManage.optimizeSvg",
+      (uri?: vscode.Uri) => {
+        const target = uri ?? vscode.window.activeTextEditor?.document.uri;
+        if (target) return optimizeSvgFile(backups, target);
+      }
+    ),
+    vscode.commands.registerCommand(
+      "assetManage.generateSvgComponents",
+      (uri?: vscode.Uri, uris?: vscode.Uri[]) => {
+        const targets = uris?.length ? uris : uri ? [uri] : [];
+        if (!targets.length && vscode.window.activeTextEditor) {
+          targets.push(vscode.window.activeTextEditor.document.uri);
+        }
+        return generateSvgComponents(targets);
+      }
+    )
   );
 
   context.subscriptions.push(
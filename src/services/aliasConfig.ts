@@ -0,0 +1,245 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { promises as fs } from "fs";
+import { parseJsonc } from "../utils/jsonc";
+import { log } from "../utils/logger";
+
+/**
+ * 单条路径别名：pattern 以 * 结尾时按前缀匹配，targets 中的 * 替换为匹配到的剩余部分；
+ * source 记录别名来源，便于排查
+ */
+export interface AliasRule {
+  pattern: string;
+  targets: string[];
+  source: string;
+}
+
+/** 按顺序读取的 tsconfig/jsconfig，extends 与 references 指向的配置会一并读取 */
+const TS_CONFIG_FILES = ["tsconfig.json", "tsconfig.app.json", "jsconfig.json"];
+
+/** 可能静态声明 alias 对象的打包配置 */
+const BUNDLER_CONFIG_FILES = [
+  "vite.config.ts", "vite.config.mts", "vite.config.js", "vite.config.mjs", "vite.config.cjs",
+  "webpack.config.js", "webpack.config.ts", "webpack.config.cjs", "webpack.config.mjs",
+  "vue.config.js", "nuxt.config.ts", "nuxt.config.js",
+];
+
+/** 配置文件变化时需要重新读取别名 */
+export const ALIAS_CONFIG_GLOB = `**/{${[...TS_CONFIG_FILES, ...BUNDLER_CONFIG_FILES].join(",")}}`;
+
+/** extends / references 的最大跟随深度 */
+const MAX_DEPTH = 3;
+
+/**
+ * 读取工作区文件夹中的全部别名，优先级：assetManage.aliases > 打包配置 > tsconfig/jsconfig
+ */
+export async function loadAliases(workspace: vscode.WorkspaceFolder): Promise<AliasRule[]> {
+  const root = workspace.uri.fsPath;
+  const config = vscode.workspace.getConfiguration("assetManage", workspace.uri);
+  const rules: AliasRule[] = [];
+
+  const manual = config.get<Record<string, string>>("aliases") ?? {};
+  for (const [key, target] of Object.entries(manual)) {
+    if (typeof target === "string") {
+      rules.push(...keyAlias(key, [path.join(root, target)], "assetManage.aliases"));
+    }
+  }
+
+  for (const file of BUNDLER_CONFIG_FILES) {
+    const text = await readText(path.join(root, file));
+    if (text) rules.push(...parseBundlerAliases(text, root, file));
+  }
+
+  const visited = new Set<string>();
+  for (const file of TS_CONFIG_FILES) {
+    rules.push(...(await readTsConfigPaths(path.join(root, file), root, visited, 0)));
+  }
+
+  if (rules.length) {
+    log(`🧭 已加载 ${rules.length} 条路径别名：${workspace.name}`);
+  }
+  return rules;
+}
+
+/**
+ * 打包工具的别名键：既匹配键本身，也匹配 键/子路径
+ */
+function keyAlias(key: string, targets: string[], source: string): AliasRule[] {
+  // webpack 中以 $ 结尾的键只做精确匹配
+  if (key.endsWith("$")) {
+    return [{ pattern: key.slice(0, -1), targets, source }];
+  }
+  const prefix = key.endsWith("/") ? key.slice(0, -1) : key;
+  return [
+    { pattern: prefix, targets, source },
+    { pattern: `${prefix}/*`, targets: targets.map((t) => path.join(t, "*")), source },
+  ];
+}
+
+/**
+ * tsconfig/jsconfig 中与路径别名有关的字段；内容来自用户文件，各字段使用前仍需校验
+ */
+interface TsConfigJson {
+  compilerOptions?: {
+    baseUrl?: unknown;
+    paths?: Record<string, unknown>;
+  };
+  extends?: unknown;
+  references?: unknown;
+}
+
+/**
+ * 读取 compilerOptions.paths（相对 baseUrl，未设置时相对配置文件所在目录），
+ * 并跟随相对路径的 extends 与 references
+ */
+async function readTsConfigPaths(
+  file: string,
+  root: string,
+  visited: Set<string>,
+  depth: number,
+): Promise<AliasRule[]> {
+  if (visited.has(file) || depth > MAX_DEPTH) return [];
+  visited.add(file);
+  const text = await readText(file);
+  const parsed = text ? parseJsonc(text) : undefined;
+  if (!parsed || typeof parsed !== "object") return [];
+  const json = parsed as TsConfigJson;
+
+  const dir = path.dirname(file);
+  const source = path.relative(root, file).split(path.sep).join("/");
+  const rules: AliasRule[] = [];
+  const options = json.compilerOptions && typeof json.compilerOptions === "object" ? json.compilerOptions : {};
+  const baseUrl = path.resolve(dir, typeof options.baseUrl === "string" ? options.baseUrl : ".");
+  for (const [pattern, targets] of Object.entries(options.paths ?? {})) {
+    if (!Array.isArray(targets)) continue;
+    rules.push({
+      pattern,
+      targets: targets
+        .filter((t): t is string => typeof t === "string")
+        .map((t) => path.resolve(baseUrl, t)),
+      source,
+    });
+  }
+
+  const extendsList: unknown[] = Array.isArray(json.extends) ? json.extends : [json.extends];
+  const references: unknown[] = Array.isArray(json.references) ? json.references : [];
+  const related = [
+    ...extendsList,
+    ...references.map((ref) => (ref && typeof ref === "object" ? (ref as { path?: unknown }).path : undefined)),
+  ].filter((p): p is string => typeof p === "string" && p.startsWith("."));
+  for (const relatedPath of related) {
+    let next = path.resolve(dir, relatedPath);
+    if (!next.endsWith(".json")) next = path.join(next, "tsconfig.json");
+    rules.push(...(await readTsConfigPaths(next, root, visited, depth + 1)));
+  }
+  return rules;
+}
+
+/**
+ * 从打包配置源码中提取静态声明的 alias：
+ * 对象写法 { '@': path.resolve(__dirname, 'src') } 与数组写法 [{ find: '@', replacement: '/src' }]，
+ * 值中的字符串按顺序拼接到配置文件所在目录；无法静态确定的值直接跳过
+ */
+function parseBundlerAliases(text: string, root: string, file: string): AliasRule[] {
+  const rules: AliasRule[] = [];
+  const dir = path.dirname(path.join(root, file));
+  const pattern = /\balias\s*:\s*([{[])/g;
+
+  for (const match of text.matchAll(pattern)) {
+    const open = match.index! + match[0].length - 1;
+    const body = readBalanced(text, open);
+    if (!body) continue;
+
+    if (match[1] === "{") {
+      for (const entry of splitTopLevel(body)) {
+        const colon = findTopLevel(entry, ":");
+        if (colon < 0) continue;
+        const key = entry.slice(0, colon).trim().replace(/^\[?\s*(['"`])(.*)\1\s*\]?$/, "$2");
+        const targets = staticPath(entry.slice(colon + 1), dir);
+        if (key && targets) rules.push(...keyAlias(key, [targets], file));
+      }
+    } else {
+      for (const entry of splitTopLevel(body)) {
+        const find = entry.match(/\bfind\s*:\s*(['"`])([^'"`]+)\1/);
+        const replacement = entry.match(/\breplacement\s*:\s*([\s\S]+)/);
+        const targets = replacement && staticPath(replacement[1], dir);
+        if (find && targets) rules.push(...keyAlias(find[2], [targets], file));
+      }
+    }
+  }
+  return rules;
+}
+
+function staticPath(expression: string, dir: string) {
+  const strings = Array.from(
+    expression.matchAll(/(['"`])([^'"`$]*)\1/g),
+    (m) => m[2],
+  );
+  if (!strings.length) return undefined;
+  return path.join(dir, ...strings);
+}
+
+/** 读取从 open 位置开始的括号内容（不含外层括号），忽略字符串中的括号 */
+function readBalanced(text: string, open: number) {
+  const pairs: Record<string, string> = { "{": "}", "[": "]", "(": ")" };
+  const stack: string[] = [];
+  let quote: string | undefined;
+  for (let i = open; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === "\\") i++;
+      else if (char === quote) quote = undefined;
+    } else if (char === "'" || char === '"' || char === "`") {
+      quote = char;
+    } else if (pairs[char]) {
+      stack.push(pairs[char]);
+    } else if (char === stack[stack.length - 1]) {
+      stack.pop();
+      if (!stack.length) return text.slice(open + 1, i);
+    }
+  }
+  return undefined;
+}
+
+/** 按顶层逗号拆分（忽略括号与字符串内部的逗号） */
+function splitTopLevel(body: string) {
+  const parts: string[] = [];
+  let start = 0;
+  let index = findTopLevel(body, ",");
+  while (index >= 0) {
+    parts.push(body.slice(start, start + index));
+    start += index + 1;
+    index = findTopLevel(body.slice(start), ",");
+  }
+  parts.push(body.slice(start));
+  return parts.map((p) => p.trim()).filter(Boolean);
+}
+
+function findTopLevel(text: string, target: string) {
+  let depth = 0;
+  let quote: string | undefined;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === "\\") i++;
+      else if (char === quote) quote = undefined;
+    } else if (char === "'" || char === '"' || char === "`") {
+      quote = char;
+    } else if ("{[(".includes(char)) {
+      depth++;
+    } else if ("}])".includes(char)) {
+      depth--;
+    } else if (char === target && depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+async function readText(file: string) {
+  try {
+    return await fs.readFile(file, "utf8");
+  } catch {
+    return undefined;
+  }
+}
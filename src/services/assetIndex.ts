@@ -0,0 +1,612 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import fg from "fast-glob";
+import picomatch from "picomatch";
+import { statSafe } from "../utils/fsUtils";
+import { error, log } from "../utils/logger";
+import {
+  AssetEntry,
+  AssetIndexChange,
+  ExcludedEntry,
+  ScanProgress,
+  ScanReport,
+} from "../types";
+import {
+  isResourceExt,
+  classifyAsset,
+  getOfficeFileType,
+} from "./mediaInfo";
+import {
+  FONT_CHARSET,
+  extractFontCharsetFromSources,
+  getFontFamilyFromFile,
+} from "./fontInfo";
+import { IndexCache } from "./indexCache";
+import { HashPool, getHashConfig } from "./hashing";
+import { IgnoreRules, isIgnoreFile } from "./ignoreRules";
+import { getResourceExtensions, resetCategoryRegistry } from "./categories";
+import { SniffedFormat, sniffFile } from "./sniff";
+import { readImageInfo } from "./imageInfo";
+import { readImageMetadata } from "./imageMetadata";
+import { canDecode } from "./imageCodecs";
+
+const DEFAULT_EXCLUDE = [
+  "**/node_modules/**",
+  "**/.git/**",
+  "**/dist/**",
+  "**/build/**",
+];
+
+/** 文件事件合并窗口，避免批量拷贝/git 切换分支时频繁推送 */
+const FLUSH_DELAY = 300;
+
+/** 全量扫描时每处理多少个文件上报一次进度（附带这批条目） */
+const PROGRESS_CHUNK = 100;
+
+/** 计算感知哈希的像素上限，超出的图片解码占用内存过大，不参与近似检测 */
+const MAX_PERCEPTUAL_PIXELS = 25_000_000;
+
+/** 配置变更合并窗口：设置界面连续修改或多根工作区分别触发事件时只重建一次 */
+const CONFIG_DELAY = 300;
+
+/** 变更后需要全量重建索引的配置项 */
+const REBUILD_SETTINGS = [
+  { keys: ["scanInclude", "scanExclude", "respectGitignore"], reason: "扫描配置" },
+  { keys: ["categories"], reason: "资源分类配置" },
+  { keys: ["maxFileCount", "maxFileSize"], reason: "扫描预算" },
+  { keys: ["hashAlgorithm"], reason: "哈希算法" },
+];
+
+/** 一次全量遍历的结果，扫描未被取代时整体提交 */
+interface ListResult {
+  uris: vscode.Uri[];
+  truncated: boolean;
+  /** 工作区文件夹 uri → 忽略规则 */
+  rules: Map<string, IgnoreRules>;
+  excluded: Map<string, ExcludedEntry>;
+}
+
+/**
+ * 内存中的资源索引：首次访问时全量扫描一次，
+ * 之后依靠 FileSystemWatcher 的增删改事件增量维护
+ */
+export class AssetIndex implements vscode.Disposable {
+  private entries = new Map<string, AssetEntry>();
+  private building?: Promise<void>;
+  private scanSource?: vscode.CancellationTokenSource;
+  /** 扫描被丢弃后不再自动重新扫描，直到显式刷新或侧边栏重新打开 */
+  private cancelled = false;
+  private lastScanReport?: Omit<ScanReport, "ignored">;
+  private ignoreRules = new Map<string, IgnoreRules>();
+  private excluded = new Map<string, ExcludedEntry>();
+  /** 忽略规则文件有变化，下次 flush 时改为全量重建 */
+  private rulesChanged = false;
+  private pending = new Map<string, "upsert" | "delete">();
+  private flushTimer?: ReturnType<typeof setTimeout>;
+  /** 等待合并的配置变更原因，窗口结束后只重建一次 */
+  private configReasons = new Set<string>();
+  private configTimer?: ReturnType<typeof setTimeout>;
+  private disposables: vscode.Disposable[] = [];
+  private readonly cache: IndexCache;
+  private readonly hashPool = new HashPool(getHashConfig().concurrency);
+
+  private readonly changeEmitter = new vscode.EventEmitter<AssetIndexChange>();
+  /** 增量变更（文件创建/修改/删除） */
+  readonly onDidChange = this.changeEmitter.event;
+
+  private readonly progressEmitter = new vscode.EventEmitter<ScanProgress>();
+  /** 全量扫描进度，按批次附带新处理的条目，便于边扫描边展示 */
+  readonly onDidProgress = this.progressEmitter.event;
+
+  /**
+   * @param storageUri 索引缓存的存放目录（优先使用工作区级存储）
+   */
+  constructor(storageUri: vscode.Uri) {
+    this.cache = new IndexCache(storageUri);
+    const watcher = vscode.workspace.createFileSystemWatcher("**/*");
+    this.disposables.push(
+      watcher,
+      watcher.onDidCreate((uri) => this.enqueue(uri, "upsert")),
+      watcher.onDidChange((uri) => this.enqueue(uri, "upsert")),
+      watcher.onDidDelete((uri) => this.enqueue(uri, "delete")),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => {
+        log(`📂 工作区文件夹变更，重建资源索引`);
+        this.rebuild().catch((err) => error("重建资源索引失败", err));
+      }),
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration("assetManage.hashConcurrency")) {
+          this.hashPool.setConcurrency(getHashConfig().concurrency);
+        }
+        if (e.affectsConfiguration("assetManage.categories")) {
+          resetCategoryRegistry();
+        }
+        // 一次修改可能涉及多个配置项或触发多次事件，合并后只重建一次
+        REBUILD_SETTINGS.filter(({ keys }) =>
+          keys.some((key) => e.affectsConfiguration(`assetManage.${key}`)),
+        ).forEach(({ reason }) => this.configReasons.add(reason));
+        if (!this.configReasons.size) return;
+        if (this.configTimer) clearTimeout(this.configTimer);
+        this.configTimer = setTimeout(() => {
+          this.configTimer = undefined;
+          log(`⚙️ ${[...this.configReasons].join("、")}变更，重建资源索引`);
+          this.configReasons.clear();
+          this.rebuild().catch((err) => error("重建资源索引失败", err));
+        }, CONFIG_DELAY);
+      }),
+    );
+  }
+
+  /**
+   * 获取全部索引条目，首次调用时触发全量扫描；
+   * 等待期间若有更新的扫描开始，则等待最新一次扫描完成。
+   * 调用方的 token 被取消、或扫描已被丢弃时不再等待（也不会重新触发扫描），直接返回当前条目
+   */
+  async getEntries(token?: vscode.CancellationToken): Promise<AssetEntry[]> {
+    while (!token?.isCancellationRequested) {
+      if (!this.building) {
+        if (this.cancelled) break;
+        this.building = this.build();
+      }
+      const building = this.building;
+      await building;
+      if (building === this.building) break;
+    }
+    return Array.from(this.entries.values());
+  }
+
+  /**
+   * 只读取已扫描（或正在扫描）的索引，不主动触发全量扫描；索引尚未建立时返回 undefined。
+   * 供激活时即运行的编辑器功能使用，扫描完成后由 onDidProgress 通知它们刷新
+   */
+  async getIndexedEntries(token?: vscode.CancellationToken): Promise<AssetEntry[] | undefined> {
+    if (!this.building) return undefined;
+    return this.getEntries(token);
+  }
+
+  /**
+   * 允许再次按需扫描（侧边栏重新打开时调用）
+   */
+  resumeScan() {
+    this.cancelled = false;
+  }
+
+  /**
+   * 丢弃现有索引并重新全量扫描（正在进行的扫描会被取消）
+   */
+  async rebuild() {
+    this.cancelled = false;
+    this.building = this.build();
+    await this.getEntries();
+  }
+
+  /**
+   * 取消正在进行的扫描。
+   * @param keepPartial 为 true 时已处理的文件仍会提交到索引；
+   * 为 false 时丢弃本次结果，之后只有显式刷新或调用 resumeScan 才会重新扫描
+   */
+  cancelScan(keepPartial = true) {
+    const source = this.scanSource;
+    if (!source) return;
+    log(`⏹️ 取消资源扫描`);
+    if (!keepPartial) {
+      this.scanSource = undefined;
+      this.building = undefined;
+      this.cancelled = true;
+    }
+    source.cancel();
+  }
+
+  /** 最近一次全量扫描的预算使用情况 */
+  get scanReport(): ScanReport | undefined {
+    return (
+      this.lastScanReport && {
+        ...this.lastScanReport,
+        ignored: this.excluded.size,
+      }
+    );
+  }
+
+  /**
+   * 被 .gitignore / .assetignore 排除的文件及命中的规则
+   */
+  getExcluded(): ExcludedEntry[] {
+    return Array.from(this.excluded.values());
+  }
+
+  dispose() {
+    this.scanSource?.cancel();
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    if (this.configTimer) clearTimeout(this.configTimer);
+    void this.cache.flush();
+    this.hashPool.dispose();
+    this.disposables.forEach((d) => d.dispose());
+    this.changeEmitter.dispose();
+    this.progressEmitter.dispose();
+  }
+
+  private async build() {
+    // 新的扫描开始时取消仍在进行中的旧扫描
+    this.scanSource?.cancel();
+    const source = new vscode.CancellationTokenSource();
+    this.scanSource = source;
+
+    try {
+      await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Window,
+          title: vscode.l10n.t("Scanning assets"),
+        },
+        (progress) => this.scan(progress, source),
+      );
+    } finally {
+      if (this.scanSource === source) {
+        this.scanSource = undefined;
+      }
+      source.dispose();
+    }
+  }
+
+  private async scan(
+    progress: vscode.Progress<{ message?: string }>,
+    source: vscode.CancellationTokenSource,
+  ) {
+    const start = Date.now();
+    const token = source.token;
+    const budget = getScanBudget();
+    await this.cache.load();
+    const { uris, truncated, rules, excluded } = await this.listAllAssets(
+      budget.maxFileCount,
+      token,
+    );
+    const total = uris.length;
+    const entries = new Map<string, AssetEntry>();
+    if (this.scanSource === source) {
+      this.progressEmitter.fire({ processed: 0, total, chunk: [], done: false });
+    }
+
+    // 每批文件并发处理，哈希计算由线程池控制实际并发数
+    let processed = 0;
+    while (processed < total && !token.isCancellationRequested) {
+      const batch = await Promise.all(
+        uris
+          .slice(processed, processed + PROGRESS_CHUNK)
+          .map((uri) => this.createEntry(uri, budget.maxFileSize)),
+      );
+      const chunk = batch.filter((entry): entry is AssetEntry => !!entry);
+      chunk.forEach((entry) => entries.set(entry.path, entry));
+      processed = Math.min(processed + PROGRESS_CHUNK, total);
+      if (this.scanSource !== source) break;
+      progress.report({ message: `${processed}/${total}` });
+      this.progressEmitter.fire({ processed, total, chunk, done: false });
+    }
+
+    // 被更新的扫描取代时直接丢弃结果，由新的扫描负责提交与通知
+    if (this.scanSource !== source) {
+      log(`⏭️ 资源扫描已被新的扫描取代`);
+      return;
+    }
+
+    const skippedLarge = Array.from(entries.values()).filter(
+      (entry) => entry.oversized,
+    ).length;
+    this.entries = entries;
+    this.ignoreRules = rules;
+    this.excluded = excluded;
+    this.cache.update(entries.values());
+    this.lastScanReport = {
+      truncated,
+      maxFileCount: budget.maxFileCount,
+      skippedLarge,
+      maxFileSize: budget.maxFileSize,
+      cancelled: token.isCancellationRequested,
+    };
+    this.progressEmitter.fire({ processed, total, chunk: [], done: true });
+    log(
+      `📚 资源索引构建完成：${entries.size} 个文件，忽略 ${excluded.size} 个，耗时 ${Date.now() - start}ms` +
+        (truncated ? `，已达到文件数上限 ${budget.maxFileCount}` : "") +
+        (token.isCancellationRequested ? "（已取消）" : ""),
+    );
+  }
+
+  /**
+   * 按需扫描所有工作区文件夹，返回所有静态资源文件（去除 node_modules/.git 等
+   * 以及 .gitignore / .assetignore 忽略的文件），超过文件数上限时截断
+   */
+  private async listAllAssets(
+    maxFileCount: number,
+    token: vscode.CancellationToken,
+  ): Promise<ListResult> {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    const result: ListResult = {
+      uris: [],
+      truncated: false,
+      rules: new Map(),
+      excluded: new Map(),
+    };
+    for (const folder of folders) {
+      const remaining = maxFileCount
+        ? maxFileCount - result.uris.length
+        : Infinity;
+      result.truncated = await this.listFolderAssets(
+        folder,
+        result,
+        remaining,
+        token,
+      );
+      if (result.truncated || token.isCancellationRequested) break;
+    }
+    return result;
+  }
+
+  /**
+   * 流式遍历单个工作区文件夹，结果追加到 result；返回是否因文件数上限被截断
+   */
+  private async listFolderAssets(
+    workspace: vscode.WorkspaceFolder,
+    result: ListResult,
+    limit: number,
+    token: vscode.CancellationToken,
+  ): Promise<boolean> {
+    const cwd = workspace.uri.fsPath;
+    const { include, exclude } = getScanPatterns(workspace.uri);
+    const rules = await IgnoreRules.load(workspace);
+    result.rules.set(workspace.uri.toString(), rules);
+
+    // 当 include 使用自定义模式时，优先按 include 搜索，再按扩展过滤；
+    // 默认模式则直接用扩展过滤的通配符以提升效率。
+    const customInclude =
+      include.length && !(include.length === 1 && include[0] === "**/*");
+    // 没有扩展名的文件也参与扫描，由文件头识别决定是否为资源
+    const patterns = customInclude
+      ? include
+      : [`**/*.{${getResourceExtensions().join(",")}}`, "**/!(*.*)"];
+    const stream = fg.stream(patterns, {
+      cwd,
+      ignore: exclude,
+      absolute: true,
+      suppressErrors: true,
+      onlyFiles: true,
+    });
+
+    let count = 0;
+    for await (const file of stream as AsyncIterable<string>) {
+      if (token.isCancellationRequested) break;
+      if (customInclude && !isResourceExt(file) && path.extname(file)) continue;
+      const reason = rules.check(file);
+      if (reason) {
+        const uri = vscode.Uri.file(file);
+        result.excluded.set(uri.fsPath, {
+          path: uri.fsPath,
+          root: workspace.name,
+          relativePath: vscode.workspace.asRelativePath(uri),
+          reason,
+        });
+        continue;
+      }
+      if (count >= limit) {
+        // 仍有更多文件，说明已触达上限；提前退出循环会关闭流并停止遍历
+        return true;
+      }
+      result.uris.push(vscode.Uri.file(file));
+      count++;
+    }
+    return false;
+  }
+
+  /**
+   * 判断单个文件是否应进入索引（与全量扫描使用同一套 include/exclude 规则）
+   */
+  private matches(fsPath: string): boolean {
+    const workspace = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(fsPath));
+    if (!workspace || !(isResourceExt(fsPath) || !path.extname(fsPath))) {
+      return false;
+    }
+    const relative = path
+      .relative(workspace.uri.fsPath, fsPath)
+      .split(path.sep)
+      .join("/");
+    const { include, exclude } = getScanPatterns(workspace.uri);
+    return picomatch.isMatch(relative, include) && !picomatch.isMatch(relative, exclude);
+  }
+
+  /**
+   * 文件命中忽略规则时记录排除原因并返回 true
+   */
+  private recordIgnored(fsPath: string): boolean {
+    const uri = vscode.Uri.file(fsPath);
+    const workspace = vscode.workspace.getWorkspaceFolder(uri);
+    const reason =
+      workspace &&
+      this.ignoreRules.get(workspace.uri.toString())?.check(fsPath);
+    if (!workspace || !reason) return false;
+    this.excluded.set(fsPath, {
+      path: fsPath,
+      root: workspace.name,
+      relativePath: vscode.workspace.asRelativePath(uri),
+      reason,
+    });
+    return true;
+  }
+
+  private enqueue(uri: vscode.Uri, action: "upsert" | "delete") {
+    if (isIgnoreFile(uri.fsPath)) {
+      this.rulesChanged = true;
+    } else {
+      this.pending.set(uri.fsPath, action);
+    }
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    // 定时器回调中的失败只记录日志，避免未处理的 Promise 拒绝
+    this.flushTimer = setTimeout(() => {
+      this.flush().catch((err) => error("增量更新资源索引失败", err));
+    }, FLUSH_DELAY);
+  }
+
+  private async flush() {
+    this.flushTimer = undefined;
+    // 索引尚未构建时无需增量维护，首次访问会全量扫描
+    if (!this.building) {
+      this.pending.clear();
+      this.rulesChanged = false;
+      return;
+    }
+    await this.building;
+
+    // 忽略规则变化可能影响任意文件，直接全量重建
+    if (this.rulesChanged) {
+      this.rulesChanged = false;
+      this.pending.clear();
+      log(`🙈 忽略规则变更，重建资源索引`);
+      await this.rebuild();
+      return;
+    }
+
+    const pending = Array.from(this.pending.entries());
+    this.pending.clear();
+
+    const upserted = new Map<string, AssetEntry>();
+    const removed = new Set<string>();
+
+    for (const [fsPath, action] of pending) {
+      if (action === "delete") {
+        // 删除目录时 watcher 只会上报目录本身，需要一并移除其下的条目
+        for (const key of this.entries.keys()) {
+          if (key === fsPath || key.startsWith(fsPath + path.sep)) {
+            this.entries.delete(key);
+            upserted.delete(key);
+            removed.add(key);
+          }
+        }
+        for (const key of this.excluded.keys()) {
+          if (key === fsPath || key.startsWith(fsPath + path.sep)) {
+            this.excluded.delete(key);
+          }
+        }
+        continue;
+      }
+
+      const stat = await statSafe({ fsPath });
+      if (!stat) continue;
+      const candidates = stat.isDirectory()
+        ? await fg(["**/*"], { cwd: fsPath, absolute: true, onlyFiles: true, suppressErrors: true })
+        : [fsPath];
+
+      for (const file of candidates.map(path.normalize)) {
+        if (!this.matches(file)) continue;
+        if (this.recordIgnored(file)) continue;
+        const entry = await this.createEntry(vscode.Uri.file(file));
+        if (!entry) continue;
+        this.entries.set(entry.path, entry);
+        upserted.set(entry.path, entry);
+        removed.delete(entry.path);
+      }
+    }
+
+    if (upserted.size || removed.size) {
+      this.cache.update(this.entries.values());
+      log(`🔁 资源索引增量更新：更新 ${upserted.size}，删除 ${removed.size}`);
+      this.changeEmitter.fire({
+        upserted: Array.from(upserted.values()),
+        removed: Array.from(removed),
+      });
+    }
+  }
+
+  /**
+   * 读取单个资源文件的元信息，文件不存在或无法归类时返回 undefined；
+   * 分类结合扩展名与文件头识别结果，
+   * 路径、大小、修改时间均未变化时直接复用缓存中的解析结果，
+   * 超过 maxFileSize 的文件只记录基本信息，不计算哈希也不解析内容
+   */
+  private async createEntry(
+    uri: vscode.Uri,
+    maxFileSize = getScanBudget().maxFileSize,
+  ): Promise<AssetEntry | undefined> {
+    const stat = await statSafe(uri);
+    if (!stat || !stat.isFile()) return undefined;
+
+    const cached = this.cache.lookup(uri.fsPath, stat);
+    const sniffed = cached
+      ? (cached.sniffedType as SniffedFormat | undefined)
+      : await sniffFile(uri.fsPath);
+    const classified = classifyAsset(uri, sniffed);
+    if (!classified) return undefined;
+
+    const category = classified.category;
+    const entry: AssetEntry = {
+      path: uri.fsPath,
+      root: vscode.workspace.getWorkspaceFolder(uri)?.name ?? "",
+      category,
+      folder: vscode.workspace.asRelativePath(path.dirname(uri.fsPath)),
+      name: path.basename(uri.fsPath),
+      ext: path.extname(uri.fsPath).slice(1).toUpperCase(),
+      relativePath: vscode.workspace.asRelativePath(uri.fsPath),
+      sizeBytes: stat.size,
+      mtime: stat.mtime.getTime(),
+      sniffedType: sniffed,
+      extMismatch: classified.extMismatch || undefined,
+    };
+
+    if (maxFileSize && stat.size > maxFileSize * 1024 * 1024) {
+      entry.oversized = true;
+      return entry;
+    }
+
+    const { algorithm } = getHashConfig();
+    if (cached && !cached.oversized && cached.category === category) {
+      // 解析结果仍可复用，仅在哈希算法变更时重新计算哈希
+      if (cached.hashAlgorithm === algorithm) {
+        return { ...cached, ...entry };
+      }
+      return {
+        ...cached,
+        ...entry,
+        hash: await this.hashPool.hash(uri.fsPath, algorithm),
+        hashAlgorithm: algorithm,
+      };
+    }
+
+    entry.hash = await this.hashPool.hash(uri.fsPath, algorithm);
+    entry.hashAlgorithm = algorithm;
+
+    if (classified.type === "image") {
+      entry.image = await readImageInfo(uri.fsPath);
+      const { privacy } = await readImageMetadata(uri.fsPath);
+      if (privacy.length) entry.privacy = privacy;
+      const pixels = entry.image ? entry.image.width * entry.image.height : 0;
+      if (canDecode(sniffed) && pixels <= MAX_PERCEPTUAL_PIXELS) {
+        entry.perceptualHash = await this.hashPool.perceptualHash(uri.fsPath);
+      }
+    }
+
+    if (category === "media") {
+      entry.kind = classified.type === "video" ? "video" : "audio";
+    } else if (category === "office") {
+      entry.fileType = getOfficeFileType(uri, classified.format);
+    } else if (category === "fonts") {
+      entry.familyName =
+        (await getFontFamilyFromFile(uri)) ||
+        path.basename(uri.fsPath, path.extname(uri.fsPath));
+      entry.charset =
+        (await extractFontCharsetFromSources([uri])) || FONT_CHARSET;
+    }
+
+    return entry;
+  }
+}
+
+export function getScanPatterns(scope: vscode.Uri) {
+  const config = vscode.workspace.getConfiguration("assetManage", scope);
+  const include = config.get<string[]>("scanInclude") ?? ["**/*"];
+  const exclude = config.get<string[]>("scanExclude") ?? DEFAULT_EXCLUDE;
+  return { include, exclude };
+}
+
+/**
+ * 扫描预算：文件数上限与单文件大小上限（MB），0 表示不限制
+ */
+function getScanBudget() {
+  const config = vscode.workspace.getConfiguration("assetManage");
+  const maxFileCount = Math.max(0, config.get<number>("maxFileCount", 20000));
+  const maxFileSize = Math.max(0, config.get<number>("maxFileSize", 50));
+  return { maxFileCount, maxFileSize };
+}
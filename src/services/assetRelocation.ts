@@ -0,0 +1,152 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { promises as fs } from "fs";
+import { pathKey, statSafe } from "../utils/fsUtils";
+import { log } from "../utils/logger";
+import { ReferenceIndex } from "./referenceIndex";
+import { extractReferences } from "./references";
+
+/**
+ * 重命名资源（只修改文件名），同时改写所有引用
+ */
+export async function renameAsset(referenceIndex: ReferenceIndex, uri: vscode.Uri) {
+  const name = path.basename(uri.fsPath);
+  const newName = await vscode.window.showInputBox({
+    title: vscode.l10n.t("Rename Asset"),
+    value: name,
+    // 默认只选中文件名部分，保留扩展名
+    valueSelection: [0, name.length - path.extname(name).length],
+    validateInput: (value) => {
+      if (!value.trim()) return vscode.l10n.t("Name cannot be empty");
+      if (/[\\/]/.test(value)) return vscode.l10n.t("Name cannot contain path separators");
+      return undefined;
+    },
+  });
+  if (!newName || newName === name) return;
+  await relocateAsset(
+    referenceIndex,
+    uri,
+    vscode.Uri.file(path.join(path.dirname(uri.fsPath), newName)),
+  );
+}
+
+/**
+ * 移动资源到新的路径（相对工作区，可同时改名），同时改写所有引用
+ */
+export async function moveAsset(referenceIndex: ReferenceIndex, uri: vscode.Uri) {
+  const workspace = vscode.workspace.getWorkspaceFolder(uri);
+  if (!workspace) return;
+  const relative = path.relative(workspace.uri.fsPath, uri.fsPath).split(path.sep).join("/");
+  const value = await vscode.window.showInputBox({
+    title: vscode.l10n.t("Move Asset"),
+    prompt: vscode.l10n.t("New path relative to {0}", workspace.name),
+    value: relative,
+    valueSelection: [0, relative.length - path.posix.basename(relative).length],
+    validateInput: (input) => {
+      const target = path.resolve(workspace.uri.fsPath, input.trim());
+      if (!input.trim() || !target.startsWith(workspace.uri.fsPath + path.sep)) {
+        return vscode.l10n.t("Path must stay inside {0}", workspace.name);
+      }
+      return undefined;
+    },
+  });
+  if (!value || value.trim() === relative) return;
+  await relocateAsset(
+    referenceIndex,
+    uri,
+    vscode.Uri.file(path.resolve(workspace.uri.fsPath, value.trim())),
+  );
+}
+
+/**
+ * 以单个 WorkspaceEdit 完成文件移动与引用改写：可在重构预览中确认，也可整体撤销
+ */
+export async function relocateAsset(
+  referenceIndex: ReferenceIndex,
+  source: vscode.Uri,
+  target: vscode.Uri,
+) {
+  if (pathKey(source.fsPath) !== pathKey(target.fsPath) && (await statSafe(target))) {
+    vscode.window.showErrorMessage(
+      vscode.l10n.t("{0} already exists", vscode.workspace.asRelativePath(target)),
+    );
+    return;
+  }
+
+  const edit = new vscode.WorkspaceEdit();
+  const count = await addReferenceEdits(edit, referenceIndex, source, target);
+  edit.renameFile(source, target, { overwrite: false }, {
+    label: vscode.l10n.t("Move asset"),
+    needsConfirmation: false,
+  });
+  const applied = await vscode.workspace.applyEdit(edit, { isRefactoring: true });
+  log(
+    applied
+      ? `🚚 ${vscode.workspace.asRelativePath(source)} → ${vscode.workspace.asRelativePath(target)}，改写 ${count} 处引用`
+      : `⚠️ 资源移动未应用：${source.fsPath}`,
+  );
+}
+
+/**
+ * 把指向 source 的引用改写为 target 并加入 edit，返回改写的引用数。
+ * 每个引用文件按其当前内容（含未保存的修改）重新定位引用，
+ * 新路径相对各自的引用文件重新计算（使用别名的引用保留别名）
+ */
+export async function addReferenceEdits(
+  edit: vscode.WorkspaceEdit,
+  referenceIndex: ReferenceIndex,
+  source: vscode.Uri,
+  target: vscode.Uri,
+) {
+  const { resolver } = referenceIndex;
+  const locations = await referenceIndex.getUsages(source.fsPath);
+  const files = Array.from(new Set(locations.map((location) => location.file)));
+  const sourceKey = pathKey(source.fsPath);
+  const metadata: vscode.WorkspaceEditEntryMetadata = {
+    label: vscode.l10n.t("Update asset references"),
+    needsConfirmation: vscode.workspace
+      .getConfiguration("assetManage")
+      .get<boolean>("previewReferenceEdits", true),
+  };
+
+  let count = 0;
+  for (const file of files) {
+    const fileUri = vscode.Uri.file(file);
+    const text = await readCurrentText(fileUri);
+    if (text === undefined) continue;
+    for (const ref of extractReferences(text)) {
+      const resolved = resolver.resolve(ref.value, file).some(
+        (candidate) => pathKey(candidate) === sourceKey,
+      );
+      if (!resolved) continue;
+      edit.replace(
+        fileUri,
+        new vscode.Range(
+          ref.line,
+          ref.character,
+          ref.line,
+          ref.character + ref.value.length,
+        ),
+        resolver.format(target.fsPath, file, ref.value),
+        metadata,
+      );
+      count++;
+    }
+  }
+  return count;
+}
+
+/**
+ * 已打开的文档以编辑器中的内容为准，否则读取磁盘内容
+ */
+async function readCurrentText(uri: vscode.Uri) {
+  const open = vscode.workspace.textDocuments.find(
+    (doc) => doc.uri.toString() === uri.toString(),
+  );
+  if (open) return open.getText();
+  try {
+    return await fs.readFile(uri.fsPath, "utf8");
+  } catch {
+    return undefined;
+  }
+}
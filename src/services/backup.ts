@@ -0,0 +1,89 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { promises as fs } from "fs";
+import { log } from "../utils/logger";
+
+/** 保留的备份批次数，超出后删除最旧的批次 */
+const MAX_BACKUPS = 20;
+
+const MANIFEST = "manifest.json";
+
+/** 一次操作的备份：原文件路径与备份副本的对应关系 */
+export interface Backup {
+  dir: string;
+  files: Array<{ original: string; copy: string }>;
+}
+
+/**
+ * 原地修改资源文件（去除元数据、压缩等）前的备份，保存在扩展的存储目录中，
+ * 每次操作一个批次目录，可整体恢复
+ */
+export class BackupStore {
+  private readonly root: string;
+
+  constructor(storageUri: vscode.Uri) {
+    this.root = path.join(storageUri.fsPath, "backups");
+  }
+
+  /**
+   * 复制文件到新的备份批次，label 用于区分操作类型
+   */
+  async backup(files: string[], label: string): Promise<Backup> {
+    const stamp = new Date().toISOString().replace(/[-:]/g, "").replace(/\..+$/, "");
+    const dir = path.join(this.root, `${stamp}-${label}-${Math.random().toString(36).slice(2, 6)}`);
+    await fs.mkdir(dir, { recursive: true });
+
+    const backup: Backup = { dir, files: [] };
+    for (const [index, original] of files.entries()) {
+      const copy = path.join(dir, `${index}-${path.basename(original)}`);
+      await fs.copyFile(original, copy);
+      backup.files.push({ original, copy });
+    }
+    await fs.writeFile(path.join(dir, MANIFEST), JSON.stringify(backup.files, null, 2));
+    log(`💾 已备份 ${files.length} 个文件：${dir}`);
+    await this.prune();
+    return backup;
+  }
+
+  /**
+   * 用备份覆盖原文件
+   */
+  async restore(backup: Backup) {
+    for (const { original, copy } of backup.files) {
+      await fs.copyFile(copy, original);
+    }
+    log(`↩️ 已从备份恢复 ${backup.files.length} 个文件：${backup.dir}`);
+  }
+
+  private async prune() {
+    try {
+      const dirs = (await fs.readdir(this.root)).sort();
+      for (const dir of dirs.slice(0, Math.max(0, dirs.length - MAX_BACKUPS))) {
+        await fs.rm(path.join(this.root, dir), { recursive: true, force: true });
+      }
+    } catch {
+      // 清理失败不影响本次备份
+    }
+  }
+}
+
+/**
+ * 操作完成后的提示，提供撤销（从备份恢复）与打开备份目录
+ */
+export async function showBackupResult(
+  store: BackupStore,
+  backup: Backup,
+  message: string,
+) {
+  const undo = vscode.l10n.t("Undo");
+  const reveal = vscode.l10n.t("Show Backup");
+  const choice = await vscode.window.showInformationMessage(message, undo, reveal);
+  if (choice === undo) {
+    await store.restore(backup);
+  } else if (choice === reveal) {
+    await vscode.commands.executeCommand(
+      "revealFileInOS",
+      vscode.Uri.file(path.join(backup.dir, MANIFEST)),
+    );
+  }
+}
@@ -0,0 +1,131 @@
+import * as vscode from "vscode";
+import { AssetCategory } from "../types";
+
+/**
+ * 内置资源类型及其默认扩展名，ResourceType 由此推导
+ */
+const BUILTIN_TYPES = {
+  image: ["png", "jpg", "jpeg", "gif", "webp", "avif", "bmp", "svg", "ico"],
+  audio: ["mp3", "wav", "aac", "flac", "ogg", "m4a", "wma", "opus"],
+  video: ["mp4", "avi", "mov", "mkv", "wmv", "flv", "webm", "m4v", "mpg", "3gp"],
+  font: ["woff", "woff2", "ttf", "otf", "tff"],
+  office: ["pdf", "doc", "docx", "xls", "xlsx", "ppt", "pptx"],
+  other: [
+    "txt", "csv", "json", "xml", "yaml", "yml", "psd", "ai", "eps",
+    "sketch", "fig", "zip", "rar", "7z", "map",
+  ],
+};
+
+export type ResourceType = keyof typeof BUILTIN_TYPES;
+
+/**
+ * 内置分类，顺序与前端 TabBar 一致；
+ * 用户追加到内置分类的扩展名使用 types 中的第一个类型
+ */
+const BUILTIN_CATEGORIES = [
+  { id: "images", types: ["image"] },
+  { id: "media", types: ["video", "audio"] },
+  { id: "fonts", types: ["font"] },
+  { id: "office", types: ["office"] },
+  { id: "others", types: ["other"] },
+] as const satisfies readonly { id: string; types: readonly ResourceType[] }[];
+
+export type BuiltinCategory = (typeof BUILTIN_CATEGORIES)[number]["id"];
+
+/** assetManage.categories 中单个分类的配置 */
+interface CategoryConfig {
+  label?: string;
+  icon?: string;
+  extensions?: string[];
+}
+
+export interface CategoryDefinition {
+  id: AssetCategory;
+  /** 自定义分类的显示名称，内置分类由前端按语言翻译 */
+  label?: string;
+  icon?: string;
+  builtin: boolean;
+  extensions: string[];
+}
+
+interface Registry {
+  categories: CategoryDefinition[];
+  byExt: Map<string, { category: AssetCategory; type: ResourceType }>;
+}
+
+let registry: Registry | undefined;
+
+/**
+ * 分类注册表：内置分类 + assetManage.categories 中的扩展名映射与自定义分类。
+ * 同一扩展名以配置为准，自定义分类排在「其他」之前
+ */
+function getRegistry(): Registry {
+  if (registry) return registry;
+
+  const byExt = new Map<string, { category: AssetCategory; type: ResourceType }>();
+  const builtin: CategoryDefinition[] = BUILTIN_CATEGORIES.map(({ id, types }) => {
+    for (const type of types) {
+      BUILTIN_TYPES[type].forEach((ext) => byExt.set(ext, { category: id, type }));
+    }
+    return { id, builtin: true, extensions: [] };
+  });
+  const custom: CategoryDefinition[] = [];
+
+  const config =
+    vscode.workspace
+      .getConfiguration("assetManage")
+      .get<Record<string, CategoryConfig>>("categories") ?? {};
+  for (const [id, options] of Object.entries(config)) {
+    if (!id || !options || !Array.isArray(options.extensions)) continue;
+    const known = BUILTIN_CATEGORIES.find((c) => c.id === id);
+    let definition = builtin.find((c) => c.id === id);
+    if (!definition) {
+      definition = { id, builtin: false, extensions: [] };
+      custom.push(definition);
+    }
+    definition.label = options.label || definition.label;
+    definition.icon = options.icon || definition.icon;
+
+    const type: ResourceType = known ? known.types[0] : "other";
+    for (const ext of options.extensions) {
+      const normalized = normalizeExt(ext);
+      if (normalized) byExt.set(normalized, { category: id, type });
+    }
+  }
+
+  const categories = [...builtin.slice(0, -1), ...custom, builtin[builtin.length - 1]];
+  for (const [ext, { category }] of byExt) {
+    categories.find((c) => c.id === category)?.extensions.push(ext);
+  }
+
+  registry = { categories, byExt };
+  return registry;
+}
+
+/**
+ * 配置变更后丢弃缓存，下次访问时重新读取
+ */
+export function resetCategoryRegistry() {
+  registry = undefined;
+}
+
+/** 全部分类（含自定义分类），顺序即 TabBar 顺序 */
+export function getCategories(): CategoryDefinition[] {
+  return getRegistry().categories;
+}
+
+/** 所有参与扫描的扩展名（小写，不带点） */
+export function getResourceExtensions(): string[] {
+  return Array.from(getRegistry().byExt.keys());
+}
+
+/**
+ * 按扩展名查找所属分类与资源类型，未登记的扩展名返回 undefined
+ */
+export function lookupExtension(ext: string) {
+  return getRegistry().byExt.get(normalizeExt(ext));
+}
+
+function normalizeExt(ext: string) {
+  return ext.trim().replace(/^\./, "").toLowerCase();
+}
@@ -0,0 +1,125 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { statSafe } from "../utils/fsUtils";
+import { log } from "../utils/logger";
+
+/** 无法解析字体字符集时使用的默认预览字符 */
+export const FONT_CHARSET =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789`~!@#$%^&*()_+-=[]{};:'\",.<>?/\\|一二三四五六七八九十春夏秋冬東南西北风雨雷电云山海川湖田木林森花草鸟鱼虫日月星辰天地人和";
+
+const fontCharsetCache = new Map<string, string>();
+
+export async function extractFontCharsetFromSources(
+  sources: vscode.Uri[],
+): Promise<string | undefined> {
+  if (!sources.length) return undefined;
+
+  try {
+    for (const src of sources) {
+      const stat = await statSafe(src);
+      if (!stat) continue;
+
+      // 缓存key包含文件路径和修改时间，确保文件变更后缓存失效
+      const cacheKey = `${src.fsPath}|${stat.mtime.getTime()}`;
+      const cached = fontCharsetCache.get(cacheKey);
+      if (cached) return cached;
+
+      const mod = await import("fontkit");
+      const fontkit = (mod as any).default ?? (mod as any);
+      const font = await fontkit.open(src.fsPath);
+
+      let codePoints: number[] = [];
+
+      // 尝试多种方法获取字符集
+      try {
+        // 方法1: 使用 characterSet 属性（适用于大多数字体）
+        if (font.characterSet && font.characterSet.length > 0) {
+          codePoints = font.characterSet;
+        } else {
+          // 方法2: 手动遍历 cmap 表获取字符映射
+          const cmap = font.characterToGlyphIndexMap;
+          if (cmap) {
+            codePoints = Object.keys(cmap)
+              .map((k) => parseInt(k, 10))
+              .filter((cp) => cp > 0);
+          }
+        }
+
+        // 方法3: 如果是复合字体（TTC），尝试获取所有子字体的字符集
+        if (codePoints.length === 0 && font.fonts) {
+          for (const subFont of font.fonts) {
+            if (subFont.characterSet && subFont.characterSet.length > 0) {
+              codePoints = codePoints.concat(subFont.characterSet);
+            }
+          }
+          // 去重
+          codePoints = Array.from(new Set(codePoints));
+        }
+      } catch (cmapErr) {
+        log(`解析字体字符映射表失败: ${cmapErr}`);
+      }
+
+      if (codePoints.length === 0) {
+        log(`无法从字体文件获取字符集: ${src.fsPath}`);
+        continue;
+      }
+
+      const chars: string[] = [];
+      for (const cp of codePoints) {
+        // 放宽字符过滤条件，包含更多字符
+        if (cp > 0x10ffff) continue; // 超出 Unicode 范围
+
+        try {
+          const ch = String.fromCodePoint(cp);
+          // 只过滤掉控制字符（除了空格和换行）
+          if (cp < 32 && cp !== 9 && cp !== 10 && cp !== 13 && cp !== 32)
+            continue;
+          chars.push(ch);
+        } catch (err) {
+          // 忽略无效的码点
+          log(`无效码点 ${cp}: ${err}`);
+        }
+      }
+
+      // 对字符进行排序，便于查看常用字符
+      const sortedChars = chars.sort((a, b) => {
+        const aCode = a.codePointAt(0) || 0;
+        const bCode = b.codePointAt(0) || 0;
+        return aCode - bCode;
+      });
+
+      const unique = Array.from(new Set(sortedChars)).join("");
+      fontCharsetCache.set(cacheKey, unique);
+      return unique;
+    }
+  } catch (err) {
+    log(`字体字符集解析失败: ${err}`);
+  }
+
+  return undefined;
+}
+
+export async function getFontFamilyFromFile(
+  uri: vscode.Uri,
+): Promise<string | undefined> {
+  try {
+    // 确保文件存在
+    const stat = await statSafe(uri);
+    if (!stat) {
+      return undefined;
+    }
+
+    const mod = await import("fontkit");
+    const fontkit = (mod as any).default ?? (mod as any);
+    const font = fontkit.openSync(uri.fsPath);
+    return (
+      font.familyName ||
+      font.fullName ||
+      font.postscriptName ||
+      path.basename(uri.fsPath, path.extname(uri.fsPath))
+    );
+  } catch (err) {
+    log(`读取字体名称失败 ${uri.fsPath}: ${err}`);
+    return undefined;
+  }
+}
@@ -0,0 +1,47 @@
+import { parentPort } from "worker_threads";
+import { createReadStream, promises as fs } from "fs";
+import { createHash } from "crypto";
+import { XXHash32 } from "../utils/xxhash32";
+import { decodeImage } from "./imageCodecs";
+import { differenceHash } from "./perceptualHash";
+import type { HashAlgorithm } from "./hashing";
+
+/**
+ * 哈希工作线程：流式读取文件，避免大文件一次性读入内存并阻塞扩展主线程
+ */
+interface HashRequest {
+  id: number;
+  filePath: string;
+  algorithm: HashAlgorithm | "perceptual";
+}
+
+function hashFile(filePath: string, algorithm: HashAlgorithm) {
+  return new Promise<string>((resolve, reject) => {
+    const hash =
+      algorithm === "xxhash32" ? new XXHash32() : createHash(algorithm);
+    createReadStream(filePath, { highWaterMark: 1024 * 1024 })
+      .on("data", (chunk) => hash.update(chunk as Buffer))
+      .on("error", reject)
+      .on("end", () =>
+        resolve(hash instanceof XXHash32 ? hash.digest() : hash.digest("hex")),
+      );
+  });
+}
+
+/** 感知哈希需要解码整张图片，同样放在工作线程中进行 */
+async function perceptualHash(filePath: string) {
+  const image = await decodeImage(await fs.readFile(filePath));
+  return image && differenceHash(image);
+}
+
+parentPort?.on("message", async ({ id, filePath, algorithm }: HashRequest) => {
+  try {
+    const hash =
+      algorithm === "perceptual"
+        ? await perceptualHash(filePath)
+        : await hashFile(filePath, algorithm);
+    parentPort?.postMessage({ id, hash });
+  } catch (err) {
+    parentPort?.postMessage({ id, error: String(err) });
+  }
+});
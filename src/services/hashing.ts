@@ -0,0 +1,150 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { Worker } from "worker_threads";
+import { error } from "../utils/logger";
+
+export type HashAlgorithm = "md5" | "sha1" | "sha256" | "xxhash32";
+
+interface HashTask {
+  id: number;
+  filePath: string;
+  /** perceptual 为图片的感知哈希（dHash），需要解码像素 */
+  algorithm: HashAlgorithm | "perceptual";
+  resolve: (hash: string | undefined) => void;
+}
+
+/**
+ * 读取哈希相关配置
+ */
+export function getHashConfig() {
+  const config = vscode.workspace.getConfiguration("assetManage");
+  return {
+    algorithm: config.get<HashAlgorithm>("hashAlgorithm") ?? "md5",
+    concurrency: Math.max(1, config.get<number>("hashConcurrency") ?? 2),
+  };
+}
+
+/**
+ * 固定并发数的哈希线程池：任务排队，由 worker_threads 流式计算，
+ * 扫描大图目录时不再阻塞扩展主线程
+ */
+export class HashPool implements vscode.Disposable {
+  private workers: Worker[] = [];
+  private idle: Worker[] = [];
+  private running = new Map<Worker, HashTask>();
+  private queue: HashTask[] = [];
+  private nextId = 0;
+
+  constructor(private concurrency: number) {}
+
+  /**
+   * 调整并发数：排队与进行中的任务不受影响，多余的线程在完成当前任务后退出
+   */
+  setConcurrency(concurrency: number) {
+    this.concurrency = concurrency;
+    while (this.workers.length > this.concurrency && this.idle.length) {
+      this.retire(this.idle.pop()!);
+    }
+    this.pump();
+  }
+
+  /**
+   * 计算文件哈希，读取失败时返回 undefined
+   */
+  hash(filePath: string, algorithm: HashAlgorithm) {
+    return new Promise<string | undefined>((resolve) => {
+      this.queue.push({ id: this.nextId++, filePath, algorithm, resolve });
+      this.pump();
+    });
+  }
+
+  /**
+   * 计算图片的感知哈希，格式不支持或解码失败时返回 undefined
+   */
+  perceptualHash(filePath: string) {
+    return new Promise<string | undefined>((resolve) => {
+      this.queue.push({ id: this.nextId++, filePath, algorithm: "perceptual", resolve });
+      this.pump();
+    });
+  }
+
+  dispose() {
+    this.workers.forEach((worker) => worker.terminate());
+    this.workers = [];
+    this.idle = [];
+    this.running.forEach((task) => task.resolve(undefined));
+    this.running.clear();
+    this.queue.forEach((task) => task.resolve(undefined));
+    this.queue = [];
+  }
+
+  private pump() {
+    while (this.queue.length) {
+      const worker =
+        this.idle.pop() ??
+        (this.workers.length < this.concurrency ? this.spawn() : undefined);
+      if (!worker) return;
+      const task = this.queue.shift()!;
+      this.running.set(worker, task);
+      worker.postMessage({
+        id: task.id,
+        filePath: task.filePath,
+        algorithm: task.algorithm,
+      });
+    }
+  }
+
+  private spawn() {
+    const worker = new Worker(path.join(__dirname, "hashWorker.js"));
+    this.workers.push(worker);
+
+    worker.on("message", (result: { id: number; hash?: string; error?: string }) => {
+      const task = this.running.get(worker);
+      this.running.delete(worker);
+      if (result.error) {
+        error(
+          `计算${task?.algorithm === "perceptual" ? "感知" : "文件"}哈希失败: ${task?.filePath}`,
+          result.error,
+        );
+      }
+      task?.resolve(result.hash);
+      if (this.workers.length > this.concurrency) {
+        this.retire(worker);
+      } else {
+        this.idle.push(worker);
+      }
+      this.pump();
+    });
+
+    // 线程异常退出时结束当前任务并移出线程池，后续任务会重新创建线程
+    worker.on("error", (err) => {
+      error("哈希线程异常", err);
+      this.discard(worker);
+    });
+    // OOM 或 codec 内部调用 process.exit 时不会触发 error，只有 exit
+    worker.on("exit", (code) => {
+      if (!this.workers.includes(worker)) return;
+      error(`哈希线程意外退出，退出码 ${code}`);
+      this.discard(worker);
+    });
+
+    return worker;
+  }
+
+  /**
+   * 把异常的线程移出线程池，进行中的任务按失败结束
+   */
+  private discard(worker: Worker) {
+    this.running.get(worker)?.resolve(undefined);
+    this.running.delete(worker);
+    this.workers = this.workers.filter((w) => w !== worker);
+    this.idle = this.idle.filter((w) => w !== worker);
+    this.pump();
+  }
+
+  private retire(worker: Worker) {
+    this.workers = this.workers.filter((w) => w !== worker);
+    this.idle = this.idle.filter((w) => w !== worker);
+    void worker.terminate();
+  }
+}
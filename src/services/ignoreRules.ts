@@ -0,0 +1,119 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { promises as fs } from "fs";
+import fg from "fast-glob";
+import ignore, { Ignore } from "ignore";
+import { log } from "../utils/logger";
+import { IgnoreReason } from "../types";
+
+/** 与 .gitignore 语法相同、仅作用于资源扫描的忽略文件 */
+export const ASSET_IGNORE_FILE = ".assetignore";
+export const GIT_IGNORE_FILE = ".gitignore";
+
+interface RuleFile {
+  /** 规则文件所在目录（相对工作区，posix 分隔符，根目录为空字符串） */
+  dir: string;
+  /** 规则文件路径（相对工作区），用于展示排除原因 */
+  source: string;
+  matcher: Ignore;
+}
+
+/**
+ * 单个工作区文件夹的忽略规则：嵌套的 .gitignore（可选）与 .assetignore，
+ * 语义与 git 一致——越深的规则文件优先级越高，支持 ! 取反；
+ * .assetignore 在 .gitignore 之后生效，可覆盖其结果
+ */
+export class IgnoreRules {
+  private constructor(
+    private readonly root: string,
+    private readonly files: RuleFile[],
+  ) {}
+
+  static async load(workspace: vscode.WorkspaceFolder): Promise<IgnoreRules> {
+    const root = workspace.uri.fsPath;
+    const config = vscode.workspace.getConfiguration("assetManage", workspace.uri);
+    const names = config.get<boolean>("respectGitignore", true)
+      ? [GIT_IGNORE_FILE, ASSET_IGNORE_FILE]
+      : [ASSET_IGNORE_FILE];
+
+    const files: RuleFile[] = [];
+    for (const name of names) {
+      const sources = await fg([`**/${name}`], {
+        cwd: root,
+        ignore: ["**/node_modules/**", "**/.git/**"],
+        dot: true,
+        onlyFiles: true,
+        suppressErrors: true,
+      });
+      // 由浅到深排列，check 时后面的规则覆盖前面的
+      sources.sort((a, b) => a.split("/").length - b.split("/").length);
+      for (const source of sources) {
+        const rules = await readRuleFile(path.join(root, source));
+        if (!rules) continue;
+        const dir = path.posix.dirname(source);
+        files.push({ dir: dir === "." ? "" : dir, source, matcher: rules });
+      }
+    }
+
+    if (files.length) {
+      log(`🙈 已加载 ${files.length} 个忽略规则文件：${workspace.name}`);
+    }
+    return new IgnoreRules(root, files);
+  }
+
+  /**
+   * 判断文件是否被忽略，被忽略时返回命中的规则，否则返回 undefined
+   */
+  check(fsPath: string): IgnoreReason | undefined {
+    const relative = path.relative(this.root, fsPath).split(path.sep).join("/");
+    let reason: IgnoreReason | undefined;
+
+    for (const file of this.files) {
+      if (file.dir && !relative.startsWith(file.dir + "/")) continue;
+      const result = file.matcher.test(
+        file.dir ? relative.slice(file.dir.length + 1) : relative,
+      );
+      if (result.ignored && result.rule) {
+        reason = {
+          source: file.source,
+          line: Number(result.rule.mark),
+          pattern: result.rule.pattern,
+        };
+      } else if (result.unignored) {
+        reason = undefined;
+      }
+    }
+    return reason;
+  }
+}
+
+/**
+ * 判断文件是否为正在生效的忽略规则文件，规则文件变化时需要重新扫描；
+ * 关闭 respectGitignore 时 .gitignore 不参与扫描，修改它无需重建
+ */
+export function isIgnoreFile(fsPath: string) {
+  const name = path.basename(fsPath);
+  if (name === ASSET_IGNORE_FILE) return true;
+  return (
+    name === GIT_IGNORE_FILE &&
+    vscode.workspace
+      .getConfiguration("assetManage", vscode.Uri.file(fsPath))
+      .get<boolean>("respectGitignore", true)
+  );
+}
+
+async function readRuleFile(file: string): Promise<Ignore | undefined> {
+  try {
+    const content = await fs.readFile(file, "utf8");
+    const matcher = ignore();
+    content.split(/\r?\n/).forEach((line, index) => {
+      // 空行与注释不会命中任何文件，跳过即可；逐行添加以便记录行号
+      if (!line.trim() || line.startsWith("#")) return;
+      matcher.add({ pattern: line, mark: String(index + 1) });
+    });
+    return matcher;
+  } catch (err) {
+    log(`读取忽略规则失败 ${file}: ${err}`);
+    return undefined;
+  }
+}
@@ -0,0 +1,149 @@
+import * as path from "path";
+import { promises as fs } from "fs";
+import { sniffBuffer } from "./sniff";
+
+/** 解码后的 RGBA 像素 */
+export interface RawImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+/** 可编码的目标格式 */
+export type EncodeFormat = "png" | "jpg" | "webp" | "avif";
+
+/** @jsquash 中的一个编解码入口与对应的 wasm 文件 */
+interface CodecSpec {
+  pkg: string;
+  entry: string;
+  wasm: string;
+  /** emscripten 构建通过 wasmBinary 传入，wasm-bindgen 构建直接传入字节 */
+  emscripten: boolean;
+  /** 初始化函数的导出名，默认为 init */
+  init?: string;
+}
+
+interface CodecModule {
+  default(...args: unknown[]): Promise<any>;
+  [name: string]: (...args: any[]) => Promise<any>;
+}
+
+const DECODERS: Record<string, CodecSpec> = {
+  png: { pkg: "@jsquash/png", entry: "decode.js", wasm: "codec/pkg/squoosh_png_bg.wasm", emscripten: false },
+  jpg: { pkg: "@jsquash/jpeg", entry: "decode.js", wasm: "codec/dec/mozjpeg_dec.wasm", emscripten: true },
+  webp: { pkg: "@jsquash/webp", entry: "decode.js", wasm: "codec/dec/webp_dec.wasm", emscripten: true },
+  avif: { pkg: "@jsquash/avif", entry: "decode.js", wasm: "codec/dec/avif_dec.wasm", emscripten: true },
+};
+
+const ENCODERS: Record<EncodeFormat, CodecSpec> = {
+  png: { pkg: "@jsquash/png", entry: "encode.js", wasm: "codec/pkg/squoosh_png_bg.wasm", emscripten: false },
+  jpg: { pkg: "@jsquash/jpeg", entry: "encode.js", wasm: "codec/enc/mozjpeg_enc.wasm", emscripten: true },
+  // Node 16.4 起支持 wasm SIMD，编码器会选择 SIMD 构建
+  webp: { pkg: "@jsquash/webp", entry: "encode.js", wasm: "codec/enc/webp_enc_simd.wasm", emscripten: true },
+  // Node 中使用单线程构建
+  avif: { pkg: "@jsquash/avif", entry: "encode.js", wasm: "codec/enc/avif_enc.wasm", emscripten: true },
+};
+
+const OXIPNG: CodecSpec = {
+  pkg: "@jsquash/oxipng",
+  entry: "optimise.js",
+  wasm: "codec/pkg/squoosh_oxipng_bg.wasm",
+  emscripten: false,
+};
+
+const RESIZE: CodecSpec = {
+  pkg: "@jsquash/resize",
+  entry: "index.js",
+  wasm: "lib/resize/pkg/squoosh_resize_bg.wasm",
+  emscripten: false,
+  init: "initResize",
+};
+
+// tsc 输出 commonjs 时会把 import() 转成 require()，而 @jsquash 只提供 ES 模块
+const importEsm = new Function("specifier", "return import(specifier)") as (
+  specifier: string,
+) => Promise<unknown>;
+
+const loaded = new Map<string, Promise<CodecModule>>();
+
+/** 按需加载并初始化编解码模块，每个线程只初始化一次 */
+function loadCodec({ pkg, entry, wasm, emscripten, init = "init" }: CodecSpec) {
+  const key = `${pkg}/${entry}`;
+  let codec = loaded.get(key);
+  if (!codec) {
+    codec = (async () => {
+      // 解码结果以 ImageData 返回，Node 中没有该全局类
+      (globalThis as any).ImageData ??= class ImageData {
+        constructor(
+          public data: Uint8ClampedArray,
+          public width: number,
+          public height: number,
+        ) {}
+      };
+      const dir = path.dirname(require.resolve(`${pkg}/package.json`));
+      const module = (await importEsm(`${pkg}/${entry}`)) as CodecModule;
+      const binary = await fs.readFile(path.join(dir, wasm));
+      await module[init](emscripten ? { wasmBinary: binary } : binary);
+      return module;
+    })();
+    // 初始化失败时允许下次重试
+    codec.catch(() => loaded.delete(key));
+    loaded.set(key, codec);
+  }
+  return codec;
+}
+
+function toArrayBuffer(buf: Buffer) {
+  return buf.buffer.slice(buf.byteOffset, buf.byteOffset + buf.byteLength) as ArrayBuffer;
+}
+
+/** 按文件头识别的格式（sniffBuffer 的结果）是否可以解码为像素 */
+export function canDecode(format?: string) {
+  return !!format && format in DECODERS;
+}
+
+/**
+ * 解码 PNG/JPEG/WebP/AVIF 为 RGBA 像素，格式不支持或解码失败时返回 undefined；
+ * options 为解码器参数，如 JPEG 的 preserveOrientation（按 EXIF 方向旋转像素）
+ */
+export async function decodeImage(
+  buf: Buffer,
+  options: Record<string, unknown> = {},
+): Promise<RawImage | undefined> {
+  const format = sniffBuffer(buf);
+  if (!format || !canDecode(format)) return undefined;
+  try {
+    const decoder = await loadCodec(DECODERS[format]);
+    return (await decoder.default(toArrayBuffer(buf), options)) ?? undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 将像素编码为 PNG、JPEG（mozjpeg）、WebP 或 AVIF，options 为对应编码器的参数（如 quality、lossless）
+ */
+export async function encodeImage(
+  image: RawImage,
+  format: EncodeFormat,
+  options: Record<string, number> = {},
+) {
+  const encoder = await loadCodec(ENCODERS[format]);
+  return Buffer.from(await encoder.default(image, options));
+}
+
+/**
+ * 用 oxipng 无损优化 PNG（重新选择滤波与压缩参数，去除冗余块）
+ */
+export async function optimizePng(buf: Buffer, level = 2) {
+  const oxipng = await loadCodec(OXIPNG);
+  return Buffer.from(await oxipng.default(toArrayBuffer(buf), { level }));
+}
+
+/**
+ * 用 Lanczos3 缩放像素到指定尺寸（在线性 RGB 中插值，透明像素预乘后处理）
+ */
+export async function resizePixels(image: RawImage, width: number, height: number): Promise<RawImage> {
+  const resize = await loadCodec(RESIZE);
+  return resize.default(image, { width, height });
+}
@@ -0,0 +1,175 @@
+import { decodeImage, encodeImage, optimizePng, resizePixels } from "./imageCodecs";
+import { imageInfoFromBuffer } from "./imageInfo";
+import { stripMetadataBuffer } from "./metadataStrip";
+import { sniffBuffer } from "./sniff";
+import { optimizeSvg } from "./svgInspector";
+
+export interface CompressOptions {
+  /** JPEG 重新编码的质量（1–100） */
+  jpegQuality: number;
+  /** 有损 WebP 重新编码的质量（1–100），无损 WebP 保持无损 */
+  webpQuality: number;
+}
+
+/** 可以压缩的格式（按文件头识别的结果） */
+export const COMPRESSIBLE_FORMATS = ["png", "jpg", "webp", "gif", "svg"];
+
+/** 格式转换的目标格式 */
+export type ConvertFormat = "webp" | "avif";
+
+/**
+ * 重新压缩图片：PNG 用 oxipng 无损优化，JPEG 与有损 WebP 按质量重新编码，
+ * 无损 WebP 以无损模式重新编码，GIF 去除注释与应用扩展，SVG 用 svgo 优化。
+ * 结果不比原文件小、格式不支持或为动画（APNG/动画 WebP）时返回 undefined
+ */
+export async function compressImage(buf: Buffer, options: CompressOptions) {
+  const format = sniffBuffer(buf);
+  let result: Buffer | undefined;
+  switch (format) {
+    case "png":
+      if (isAnimated(buf)) return undefined;
+      result = await optimizePng(buf);
+      break;
+    case "jpg":
+      result = await compressJpeg(buf, options.jpegQuality);
+      break;
+    case "webp":
+      if (isAnimated(buf)) return undefined;
+      result = await compressWebp(buf, options.webpQuality);
+      break;
+    case "gif":
+      result = stripGifExtensions(buf);
+      break;
+    case "svg":
+      result = Buffer.from(optimizeSvg(buf.toString("utf8")));
+      break;
+  }
+  return result && result.length < buf.length ? result : undefined;
+}
+
+/**
+ * 把 PNG/JPEG 转换为 WebP 或 AVIF。新文件不含 EXIF，因此 JPEG 先按方向旋转像素；
+ * 格式不支持或为 APNG 时返回 undefined
+ */
+export async function convertImage(buf: Buffer, format: ConvertFormat, quality: number) {
+  const source = sniffBuffer(buf);
+  if ((source !== "png" && source !== "jpg") || (source === "png" && isAnimated(buf))) {
+    return undefined;
+  }
+  const image = await decodeImage(buf, { preserveOrientation: true });
+  if (!image) return undefined;
+  return encodeImage(image, format, { quality });
+}
+
+/**
+ * 按宽度等比缩放 PNG/JPEG/WebP/AVIF 并以原格式重新编码：PNG 再经 oxipng 优化，
+ * 无损 WebP 保持无损，其余按 quality 编码；新文件不含 EXIF，因此 JPEG 先按方向旋转像素。
+ * 格式不支持或为动画时返回 undefined
+ */
+export async function scaleImage(buf: Buffer, width: number, quality: number) {
+  const format = sniffBuffer(buf);
+  if (format !== "png" && format !== "jpg" && format !== "webp" && format !== "avif") {
+    return undefined;
+  }
+  if ((format === "png" || format === "webp") && isAnimated(buf)) return undefined;
+  const image = await decodeImage(buf, { preserveOrientation: true });
+  if (!image) return undefined;
+  const height = Math.max(1, Math.round((image.height * width) / image.width));
+  const scaled = await resizePixels(image, width, height);
+  if (format === "png") return optimizePng(await encodeImage(scaled, "png"));
+  const lossless = format === "webp" && isLosslessWebp(buf);
+  return encodeImage(scaled, format, lossless ? { lossless: 1 } : { quality });
+}
+
+function isAnimated(buf: Buffer) {
+  return imageInfoFromBuffer(buf)?.frames !== 1;
+}
+
+/**
+ * 重新编码 JPEG；解码时不旋转像素，并把原图的 ICC 配置与 EXIF 方向放回新文件
+ */
+async function compressJpeg(buf: Buffer, quality: number) {
+  // CMYK JPEG 转为 RGB 后颜色会变化
+  if (imageInfoFromBuffer(buf)?.colorSpace === "CMYK") return undefined;
+  const image = await decodeImage(buf);
+  if (!image) return undefined;
+  const encoded = await encodeImage(image, "jpg", { quality });
+  const kept = jpegAppSegments(stripMetadataBuffer(buf) ?? buf);
+  if (!kept.length) return encoded;
+  // 新文件以 SOI + APP0（JFIF）开头，保留的段插在 APP0 之后
+  const app0End = encoded[3] === 0xe0 ? 4 + encoded.readUInt16BE(4) : 2;
+  return Buffer.concat([encoded.subarray(0, app0End), ...kept, encoded.subarray(app0End)]);
+}
+
+/** 去除元数据后剩下的 APP1（方向）与 APP2（ICC）段 */
+function jpegAppSegments(buf: Buffer) {
+  const segments: Buffer[] = [];
+  let offset = 2;
+  while (offset + 4 <= buf.length && buf[offset] === 0xff) {
+    const marker = buf[offset + 1];
+    if (marker < 0xe0 || marker > 0xef) break;
+    const end = offset + 2 + buf.readUInt16BE(offset + 2);
+    if (marker === 0xe1 || marker === 0xe2) segments.push(buf.subarray(offset, end));
+    offset = end;
+  }
+  return segments;
+}
+
+async function compressWebp(buf: Buffer, quality: number) {
+  const image = await decodeImage(buf);
+  if (!image) return undefined;
+  return encodeImage(image, "webp", isLosslessWebp(buf) ? { lossless: 1 } : { quality });
+}
+
+/** VP8L 为无损编码，扩展格式（VP8X）需查找其中的图像块 */
+function isLosslessWebp(buf: Buffer) {
+  const chunk = buf.toString("latin1", 12, 16);
+  if (chunk !== "VP8X") return chunk === "VP8L";
+  let offset = 30;
+  while (offset + 8 <= buf.length) {
+    const type = buf.toString("latin1", offset, offset + 4);
+    if (type === "VP8L") return true;
+    if (type === "VP8 ") return false;
+    const size = buf.readUInt32LE(offset + 4);
+    offset += 8 + size + (size % 2);
+  }
+  return false;
+}
+
+/**
+ * 去除 GIF 中的注释、纯文本与应用扩展（保留 NETSCAPE 循环次数），图像数据原样复制
+ */
+function stripGifExtensions(buf: Buffer) {
+  let offset = 13;
+  if (buf[10] & 0x80) offset += 3 * 2 ** ((buf[10] & 0x07) + 1);
+  const parts: Buffer[] = [buf.subarray(0, offset)];
+  const subBlocksEnd = (from: number) => {
+    let end = from;
+    while (end < buf.length && buf[end] !== 0) end += buf[end] + 1;
+    return end + 1;
+  };
+  while (offset < buf.length) {
+    const block = buf[offset];
+    if (block === 0x2c) {
+      const packed = buf[offset + 9];
+      let end = offset + 10;
+      if (packed & 0x80) end += 3 * 2 ** ((packed & 0x07) + 1);
+      end = subBlocksEnd(end + 1);
+      parts.push(buf.subarray(offset, end));
+      offset = end;
+    } else if (block === 0x21) {
+      const label = buf[offset + 1];
+      const end = subBlocksEnd(offset + 2);
+      const isLoop =
+        label === 0xff && buf.toString("latin1", offset + 3, offset + 14) === "NETSCAPE2.0";
+      // 0xF9 图形控制扩展包含帧延迟与透明色，必须保留
+      if (label === 0xf9 || isLoop) parts.push(buf.subarray(offset, end));
+      offset = end;
+    } else {
+      break;
+    }
+  }
+  // 文件尾（0x3B）及之后的内容
+  parts.push(buf.subarray(offset, offset + 1));
+  return Buffer.concat(parts);
+}
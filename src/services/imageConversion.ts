@@ -0,0 +1,167 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { promises as fs } from "fs";
+import { statSafe, toHumanSize } from "../utils/fsUtils";
+import { log } from "../utils/logger";
+import { addReferenceEdits } from "./assetRelocation";
+import type { ConvertFormat } from "./imageCompression";
+import { ImageProcessor } from "./imageProcessing";
+import { ReferenceIndex } from "./referenceIndex";
+
+/** 可以转换的源文件 */
+const CONVERTIBLE = /\.(png|jpe?g)$/i;
+
+interface Converted {
+  source: vscode.Uri;
+  target: vscode.Uri;
+  originalSize: number;
+  size: number;
+}
+
+/**
+ * 读取转换质量配置：WebP 与压缩共用 assetManage.webpQuality
+ */
+function getConvertQuality(format: ConvertFormat) {
+  const config = vscode.workspace.getConfiguration("assetManage");
+  return format === "webp"
+    ? config.get<number>("webpQuality", 80)
+    : config.get<number>("avifQuality", 50);
+}
+
+/**
+ * 把所选 PNG/JPEG 转换为 WebP 或 AVIF，新文件写在源文件旁。
+ * 可选删除原文件并改写源码中的引用，两者合并为一个 WorkspaceEdit，可整体撤销
+ */
+export async function convertImages(
+  processor: ImageProcessor,
+  referenceIndex: ReferenceIndex,
+  uris: vscode.Uri[],
+) {
+  const sources = uris.filter((uri) => CONVERTIBLE.test(uri.fsPath));
+  if (!sources.length) {
+    vscode.window.showInformationMessage(
+      vscode.l10n.t("Only PNG and JPEG images can be converted"),
+    );
+    return;
+  }
+
+  const title = vscode.l10n.t("Convert {0} image(s)", sources.length);
+  const formatPick = await vscode.window.showQuickPick(
+    (["webp", "avif"] as const).map((format) => ({
+      label: format.toUpperCase(),
+      description: vscode.l10n.t("Quality {0}", getConvertQuality(format)),
+      format,
+    })),
+    { title, placeHolder: vscode.l10n.t("Target format") },
+  );
+  if (!formatPick) return;
+  const { format } = formatPick;
+
+  const config = vscode.workspace.getConfiguration("assetManage");
+  const keepItem: vscode.QuickPickItem = {
+    label: vscode.l10n.t("Keep original files"),
+    picked: config.get<boolean>("convertKeepOriginal", true),
+  };
+  const referencesItem: vscode.QuickPickItem = {
+    label: vscode.l10n.t("Update references in source files"),
+    description: vscode.l10n.t("Rewrite paths to the new extension"),
+    picked: config.get<boolean>("convertUpdateReferences", true),
+  };
+  const options = await vscode.window.showQuickPick([keepItem, referencesItem], {
+    title,
+    canPickMany: true,
+  });
+  if (!options) return;
+  const keepOriginal = options.includes(keepItem);
+  const updateReferences = options.includes(referencesItem);
+
+  const quality = getConvertQuality(format);
+  const converted: Converted[] = [];
+  const skipped: string[] = [];
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: vscode.l10n.t("Converting images to {0}", format.toUpperCase()),
+      cancellable: true,
+    },
+    async (progress, token) => {
+      for (const source of sources) {
+        if (token.isCancellationRequested) break;
+        progress.report({
+          message: path.basename(source.fsPath),
+          increment: 100 / sources.length,
+        });
+        const target = vscode.Uri.file(
+          source.fsPath.replace(/\.[^.\\/]+$/, `.${format}`),
+        );
+        // 不覆盖已存在的同名文件
+        if (await statSafe(target)) {
+          skipped.push(path.basename(target.fsPath));
+          continue;
+        }
+        try {
+          const data = await processor.run({
+            kind: "convert",
+            filePath: source.fsPath,
+            format,
+            quality,
+          });
+          if (!data) {
+            skipped.push(path.basename(source.fsPath));
+            continue;
+          }
+          await fs.writeFile(target.fsPath, data);
+          const originalSize = (await fs.stat(source.fsPath)).size;
+          converted.push({ source, target, originalSize, size: data.length });
+        } catch (err) {
+          log(`❌ 转换失败 ${source.fsPath}：${err instanceof Error ? err.message : err}`);
+          skipped.push(path.basename(source.fsPath));
+        }
+      }
+    },
+  );
+
+  if (skipped.length) {
+    vscode.window.showWarningMessage(
+      vscode.l10n.t("Skipped {0} image(s): {1}", skipped.length, skipped.join(", ")),
+    );
+  }
+  if (!converted.length) return;
+
+  let references = 0;
+  if (updateReferences || !keepOriginal) {
+    const edit = new vscode.WorkspaceEdit();
+    for (const { source, target } of converted) {
+      if (updateReferences) {
+        references += await addReferenceEdits(edit, referenceIndex, source, target);
+      }
+      if (!keepOriginal) {
+        edit.deleteFile(source, { ignoreIfNotExists: true }, {
+          label: vscode.l10n.t("Delete original image"),
+          needsConfirmation: false,
+        });
+      }
+    }
+    const applied = await vscode.workspace.applyEdit(edit, { isRefactoring: true });
+    if (!applied) {
+      log(`⚠️ 引用改写未应用，已保留原图片`);
+      references = 0;
+    }
+  }
+
+  const before = converted.reduce((sum, item) => sum + item.originalSize, 0);
+  const after = converted.reduce((sum, item) => sum + item.size, 0);
+  log(
+    `🔁 已转换 ${converted.length} 张图片为 ${format.toUpperCase()}：${toHumanSize(before)} → ${toHumanSize(after)}，改写 ${references} 处引用`,
+  );
+  vscode.window.showInformationMessage(
+    vscode.l10n.t(
+      "Converted {0} image(s) to {1}: {2} → {3}, {4} reference(s) updated",
+      converted.length,
+      format.toUpperCase(),
+      toHumanSize(before),
+      toHumanSize(after),
+      references,
+    ),
+  );
+}
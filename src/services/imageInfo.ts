@@ -0,0 +1,356 @@
+import { promises as fs } from "fs";
+import { ImageInfo } from "../types";
+
+/** 首次读取的文件头大小，JPEG 的 SOF 段可能位于较大的 EXIF 之后，需要继续读取 */
+const HEADER_SIZE = 64 * 1024;
+const MAX_JPEG_SCAN = 1024 * 1024;
+
+/** 统计动图帧数需要遍历整个文件，超过该大小时不统计 */
+const MAX_FRAME_SCAN = 32 * 1024 * 1024;
+
+/**
+ * 从文件头解析图片信息：尺寸、位深、透明通道、色彩空间、动图帧数与 SVG viewBox，
+ * 支持 PNG/APNG、JPEG、GIF、WebP、AVIF/HEIC、BMP、ICO、PSD、SVG，无法识别时返回 undefined
+ */
+export async function readImageInfo(fsPath: string): Promise<ImageInfo | undefined> {
+  let handle: fs.FileHandle | undefined;
+  try {
+    handle = await fs.open(fsPath, "r");
+    const { size: fileSize } = await handle.stat();
+    let size = HEADER_SIZE;
+    for (;;) {
+      const header = await readAt(handle, size);
+      const info = imageInfoFromBuffer(header);
+      if (info || header.length < size || !isJpeg(header) || size >= MAX_JPEG_SCAN) {
+        if (info && needsFrameScan(header) && fileSize <= MAX_FRAME_SCAN) {
+          info.frames = countFrames(await readAt(handle, fileSize));
+        }
+        return info;
+      }
+      size *= 4;
+    }
+  } catch {
+    return undefined;
+  } finally {
+    await handle?.close();
+  }
+}
+
+export function imageInfoFromBuffer(buf: Buffer): ImageInfo | undefined {
+  const ascii = (start: number, end: number) => buf.toString("latin1", start, end);
+  if (buf.length < 16) return svgInfo(buf);
+
+  if (buf.readUInt32BE(0) === 0x89504e47 && ascii(12, 16) === "IHDR") return pngInfo(buf);
+  if (ascii(0, 4) === "GIF8") return gifInfo(buf);
+  if (ascii(0, 2) === "BM") return bmpInfo(buf);
+  if (ascii(0, 4) === "8BPS") return psdInfo(buf);
+  if (buf.readUInt32BE(0) === 0x00000100) return icoInfo(buf);
+  if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") return webpInfo(buf);
+  if (isJpeg(buf)) return jpegInfo(buf);
+  if (ascii(4, 8) === "ftyp") return heifInfo(buf);
+  return svgInfo(buf);
+}
+
+async function readAt(handle: fs.FileHandle, length: number) {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, 0);
+  return buffer.subarray(0, bytesRead);
+}
+
+function isJpeg(buf: Buffer) {
+  return buf[0] === 0xff && buf[1] === 0xd8;
+}
+
+/** GIF 与动画 WebP 的帧数需要遍历整个文件 */
+function needsFrameScan(buf: Buffer) {
+  const ascii = buf.toString("latin1", 0, 16);
+  if (ascii.startsWith("GIF8")) return true;
+  return ascii.startsWith("RIFF") && ascii.slice(12, 16) === "VP8X" && (buf[20] & 0x02) !== 0;
+}
+
+function countFrames(buf: Buffer) {
+  return buf.toString("latin1", 0, 4) === "GIF8" ? countGifFrames(buf) : countWebpFrames(buf);
+}
+
+function sized(
+  width: number,
+  height: number,
+  rest: Omit<ImageInfo, "width" | "height"> = {},
+): ImageInfo | undefined {
+  return width > 0 && height > 0 ? { width, height, ...rest } : undefined;
+}
+
+const PNG_COLOR_TYPES: Record<number, string> = {
+  0: "Grayscale",
+  2: "RGB",
+  3: "Indexed",
+  4: "Grayscale",
+  6: "RGB",
+};
+
+/** IHDR 之后遍历 IDAT 之前的块：tRNS 表示透明，acTL 为 APNG 帧数，iCCP/sRGB 为色彩配置 */
+function pngInfo(buf: Buffer) {
+  const colorType = buf[25];
+  let hasAlpha = colorType === 4 || colorType === 6;
+  let colorSpace = PNG_COLOR_TYPES[colorType];
+  let frames: number | undefined;
+  let offset = 8;
+  while (offset + 12 <= buf.length) {
+    const length = buf.readUInt32BE(offset);
+    const type = buf.toString("latin1", offset + 4, offset + 8);
+    if (type === "IDAT" || type === "IEND") break;
+    if (type === "tRNS") hasAlpha = true;
+    else if (type === "acTL") frames = buf.readUInt32BE(offset + 8);
+    else if (type === "sRGB") colorSpace = "sRGB";
+    else if (type === "iCCP") colorSpace = `${colorSpace} (ICC)`;
+    offset += 12 + length;
+  }
+  return sized(buf.readUInt32BE(16), buf.readUInt32BE(20), {
+    bitDepth: buf[24],
+    hasAlpha,
+    colorSpace,
+    frames: frames ?? 1,
+  });
+}
+
+function gifInfo(buf: Buffer) {
+  return sized(buf.readUInt16LE(6), buf.readUInt16LE(8), {
+    bitDepth: ((buf[10] >> 4) & 0x07) + 1,
+    colorSpace: "Indexed",
+    hasAlpha: hasGifTransparency(buf),
+  });
+}
+
+/** 任一图形控制扩展（0x21 0xF9）设置了透明色标志 */
+function hasGifTransparency(buf: Buffer) {
+  let index = buf.indexOf(Buffer.from([0x21, 0xf9, 0x04]));
+  while (index >= 0 && index + 3 < buf.length) {
+    if (buf[index + 3] & 0x01) return true;
+    index = buf.indexOf(Buffer.from([0x21, 0xf9, 0x04]), index + 1);
+  }
+  return false;
+}
+
+/** 按块结构遍历，统计图像描述符（0x2C）数量 */
+function countGifFrames(buf: Buffer) {
+  let offset = 13;
+  if (buf[10] & 0x80) offset += 3 * 2 ** ((buf[10] & 0x07) + 1);
+  let frames = 0;
+  const skipSubBlocks = () => {
+    while (offset < buf.length && buf[offset] !== 0) offset += buf[offset] + 1;
+    offset++;
+  };
+  while (offset < buf.length) {
+    const block = buf[offset];
+    if (block === 0x2c) {
+      frames++;
+      const packed = buf[offset + 9];
+      offset += 10;
+      if (packed & 0x80) offset += 3 * 2 ** ((packed & 0x07) + 1);
+      offset++; // LZW 最小码长
+      skipSubBlocks();
+    } else if (block === 0x21) {
+      offset += 2;
+      skipSubBlocks();
+    } else {
+      break;
+    }
+  }
+  return frames || 1;
+}
+
+function bmpInfo(buf: Buffer) {
+  const bitDepth = buf.readUInt16LE(28);
+  const headerSize = buf.readUInt32LE(14);
+  // BITMAPV3 及以上的信息头带 alpha 掩码
+  const hasAlpha = bitDepth === 32 && headerSize >= 56 && buf.readUInt32LE(54) !== 0;
+  return sized(buf.readInt32LE(18), Math.abs(buf.readInt32LE(22)), {
+    bitDepth,
+    hasAlpha,
+    colorSpace: bitDepth <= 8 ? "Indexed" : "RGB",
+  });
+}
+
+const PSD_MODES: Record<number, { name: string; channels: number }> = {
+  0: { name: "Bitmap", channels: 1 },
+  1: { name: "Grayscale", channels: 1 },
+  2: { name: "Indexed", channels: 1 },
+  3: { name: "RGB", channels: 3 },
+  4: { name: "CMYK", channels: 4 },
+  9: { name: "Lab", channels: 3 },
+};
+
+function psdInfo(buf: Buffer) {
+  const mode = PSD_MODES[buf.readUInt16BE(24)];
+  return sized(buf.readUInt32BE(18), buf.readUInt32BE(14), {
+    bitDepth: buf.readUInt16BE(22),
+    hasAlpha: mode ? buf.readUInt16BE(12) > mode.channels : undefined,
+    colorSpace: mode?.name,
+  });
+}
+
+/** ICO 目录中取最大的图标，帧数为图标数量；宽高 0 表示 256 */
+function icoInfo(buf: Buffer) {
+  const count = buf.readUInt16LE(4);
+  let best: { width: number; height: number; bitDepth: number } | undefined;
+  for (let i = 0; i < count && 6 + 16 * (i + 1) <= buf.length; i++) {
+    const entry = 6 + 16 * i;
+    const width = buf[entry] || 256;
+    const height = buf[entry + 1] || 256;
+    const bitDepth = buf.readUInt16LE(entry + 6);
+    if (!best || width * height > best.width * best.height) {
+      best = { width, height, bitDepth };
+    }
+  }
+  if (!best) return undefined;
+  return sized(best.width, best.height, {
+    bitDepth: best.bitDepth || undefined,
+    hasAlpha: best.bitDepth === 32,
+    frames: count,
+  });
+}
+
+function webpInfo(buf: Buffer) {
+  const chunk = buf.toString("latin1", 12, 16);
+  if (chunk === "VP8X") {
+    const flags = buf[20];
+    return sized(buf.readUIntLE(24, 3) + 1, buf.readUIntLE(27, 3) + 1, {
+      bitDepth: 8,
+      hasAlpha: (flags & 0x10) !== 0,
+      colorSpace: flags & 0x20 ? "RGB (ICC)" : "RGB",
+      frames: flags & 0x02 ? undefined : 1,
+    });
+  }
+  if (chunk === "VP8L") {
+    const bits = buf.readUInt32LE(21);
+    return sized((bits & 0x3fff) + 1, ((bits >> 14) & 0x3fff) + 1, {
+      bitDepth: 8,
+      hasAlpha: ((bits >> 28) & 0x01) === 1,
+      colorSpace: "RGB",
+      frames: 1,
+    });
+  }
+  if (chunk === "VP8 ") {
+    return sized(buf.readUInt16LE(26) & 0x3fff, buf.readUInt16LE(28) & 0x3fff, {
+      bitDepth: 8,
+      hasAlpha: false,
+      colorSpace: "YUV",
+      frames: 1,
+    });
+  }
+  return undefined;
+}
+
+function countWebpFrames(buf: Buffer) {
+  let frames = 0;
+  let offset = 12;
+  while (offset + 8 <= buf.length) {
+    const size = buf.readUInt32LE(offset + 4);
+    if (buf.toString("latin1", offset, offset + 4) === "ANMF") frames++;
+    offset += 8 + size + (size % 2);
+  }
+  return frames || 1;
+}
+
+const JPEG_COMPONENTS: Record<number, string> = {
+  1: "Grayscale",
+  3: "YCbCr",
+  4: "CMYK",
+};
+
+/** 遍历 JPEG 段，读取 SOF（起始帧）中的尺寸、精度与分量数 */
+function jpegInfo(buf: Buffer) {
+  let offset = 2;
+  let icc = false;
+  while (offset + 9 < buf.length) {
+    if (buf[offset] !== 0xff) return undefined;
+    const marker = buf[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0xe2 && buf.toString("latin1", offset + 4, offset + 15) === "ICC_PROFILE") {
+      icc = true;
+    }
+    // SOF0-SOF15，排除 DHT(C4)、JPG(C8)、DAC(CC)
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      const colorSpace = JPEG_COMPONENTS[buf[offset + 9]];
+      return sized(buf.readUInt16BE(offset + 7), buf.readUInt16BE(offset + 5), {
+        bitDepth: buf[offset + 4],
+        hasAlpha: false,
+        colorSpace: colorSpace && icc ? `${colorSpace} (ICC)` : colorSpace,
+        frames: 1,
+      });
+    }
+    offset += 2 + buf.readUInt16BE(offset + 2);
+  }
+  return undefined;
+}
+
+/** colr nclx 中常见的色域 */
+const COLOR_PRIMARIES: Record<number, string> = {
+  1: "sRGB",
+  9: "BT.2020",
+  12: "Display P3",
+};
+
+/**
+ * AVIF/HEIC：ispe 为尺寸，pixi 为各通道位深，colr 为色彩配置，
+ * auxC 声明 alpha 辅助图像时带透明通道
+ */
+function heifInfo(buf: Buffer) {
+  const find = (type: string) => {
+    const index = buf.indexOf(type, 0, "latin1");
+    return index >= 4 ? index : -1;
+  };
+  const ispe = find("ispe");
+  if (ispe < 0 || ispe + 16 > buf.length) return undefined;
+
+  const pixi = find("pixi");
+  const bitDepth = pixi >= 0 && pixi + 10 <= buf.length ? buf[pixi + 9] : undefined;
+  const colr = find("colr");
+  let colorSpace: string | undefined;
+  if (colr >= 0 && colr + 10 <= buf.length) {
+    const kind = buf.toString("latin1", colr + 4, colr + 8);
+    colorSpace =
+      kind === "nclx" ? COLOR_PRIMARIES[buf.readUInt16BE(colr + 8)] : "ICC";
+  }
+  const text = buf.toString("latin1");
+  const hasAlpha = /auxiliary:alpha|auxid:1/.test(text);
+  return sized(buf.readUInt32BE(ispe + 8), buf.readUInt32BE(ispe + 12), {
+    bitDepth,
+    hasAlpha,
+    colorSpace,
+    frames: buf.toString("latin1", 8, 12) === "avis" ? undefined : 1,
+  });
+}
+
+/** SVG 优先取 width/height 属性（仅限无单位或 px），否则按 viewBox 推算 */
+function svgInfo(buf: Buffer) {
+  const text = buf.toString("utf8");
+  const tag = text.match(/<svg\b[^>]*>/i)?.[0];
+  if (!tag) return undefined;
+  const attr = (name: string) =>
+    tag.match(new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`, "i"))?.[1];
+  const length = (value?: string) => {
+    const match = value?.trim().match(/^(\d+(?:\.\d+)?)(px)?$/);
+    return match ? Math.round(parseFloat(match[1])) : undefined;
+  };
+
+  const viewBoxText = attr("viewBox")?.trim();
+  const viewBox = viewBoxText?.split(/[\s,]+/).map(Number);
+  const validViewBox = viewBox?.length === 4 && viewBox.every(Number.isFinite);
+  let width = length(attr("width"));
+  let height = length(attr("height"));
+  // 缺少的一边按 viewBox 的宽高比推算
+  if (validViewBox && viewBox[2] > 0 && viewBox[3] > 0) {
+    const ratio = viewBox[2] / viewBox[3];
+    if (!width && !height) [width, height] = [viewBox[2], viewBox[3]];
+    else if (!height) height = width! / ratio;
+    else if (!width) width = height * ratio;
+  }
+  return sized(Math.round(width ?? 0), Math.round(height ?? 0), {
+    colorSpace: "Vector",
+    viewBox: validViewBox ? viewBox.join(" ") : undefined,
+  });
+}
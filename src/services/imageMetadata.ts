@@ -0,0 +1,534 @@
+import { promises as fs } from "fs";
+import * as zlib from "zlib";
+import { ImageMetadata, MetadataField, MetadataGroup, PrivacyKind } from "../types";
+
+/** HEIF/AVIF 的元数据位置不固定，整体读取的大小上限 */
+const MAX_HEIF_SCAN = 16 * 1024 * 1024;
+
+/** 单个字段显示的最大长度 */
+const MAX_VALUE_LENGTH = 200;
+
+/** 文件中原始的元数据块 */
+export interface MetadataBlocks {
+  /** TIFF 结构的 EXIF 数据（不含 Exif\0\0 前缀） */
+  exif?: Buffer;
+  xmp?: string;
+  /** IPTC-IIM 数据集 */
+  iptc?: Buffer;
+  /** PNG 文本块与 JPEG 注释 */
+  text: Array<{ key: string; value: string }>;
+}
+
+/**
+ * 读取并解析 JPEG/PNG/WebP/AVIF/HEIC 中的 EXIF、IPTC、XMP 与文本元数据，
+ * 并标记其中的 GPS 位置与个人信息（作者、机身序列号等）
+ */
+export async function readImageMetadata(fsPath: string): Promise<ImageMetadata> {
+  const blocks = await readMetadataBlocks(fsPath);
+  return parseMetadata(blocks);
+}
+
+/** PNG tEXt/iTXt 中与 EXIF Artist/Copyright 对应的个人信息关键字 */
+const TEXT_PRIVACY = /^(Author|Copyright)$/i;
+
+export function parseMetadata(blocks: MetadataBlocks): ImageMetadata {
+  const groups: MetadataGroup[] = [];
+  if (blocks.exif) groups.push(...parseExif(blocks.exif));
+  if (blocks.iptc) groups.push({ name: "IPTC", fields: parseIptc(blocks.iptc) });
+  if (blocks.xmp) groups.push({ name: "XMP", fields: parseXmp(blocks.xmp) });
+  if (blocks.text.length) {
+    groups.push({
+      name: "Text",
+      fields: blocks.text.map(({ key, value }) => ({
+        name: key,
+        value: truncate(value),
+        privacy: TEXT_PRIVACY.test(key) ? ("personal" as const) : undefined,
+      })),
+    });
+  }
+
+  const nonEmpty = groups.filter((group) => group.fields.length);
+  const privacy = new Set<PrivacyKind>();
+  nonEmpty.forEach((group) =>
+    group.fields.forEach((field) => field.privacy && privacy.add(field.privacy)),
+  );
+  return { groups: nonEmpty, privacy: [...privacy] };
+}
+
+/**
+ * 按格式定位元数据块：JPEG/PNG/WebP 按段或块跳转读取，不读取图像数据
+ */
+export async function readMetadataBlocks(fsPath: string): Promise<MetadataBlocks> {
+  const blocks: MetadataBlocks = { text: [] };
+  let handle: fs.FileHandle | undefined;
+  try {
+    handle = await fs.open(fsPath, "r");
+    const { size } = await handle.stat();
+    const head = await readAt(handle, 0, 16);
+    const ascii = head.toString("latin1");
+    if (head[0] === 0xff && head[1] === 0xd8) {
+      await readJpegBlocks(handle, size, blocks);
+    } else if (head.readUInt32BE(0) === 0x89504e47) {
+      await readPngBlocks(handle, size, blocks);
+    } else if (ascii.startsWith("RIFF") && ascii.slice(8, 12) === "WEBP") {
+      await readWebpBlocks(handle, size, blocks);
+    } else if (ascii.slice(4, 8) === "ftyp" && size <= MAX_HEIF_SCAN) {
+      readHeifBlocks(await readAt(handle, 0, size), blocks);
+    }
+  } catch {
+    // 无法读取或结构损坏时返回已解析出的部分
+  } finally {
+    await handle?.close();
+  }
+  return blocks;
+}
+
+async function readAt(handle: fs.FileHandle, position: number, length: number) {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+}
+
+const EXIF_HEADER = "Exif\0\0";
+const XMP_HEADER = "http://ns.adobe.com/xap/1.0/\0";
+const PHOTOSHOP_HEADER = "Photoshop 3.0\0";
+
+async function readJpegBlocks(handle: fs.FileHandle, size: number, blocks: MetadataBlocks) {
+  let offset = 2;
+  while (offset + 4 <= size) {
+    const header = await readAt(handle, offset, 4);
+    if (header[0] !== 0xff) return;
+    const marker = header[1];
+    // SOS 之后是压缩数据，元数据段都位于其前
+    if (marker === 0xda || marker === 0xd9) return;
+    const length = header.readUInt16BE(2);
+    if (marker === 0xe1 || marker === 0xed || marker === 0xfe) {
+      const body = await readAt(handle, offset + 4, length - 2);
+      const ascii = body.toString("latin1", 0, 32);
+      if (marker === 0xe1 && ascii.startsWith(EXIF_HEADER)) {
+        blocks.exif ??= body.subarray(EXIF_HEADER.length);
+      } else if (marker === 0xe1 && ascii.startsWith(XMP_HEADER)) {
+        blocks.xmp ??= body.toString("utf8", XMP_HEADER.length);
+      } else if (marker === 0xed && ascii.startsWith(PHOTOSHOP_HEADER)) {
+        blocks.iptc ??= findPhotoshopIptc(body.subarray(PHOTOSHOP_HEADER.length));
+      } else if (marker === 0xfe) {
+        blocks.text.push({ key: "Comment", value: body.toString("utf8").replace(/\0+$/, "") });
+      }
+    }
+    offset += 2 + length;
+  }
+}
+
+/** Photoshop 图像资源块（8BIM）中 ID 为 0x0404 的是 IPTC 数据 */
+function findPhotoshopIptc(buf: Buffer) {
+  let offset = 0;
+  while (offset + 12 <= buf.length && buf.toString("latin1", offset, offset + 4) === "8BIM") {
+    const id = buf.readUInt16BE(offset + 4);
+    const nameLength = buf[offset + 6];
+    // 名称为 Pascal 字符串，连同长度字节补齐到偶数
+    let cursor = offset + 6 + ((nameLength + 2) & ~1);
+    const dataLength = buf.readUInt32BE(cursor);
+    cursor += 4;
+    if (id === 0x0404) return buf.subarray(cursor, cursor + dataLength);
+    offset = cursor + dataLength + (dataLength % 2);
+  }
+  return undefined;
+}
+
+/** 可能含有元数据的 PNG 块，其余块（含 IDAT）直接跳过 */
+const PNG_METADATA_CHUNKS = new Set(["eXIf", "iTXt", "tEXt", "zTXt"]);
+
+async function readPngBlocks(handle: fs.FileHandle, size: number, blocks: MetadataBlocks) {
+  let offset = 8;
+  while (offset + 12 <= size) {
+    const header = await readAt(handle, offset, 8);
+    const length = header.readUInt32BE(0);
+    const type = header.toString("latin1", 4, 8);
+    if (type === "IEND") return;
+    if (PNG_METADATA_CHUNKS.has(type)) {
+      const data = await readAt(handle, offset + 8, length);
+      if (type === "eXIf") {
+        blocks.exif ??= data;
+      } else {
+        const text = readPngText(type, data);
+        if (text?.key === "XML:com.adobe.xmp") blocks.xmp ??= text.value;
+        else if (text) blocks.text.push(text);
+      }
+    }
+    offset += 12 + length;
+  }
+}
+
+function readPngText(type: string, data: Buffer) {
+  const keyEnd = data.indexOf(0);
+  if (keyEnd < 0) return undefined;
+  const key = data.toString("latin1", 0, keyEnd);
+  try {
+    if (type === "tEXt") {
+      return { key, value: data.toString("latin1", keyEnd + 1) };
+    }
+    if (type === "zTXt") {
+      return { key, value: zlib.inflateSync(data.subarray(keyEnd + 2)).toString("latin1") };
+    }
+    // iTXt：压缩标志、压缩方法、语言标签\0、翻译后的关键字\0、文本
+    const compressed = data[keyEnd + 1] === 1;
+    const languageEnd = data.indexOf(0, keyEnd + 3);
+    const translatedEnd = data.indexOf(0, languageEnd + 1);
+    const text = data.subarray(translatedEnd + 1);
+    return { key, value: (compressed ? zlib.inflateSync(text) : text).toString("utf8") };
+  } catch {
+    return undefined;
+  }
+}
+
+async function readWebpBlocks(handle: fs.FileHandle, size: number, blocks: MetadataBlocks) {
+  let offset = 12;
+  while (offset + 8 <= size) {
+    const header = await readAt(handle, offset, 8);
+    const type = header.toString("latin1", 0, 4);
+    const length = header.readUInt32LE(4);
+    if (type === "EXIF") {
+      const data = await readAt(handle, offset + 8, length);
+      blocks.exif = data.toString("latin1", 0, 6) === EXIF_HEADER ? data.subarray(6) : data;
+    } else if (type === "XMP ") {
+      blocks.xmp = (await readAt(handle, offset + 8, length)).toString("utf8");
+    }
+    offset += 8 + length + (length % 2);
+  }
+}
+
+/**
+ * HEIF/AVIF 的 Exif 条目数据以 4 字节偏移开头，其后通常是 Exif\0\0 与 TIFF 头；
+ * XMP 以 mime 条目保存，直接查找 x:xmpmeta 包
+ */
+function readHeifBlocks(buf: Buffer, blocks: MetadataBlocks) {
+  let index = buf.indexOf(EXIF_HEADER, 0, "latin1");
+  while (index >= 0) {
+    const tiff = buf.toString("latin1", index + 6, index + 10);
+    if (tiff === "MM\0*" || tiff === "II*\0") {
+      blocks.exif = buf.subarray(index + 6);
+      break;
+    }
+    index = buf.indexOf(EXIF_HEADER, index + 1, "latin1");
+  }
+  const xmpStart = buf.indexOf("<x:xmpmeta", 0, "latin1");
+  const xmpEnd = xmpStart >= 0 ? buf.indexOf("</x:xmpmeta>", xmpStart, "latin1") : -1;
+  if (xmpEnd > xmpStart) {
+    blocks.xmp = buf.toString("utf8", xmpStart, xmpEnd + "</x:xmpmeta>".length);
+  }
+}
+
+// ---------- EXIF ----------
+
+type TagInfo = string | { name: string; privacy: PrivacyKind };
+
+const IFD0_TAGS: Record<number, TagInfo> = {
+  0x010e: "ImageDescription",
+  0x010f: "Make",
+  0x0110: "Model",
+  0x0112: "Orientation",
+  0x011a: "XResolution",
+  0x011b: "YResolution",
+  0x0128: "ResolutionUnit",
+  0x0131: "Software",
+  0x0132: "DateTime",
+  0x013b: { name: "Artist", privacy: "personal" },
+  0x8298: "Copyright",
+  0x9c9d: { name: "XPAuthor", privacy: "personal" },
+};
+
+const EXIF_TAGS: Record<number, TagInfo> = {
+  0x829a: "ExposureTime",
+  0x829d: "FNumber",
+  0x8822: "ExposureProgram",
+  0x8827: "ISO",
+  0x9000: "ExifVersion",
+  0x9003: "DateTimeOriginal",
+  0x9004: "DateTimeDigitized",
+  0x9010: "OffsetTime",
+  0x9201: "ShutterSpeedValue",
+  0x9202: "ApertureValue",
+  0x9204: "ExposureBiasValue",
+  0x9207: "MeteringMode",
+  0x9209: "Flash",
+  0x920a: "FocalLength",
+  0x927c: "MakerNote",
+  0x9286: "UserComment",
+  0xa001: "ColorSpace",
+  0xa002: "PixelXDimension",
+  0xa003: "PixelYDimension",
+  0xa405: "FocalLengthIn35mmFilm",
+  0xa420: { name: "ImageUniqueID", privacy: "personal" },
+  0xa430: { name: "CameraOwnerName", privacy: "personal" },
+  0xa431: { name: "BodySerialNumber", privacy: "personal" },
+  0xa432: "LensSpecification",
+  0xa433: "LensMake",
+  0xa434: "LensModel",
+  0xa435: { name: "LensSerialNumber", privacy: "personal" },
+};
+
+const GPS_TAGS: Record<number, string> = {
+  0x00: "GPSVersionID",
+  0x01: "GPSLatitudeRef",
+  0x02: "GPSLatitude",
+  0x03: "GPSLongitudeRef",
+  0x04: "GPSLongitude",
+  0x05: "GPSAltitudeRef",
+  0x06: "GPSAltitude",
+  0x07: "GPSTimeStamp",
+  0x10: "GPSImgDirectionRef",
+  0x11: "GPSImgDirection",
+  0x1d: "GPSDateStamp",
+};
+
+const EXIF_IFD_POINTER = 0x8769;
+const GPS_IFD_POINTER = 0x8825;
+
+/** TIFF 字段类型对应的单个值字节数 */
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+type TiffValue = string | number | number[] | Buffer;
+
+/**
+ * 解析 TIFF 结构的 EXIF：IFD0、Exif 子 IFD 与 GPS 子 IFD
+ */
+function parseExif(tiff: Buffer): MetadataGroup[] {
+  const order = tiff.toString("latin1", 0, 2);
+  if (order !== "II" && order !== "MM") return [];
+  const reader = new TiffReader(tiff, order === "II");
+
+  const ifd0 = reader.readIfd(reader.u32(4));
+  const exif = ifd0.has(EXIF_IFD_POINTER) ? reader.readIfd(ifd0.get(EXIF_IFD_POINTER) as number) : new Map();
+  const gps = ifd0.has(GPS_IFD_POINTER) ? reader.readIfd(ifd0.get(GPS_IFD_POINTER) as number) : new Map();
+
+  const fields = (tags: Map<number, TiffValue>, names: Record<number, TagInfo>) => {
+    const result: MetadataField[] = [];
+    tags.forEach((value, tag) => {
+      if (tag === EXIF_IFD_POINTER || tag === GPS_IFD_POINTER) return;
+      const info = names[tag];
+      const name = typeof info === "string" ? info : info?.name;
+      result.push({
+        name: name ?? `Tag 0x${tag.toString(16).padStart(4, "0")}`,
+        value: formatTiffValue(value, name),
+        privacy: typeof info === "object" ? info.privacy : undefined,
+      });
+    });
+    return result;
+  };
+
+  const gpsFields: MetadataField[] = [];
+  gps.forEach((value, tag) => {
+    gpsFields.push({
+      name: GPS_TAGS[tag] ?? `GPS 0x${tag.toString(16).padStart(2, "0")}`,
+      value: formatTiffValue(value),
+      privacy: "gps",
+    });
+  });
+  const position = gpsPosition(gps);
+  if (position) gpsFields.unshift({ name: "Position", value: position, privacy: "gps" });
+
+  return [
+    { name: "EXIF", fields: [...fields(ifd0, IFD0_TAGS), ...fields(exif, EXIF_TAGS)] },
+    { name: "GPS", fields: gpsFields },
+  ];
+}
+
+/**
+ * 读取 EXIF 中的方向（Orientation），去除元数据时保留以免图片显示方向改变
+ */
+export function readOrientation(tiff: Buffer) {
+  const order = tiff.toString("latin1", 0, 2);
+  if (order !== "II" && order !== "MM") return undefined;
+  try {
+    const reader = new TiffReader(tiff, order === "II");
+    const value = reader.readIfd(reader.u32(4)).get(0x0112);
+    return typeof value === "number" ? value : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+class TiffReader {
+  constructor(
+    private readonly buf: Buffer,
+    private readonly little: boolean,
+  ) {}
+
+  u16(offset: number) {
+    return this.little ? this.buf.readUInt16LE(offset) : this.buf.readUInt16BE(offset);
+  }
+
+  u32(offset: number) {
+    return this.little ? this.buf.readUInt32LE(offset) : this.buf.readUInt32BE(offset);
+  }
+
+  i32(offset: number) {
+    return this.little ? this.buf.readInt32LE(offset) : this.buf.readInt32BE(offset);
+  }
+
+  readIfd(offset: number) {
+    const tags = new Map<number, TiffValue>();
+    if (!offset || offset + 2 > this.buf.length) return tags;
+    const count = this.u16(offset);
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      if (entry + 12 > this.buf.length) break;
+      const value = this.readValue(entry);
+      if (value !== undefined) tags.set(this.u16(entry), value);
+    }
+    return tags;
+  }
+
+  private readValue(entry: number): TiffValue | undefined {
+    const type = this.u16(entry + 2);
+    const count = this.u32(entry + 4);
+    const size = TYPE_SIZES[type];
+    if (!size) return undefined;
+    const total = size * count;
+    const start = total > 4 ? this.u32(entry + 8) : entry + 8;
+    if (start + total > this.buf.length) return undefined;
+
+    if (type === 2) return this.buf.toString("latin1", start, start + total).replace(/\0+$/, "");
+    if (type === 1 || type === 7) return this.buf.subarray(start, start + total);
+    const values: number[] = [];
+    for (let i = 0; i < Math.min(count, 64); i++) {
+      const at = start + i * size;
+      if (type === 3) values.push(this.u16(at));
+      else if (type === 4) values.push(this.u32(at));
+      else if (type === 9) values.push(this.i32(at));
+      else if (type === 5) values.push(this.u32(at) / (this.u32(at + 4) || 1));
+      else if (type === 10) values.push(this.i32(at) / (this.i32(at + 4) || 1));
+    }
+    return values.length === 1 ? values[0] : values;
+  }
+}
+
+function formatTiffValue(value: TiffValue, name?: string): string {
+  if (typeof value === "string") return truncate(value.trim());
+  if (typeof value === "number") return formatNumber(value);
+  if (Buffer.isBuffer(value)) {
+    if (name === "MakerNote") return `${value.length} bytes`;
+    // UserComment 以 8 字节的字符编码标识开头
+    const text = name === "UserComment" ? value.subarray(8) : value;
+    const ascii = text.toString("latin1").replace(/\0+$/, "");
+    if (/^[\x20-\x7e]*$/.test(ascii) && ascii) return truncate(ascii);
+    if (name?.startsWith("XP")) return truncate(value.toString("utf16le").replace(/\0+$/, ""));
+    return value.length <= 8 ? Array.from(value).join(".") : `${value.length} bytes`;
+  }
+  return truncate(value.map(formatNumber).join(", "));
+}
+
+function formatNumber(value: number) {
+  return Number.isInteger(value) ? String(value) : String(Number(value.toFixed(4)));
+}
+
+/** 度分秒转换为十进制坐标 */
+function gpsPosition(gps: Map<number, TiffValue>) {
+  const coordinate = (value: TiffValue | undefined, ref: TiffValue | undefined) => {
+    if (!Array.isArray(value) || value.length < 3) return undefined;
+    const decimal = value[0] + value[1] / 60 + value[2] / 3600;
+    return ref === "S" || ref === "W" ? -decimal : decimal;
+  };
+  const lat = coordinate(gps.get(0x02), gps.get(0x01));
+  const lon = coordinate(gps.get(0x04), gps.get(0x03));
+  if (lat === undefined || lon === undefined) return undefined;
+  return `${lat.toFixed(6)}, ${lon.toFixed(6)}`;
+}
+
+// ---------- IPTC ----------
+
+const IPTC_TAGS: Record<number, TagInfo> = {
+  5: "ObjectName",
+  25: "Keywords",
+  40: "SpecialInstructions",
+  55: "DateCreated",
+  60: "TimeCreated",
+  80: { name: "By-line", privacy: "personal" },
+  85: "By-lineTitle",
+  90: { name: "City", privacy: "gps" },
+  92: { name: "Sub-location", privacy: "gps" },
+  95: { name: "Province-State", privacy: "gps" },
+  100: "Country-PrimaryLocationCode",
+  101: "Country-PrimaryLocationName",
+  105: "Headline",
+  110: "Credit",
+  115: "Source",
+  116: "CopyrightNotice",
+  118: { name: "Contact", privacy: "personal" },
+  120: "Caption-Abstract",
+  122: { name: "Writer-Editor", privacy: "personal" },
+};
+
+/** IPTC-IIM：0x1C 标记 + 记录号 + 数据集号 + 2 字节长度 + 数据，只取应用记录（2） */
+function parseIptc(buf: Buffer): MetadataField[] {
+  const values = new Map<number, string[]>();
+  let offset = 0;
+  while (offset + 5 <= buf.length && buf[offset] === 0x1c) {
+    const record = buf[offset + 1];
+    const dataset = buf[offset + 2];
+    const length = buf.readUInt16BE(offset + 3);
+    if (record === 2 && dataset !== 0) {
+      const value = buf.toString("utf8", offset + 5, offset + 5 + length);
+      values.set(dataset, [...(values.get(dataset) ?? []), value]);
+    }
+    offset += 5 + length;
+  }
+  return [...values].map(([dataset, list]) => {
+    const info = IPTC_TAGS[dataset];
+    return {
+      name: (typeof info === "string" ? info : info?.name) ?? `Dataset 2:${dataset}`,
+      value: truncate(list.join(", ")),
+      privacy: typeof info === "object" ? info.privacy : undefined,
+    };
+  });
+}
+
+// ---------- XMP ----------
+
+/** XMP 中的位置与个人信息属性（命名空间前缀:属性名） */
+const XMP_PRIVACY: Array<[RegExp, PrivacyKind]> = [
+  [/^exif:GPS/, "gps"],
+  [/^(photoshop:(City|State|Country)|Iptc4xmpCore:Location|Iptc4xmpExt:LocationShown)$/, "gps"],
+  [/^(aux:SerialNumber|aux:LensSerialNumber|exifEX:(BodySerialNumber|LensSerialNumber|CameraOwnerName))$/, "personal"],
+  [/^(dc:creator|photoshop:AuthorsPosition|Iptc4xmpCore:Ci\w+|xmpRights:Owner)$/, "personal"],
+];
+
+/**
+ * 提取 rdf:Description 上的属性、纯文本子元素与 Seq/Bag/Alt 列表，
+ * 结构化属性按其中的各个文本字段列出
+ */
+function parseXmp(xml: string): MetadataField[] {
+  const fields = new Map<string, string>();
+  for (const description of xml.matchAll(/<rdf:Description\b([^>]*?)\/?>/g)) {
+    for (const attr of description[1].matchAll(/([\w-]+:[\w-]+)\s*=\s*"([^"]*)"/g)) {
+      if (!/^(xmlns|rdf):/.test(attr[1])) fields.set(attr[1], decodeXml(attr[2]));
+    }
+  }
+  for (const [, name, body] of xml.matchAll(/<([\w-]+:[\w-]+)(?:\s[^>]*)?>([^<]*)<\/\1>/g)) {
+    if (!/^(rdf|x):/.test(name) && body.trim()) fields.set(name, decodeXml(body.trim()));
+  }
+  const lists = /<([\w-]+:[\w-]+)(?:\s[^>]*)?>\s*<rdf:(Seq|Bag|Alt)>([\s\S]*?)<\/rdf:\2>\s*<\/\1>/g;
+  for (const [, name, , body] of xml.matchAll(lists)) {
+    const items = Array.from(body.matchAll(/<rdf:li\b[^>]*>([^<]*)<\/rdf:li>/g), (m) => m[1].trim());
+    if (items.some(Boolean)) fields.set(name, decodeXml(items.filter(Boolean).join(", ")));
+  }
+  return [...fields].map(([name, value]) => ({
+    name,
+    value: truncate(value),
+    privacy: XMP_PRIVACY.find(([pattern]) => pattern.test(name))?.[1],
+  }));
+}
+
+function decodeXml(text: string) {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&amp;/g, "&");
+}
+
+function truncate(value: string) {
+  return value.length > MAX_VALUE_LENGTH ? `${value.slice(0, MAX_VALUE_LENGTH)}…` : value;
+}
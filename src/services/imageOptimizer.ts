@@ -0,0 +1,129 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { promises as fs } from "fs";
+import { toHumanSize } from "../utils/fsUtils";
+import { log } from "../utils/logger";
+import { BackupStore, showBackupResult } from "./backup";
+import { ImageProcessor } from "./imageProcessing";
+
+/** 一张图片的压缩预览结果，optimizedSize 为空表示无法进一步压缩 */
+export interface OptimizeResult {
+  path: string;
+  originalSize: number;
+  optimizedSize?: number;
+  /** 压缩结果的临时文件，确认后覆盖原文件 */
+  preview?: string;
+  error?: string;
+}
+
+/**
+ * 读取压缩质量配置
+ */
+export function getCompressOptions() {
+  const config = vscode.workspace.getConfiguration("assetManage");
+  return {
+    jpegQuality: config.get<number>("jpegQuality", 80),
+    webpQuality: config.get<number>("webpQuality", 80),
+  };
+}
+
+/**
+ * 图片压缩：先把压缩结果写入临时目录供预览对比，确认后备份原文件再覆盖，
+ * 同一时间只保留一次预览
+ */
+export class ImageOptimizer implements vscode.Disposable {
+  /** 预览文件所在目录，webview 需要能够加载其中的文件 */
+  readonly previewRoot: vscode.Uri;
+  private results = new Map<string, OptimizeResult>();
+  /** 每次 prepare 递增，旧的压缩过程发现被取代后停止 */
+  private session = 0;
+
+  constructor(
+    storageUri: vscode.Uri,
+    private readonly processor: ImageProcessor,
+    private readonly backups: BackupStore,
+  ) {
+    this.previewRoot = vscode.Uri.joinPath(storageUri, "optimize-preview");
+  }
+
+  /**
+   * 依次压缩图片并写入预览文件，每完成一张回调一次
+   */
+  async prepare(files: string[], onResult: (result: OptimizeResult) => void) {
+    await this.discard();
+    const session = this.session;
+    const options = getCompressOptions();
+    const dir = this.previewRoot.fsPath;
+    await fs.mkdir(dir, { recursive: true });
+    log(`🗜️ 开始压缩 ${files.length} 张图片`);
+
+    for (const [index, file] of files.entries()) {
+      if (session !== this.session) return;
+      const result: OptimizeResult = { path: file, originalSize: 0 };
+      try {
+        result.originalSize = (await fs.stat(file)).size;
+        const data = await this.processor.run({ kind: "compress", filePath: file, options });
+        if (session !== this.session) return;
+        if (data) {
+          // 文件名带序号，避免不同目录中的同名文件互相覆盖
+          result.preview = path.join(dir, `${session}-${index}-${path.basename(file)}`);
+          await fs.writeFile(result.preview, data);
+          result.optimizedSize = data.length;
+        }
+      } catch (err) {
+        result.error = String(err instanceof Error ? err.message : err);
+      }
+      if (session !== this.session) return;
+      this.results.set(file, result);
+      onResult(result);
+    }
+  }
+
+  /**
+   * 备份原文件后用预览结果覆盖，并提示节省的体积（可撤销）
+   */
+  async apply(files: string[]) {
+    const applied = files
+      .map((file) => this.results.get(file))
+      .filter((result): result is OptimizeResult & { preview: string; optimizedSize: number } =>
+        Boolean(result?.preview && result.optimizedSize !== undefined),
+      );
+    if (!applied.length) return;
+
+    const backup = await this.backups.backup(
+      applied.map((result) => result.path),
+      "optimize",
+    );
+    for (const result of applied) {
+      await fs.copyFile(result.preview, result.path);
+    }
+    const before = applied.reduce((sum, r) => sum + r.originalSize, 0);
+    const saved = before - applied.reduce((sum, r) => sum + r.optimizedSize, 0);
+    const percent = before ? Math.round((saved / before) * 100) : 0;
+    log(`✅ 已压缩 ${applied.length} 张图片，节省 ${toHumanSize(saved)}（${percent}%）`);
+    await this.discard();
+    await showBackupResult(
+      this.backups,
+      backup,
+      vscode.l10n.t(
+        "Optimized {0} image(s), saved {1} ({2}%)",
+        applied.length,
+        toHumanSize(saved),
+        percent,
+      ),
+    );
+  }
+
+  /**
+   * 放弃当前预览，停止进行中的压缩并删除临时文件
+   */
+  async discard() {
+    this.session++;
+    this.results.clear();
+    await fs.rm(this.previewRoot.fsPath, { recursive: true, force: true });
+  }
+
+  dispose() {
+    void this.discard();
+  }
+}
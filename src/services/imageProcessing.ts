@@ -0,0 +1,82 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { Worker } from "worker_threads";
+import { error, log } from "../utils/logger";
+import type { ImageTask } from "./imageWorker";
+
+/** 空闲多久后结束工作线程，释放 wasm 编解码器占用的内存 */
+const IDLE_TIMEOUT = 30_000;
+
+interface PendingTask {
+  resolve: (data: Buffer | undefined) => void;
+  reject: (err: Error) => void;
+}
+
+/**
+ * 图片编解码任务的执行器：按需创建一个工作线程，任务依次执行，空闲一段时间后自动结束线程
+ */
+export class ImageProcessor implements vscode.Disposable {
+  private worker?: Worker;
+  private pending = new Map<number, PendingTask>();
+  private nextId = 0;
+  private idleTimer?: ReturnType<typeof setTimeout>;
+
+  /**
+   * 在工作线程中执行任务，返回处理后的文件内容；无需处理（如压缩后没有变小）时返回 undefined
+   */
+  run(task: ImageTask) {
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    const worker = this.worker ?? this.spawn();
+    const id = this.nextId++;
+    return new Promise<Buffer | undefined>((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      worker.postMessage({ id, task });
+    });
+  }
+
+  dispose() {
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.worker?.terminate();
+    this.worker = undefined;
+    this.pending.forEach((task) => task.reject(new Error("Image processor disposed")));
+    this.pending.clear();
+  }
+
+  private spawn() {
+    const worker = new Worker(path.join(__dirname, "imageWorker.js"));
+    this.worker = worker;
+
+    worker.on("message", (result: { id: number; data?: Uint8Array; error?: string }) => {
+      const task = this.pending.get(result.id);
+      this.pending.delete(result.id);
+      if (result.error) task?.reject(new Error(result.error));
+      else task?.resolve(result.data && Buffer.from(result.data));
+      if (!this.pending.size) {
+        this.idleTimer = setTimeout(() => {
+          log(`💤 图片处理线程空闲，已结束`);
+          this.worker?.terminate();
+          this.worker = undefined;
+        }, IDLE_TIMEOUT);
+      }
+    });
+
+    // 线程异常退出时所有进行中的任务失败，下次任务重新创建线程
+    worker.on("error", (err) => {
+      error("图片处理线程异常", err);
+      this.pending.forEach((task) => task.reject(err));
+      this.pending.clear();
+      this.worker = undefined;
+    });
+    // wasm 内存耗尽等崩溃可能只触发 exit；主动结束的线程已不是当前线程，不在此处理
+    worker.on("exit", (code) => {
+      if (this.worker !== worker) return;
+      error(`图片处理线程意外退出，退出码 ${code}`);
+      const err = new Error(`Image worker exited with code ${code}`);
+      this.pending.forEach((task) => task.reject(err));
+      this.pending.clear();
+      this.worker = undefined;
+    });
+
+    return worker;
+  }
+}
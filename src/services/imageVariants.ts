@@ -0,0 +1,235 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { promises as fs } from "fs";
+import { pathKey, statSafe } from "../utils/fsUtils";
+import { log } from "../utils/logger";
+import { readImageInfo } from "./imageInfo";
+import { readMetadataBlocks, readOrientation } from "./imageMetadata";
+import { ImageProcessor } from "./imageProcessing";
+import { formatReference } from "./references";
+
+/** 可以生成尺寸变体的源文件 */
+const SCALABLE = /\.(png|jpe?g|webp|avif)$/i;
+
+const MIME_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  webp: "image/webp",
+  avif: "image/avif",
+};
+
+/** 一个待生成的变体，density 与 width 分别对应 srcset 中的 x 与 w 描述符 */
+interface Variant {
+  target: vscode.Uri;
+  width: number;
+  height: number;
+  descriptor: string;
+}
+
+/**
+ * 读取变体配置：按像素密度（源图视为最大密度）或按 srcset 宽度生成
+ */
+function getVariantConfig() {
+  const config = vscode.workspace.getConfiguration("assetManage");
+  return {
+    densities: config.get<number[]>("variantDensities", [1, 2, 3]).filter((d) => d > 0),
+    widths: config.get<number[]>("variantWidths", [480, 960, 1440]).filter((w) => w > 0),
+    densityName: config.get<string>("variantDensityName", "{name}@{density}x.{ext}"),
+    widthName: config.get<string>("variantWidthName", "{name}-{width}w.{ext}"),
+    snippet: config.get<"img" | "picture">("variantSnippet", "img"),
+    quality: {
+      jpg: config.get<number>("jpegQuality", 80),
+      webp: config.get<number>("webpQuality", 80),
+      avif: config.get<number>("avifQuality", 50),
+    },
+  };
+}
+
+/**
+ * 按命名模板生成文件名，支持 {name} {ext} {width} {height} {density}
+ */
+function formatVariantName(template: string, values: Record<string, string | number>) {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in values ? String(values[key]) : match,
+  );
+}
+
+/**
+ * 源图显示尺寸：JPEG 的 EXIF 方向为 5–8 时宽高互换
+ */
+async function readDisplaySize(fsPath: string) {
+  const info = await readImageInfo(fsPath);
+  if (!info) return undefined;
+  const { exif } = await readMetadataBlocks(fsPath);
+  const orientation = exif ? readOrientation(exif) : undefined;
+  return orientation && orientation >= 5
+    ? { width: info.height, height: info.width }
+    : { width: info.width, height: info.height };
+}
+
+/**
+ * 从源图生成一组缩放后的变体（@1x/@2x/@3x 或 srcset 宽度），写在源图旁，
+ * 并把可直接粘贴的 <img srcset> 或 <picture> 片段复制到剪贴板。不会放大源图
+ */
+export async function generateVariants(processor: ImageProcessor, uri: vscode.Uri) {
+  if (!SCALABLE.test(uri.fsPath)) {
+    vscode.window.showInformationMessage(
+      vscode.l10n.t("Variants can be generated from PNG, JPEG, WebP and AVIF images only"),
+    );
+    return;
+  }
+  const size = await readDisplaySize(uri.fsPath);
+  if (!size) {
+    vscode.window.showErrorMessage(
+      vscode.l10n.t("Unable to read the size of {0}", path.basename(uri.fsPath)),
+    );
+    return;
+  }
+
+  const config = getVariantConfig();
+  const maxDensity = Math.max(...config.densities);
+  const pick = await vscode.window.showQuickPick(
+    [
+      {
+        label: vscode.l10n.t("Pixel densities"),
+        description: config.densities.map((d) => `@${d}x`).join(", "),
+        detail: vscode.l10n.t("The source image ({0}×{1}) is used as @{2}x", size.width, size.height, maxDensity),
+        mode: "density" as const,
+      },
+      {
+        label: vscode.l10n.t("srcset widths"),
+        description: config.widths.map((w) => `${w}w`).join(", "),
+        detail: vscode.l10n.t("Widths larger than the source ({0}px) are skipped", size.width),
+        mode: "width" as const,
+      },
+    ],
+    { title: vscode.l10n.t("Generate Variants of {0}", path.basename(uri.fsPath)) },
+  );
+  if (!pick) return;
+
+  const ext = path.extname(uri.fsPath).slice(1);
+  const name = path.basename(uri.fsPath, path.extname(uri.fsPath));
+  const dir = path.dirname(uri.fsPath);
+  const toVariant = (width: number, descriptor: string, density?: number): Variant => {
+    const height = Math.max(1, Math.round((size.height * width) / size.width));
+    const template = pick.mode === "density" ? config.densityName : config.widthName;
+    const fileName = formatVariantName(template, { name, ext, width, height, density: density ?? "" });
+    return { target: vscode.Uri.file(path.join(dir, fileName)), width, height, descriptor };
+  };
+  const variants =
+    pick.mode === "density"
+      ? [...new Set(config.densities)]
+          .sort((a, b) => a - b)
+          .map((d) => toVariant(Math.max(1, Math.round((size.width * d) / maxDensity)), `${d}x`, d))
+      : [...new Set(config.widths)]
+          .filter((w) => w <= size.width)
+          .sort((a, b) => a - b)
+          .map((w) => toVariant(w, `${w}w`));
+  if (!variants.length) {
+    vscode.window.showInformationMessage(
+      vscode.l10n.t("No variants to generate: every configured width is larger than the source"),
+    );
+    return;
+  }
+  if (new Set(variants.map((v) => pathKey(v.target.fsPath))).size < variants.length) {
+    vscode.window.showErrorMessage(
+      vscode.l10n.t("The naming template produces duplicate file names"),
+    );
+    return;
+  }
+
+  const sourceKey = pathKey(uri.fsPath);
+  const existing: string[] = [];
+  for (const variant of variants) {
+    if (pathKey(variant.target.fsPath) !== sourceKey && (await statSafe(variant.target))) {
+      existing.push(path.basename(variant.target.fsPath));
+    }
+  }
+  if (existing.length) {
+    const overwrite = vscode.l10n.t("Overwrite");
+    const choice = await vscode.window.showWarningMessage(
+      vscode.l10n.t("{0} already exist. Overwrite?", existing.join(", ")),
+      { modal: true },
+      overwrite,
+    );
+    if (choice !== overwrite) return;
+  }
+
+  const format = ext.toLowerCase() === "jpeg" ? "jpg" : ext.toLowerCase();
+  // PNG 无损编码，不使用质量参数
+  const quality = config.quality[format as keyof typeof config.quality] ?? 80;
+  let written = false;
+  try {
+    written = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: vscode.l10n.t("Generating variants of {0}", path.basename(uri.fsPath)),
+        cancellable: true,
+      },
+      async (progress, token) => {
+        for (const variant of variants) {
+          if (token.isCancellationRequested) return false;
+          progress.report({
+            message: path.basename(variant.target.fsPath),
+            increment: 100 / variants.length,
+          });
+          if (pathKey(variant.target.fsPath) === sourceKey) continue;
+          // 与源图同宽的变体直接复制，避免重新编码带来的损失
+          if (variant.width === size.width) {
+            await fs.copyFile(uri.fsPath, variant.target.fsPath);
+            continue;
+          }
+          const data = await processor.run({
+            kind: "scale",
+            filePath: uri.fsPath,
+            width: variant.width,
+            quality,
+          });
+          if (!data) throw new Error(vscode.l10n.t("Animated images are not supported"));
+          await fs.writeFile(variant.target.fsPath, data);
+        }
+        return true;
+      },
+    );
+  } catch (err) {
+    vscode.window.showErrorMessage(
+      vscode.l10n.t("Failed to generate variants: {0}", err instanceof Error ? err.message : String(err)),
+    );
+  }
+  if (!written) return;
+
+  const snippet = buildSnippet(variants, MIME_TYPES[format], config.snippet, pick.mode === "width");
+  await vscode.env.clipboard.writeText(snippet);
+  log(`🖼️ 已生成 ${variants.length} 个尺寸变体：${vscode.workspace.asRelativePath(uri)}`);
+  vscode.window.showInformationMessage(
+    vscode.l10n.t("Generated {0} variant(s), snippet copied to the clipboard", variants.length),
+  );
+}
+
+/**
+ * 生成 <img srcset> 或 <picture> 片段。有打开的编辑器时路径相对该文件，否则相对工作区
+ */
+function buildSnippet(
+  variants: Variant[],
+  mimeType: string,
+  kind: "img" | "picture",
+  byWidth: boolean,
+) {
+  const active = vscode.window.activeTextEditor?.document;
+  const toPath = (target: vscode.Uri) =>
+    active && active.uri.scheme === "file"
+      ? formatReference(target.fsPath, active.uri.fsPath, "")
+      : vscode.workspace.asRelativePath(target, false);
+  const srcset = variants.map((v) => `${toPath(v.target)} ${v.descriptor}`).join(", ");
+  // 按宽度生成时以最大的变体作为回退，按密度生成时以 1x 作为回退
+  const fallback = byWidth ? variants[variants.length - 1] : variants[0];
+  const sizes = byWidth ? ` sizes="100vw"` : "";
+  const img = `<img src="${toPath(fallback.target)}"${kind === "img" ? ` srcset="${srcset}"${sizes}` : ""} width="${fallback.width}" height="${fallback.height}" alt="">`;
+  if (kind === "img") return img;
+  return [
+    "<picture>",
+    `  <source type="${mimeType}" srcset="${srcset}"${sizes}>`,
+    `  ${img}`,
+    "</picture>",
+  ].join("\n");
+}
@@ -0,0 +1,38 @@
+import { parentPort } from "worker_threads";
+import { promises as fs } from "fs";
+import {
+  CompressOptions,
+  ConvertFormat,
+  compressImage,
+  convertImage,
+  scaleImage,
+} from "./imageCompression";
+
+/**
+ * 图片处理工作线程：wasm 编解码占用 CPU 较多，放在独立线程中执行，避免阻塞扩展主线程
+ */
+export type ImageTask =
+  | { kind: "compress"; filePath: string; options: CompressOptions }
+  | { kind: "convert"; filePath: string; format: ConvertFormat; quality: number }
+  | { kind: "scale"; filePath: string; width: number; quality: number };
+
+async function runTask(task: ImageTask) {
+  const buf = await fs.readFile(task.filePath);
+  switch (task.kind) {
+    case "compress":
+      return compressImage(buf, task.options);
+    case "convert":
+      return convertImage(buf, task.format, task.quality);
+    case "scale":
+      return scaleImage(buf, task.width, task.quality);
+  }
+}
+
+parentPort?.on("message", async ({ id, task }: { id: number; task: ImageTask }) => {
+  try {
+    const data = await runTask(task);
+    parentPort?.postMessage({ id, data });
+  } catch (err) {
+    parentPort?.postMessage({ id, error: String(err) });
+  }
+});
@@ -0,0 +1,102 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { promises as fs } from "fs";
+import { log, error } from "../utils/logger";
+import { AssetEntry } from "../types";
+
+/**
+ * 缓存结构版本，AssetEntry 字段变化时递增，旧缓存会被整体丢弃
+ */
+const CACHE_VERSION = 5;
+const CACHE_FILE = "asset-index.json";
+
+interface CacheFile {
+  version: number;
+  entries: AssetEntry[];
+}
+
+/**
+ * 资源索引的磁盘缓存：按 路径 + mtime + size 复用上次会话的解析结果，
+ * 冷启动时只需重新处理真正发生变化的文件
+ */
+export class IndexCache {
+  private entries = new Map<string, AssetEntry>();
+  private loaded?: Promise<void>;
+  private saveTimer?: ReturnType<typeof setTimeout>;
+
+  constructor(private readonly storageUri: vscode.Uri) {}
+
+  private get file() {
+    return path.join(this.storageUri.fsPath, CACHE_FILE);
+  }
+
+  async load() {
+    if (!this.loaded) {
+      this.loaded = this.read();
+    }
+    await this.loaded;
+  }
+
+  /**
+   * 查找仍然有效的缓存条目，文件被修改过则返回 undefined
+   */
+  lookup(fsPath: string, stat: { mtime: Date; size: number }) {
+    const cached = this.entries.get(fsPath);
+    if (
+      cached &&
+      cached.mtime === stat.mtime.getTime() &&
+      cached.sizeBytes === stat.size
+    ) {
+      return cached;
+    }
+    return undefined;
+  }
+
+  /**
+   * 以当前索引内容替换缓存，并延迟写盘
+   */
+  update(entries: Iterable<AssetEntry>) {
+    this.entries = new Map(
+      Array.from(entries, (entry) => [entry.path, entry] as const),
+    );
+    if (this.saveTimer) clearTimeout(this.saveTimer);
+    this.saveTimer = setTimeout(() => this.write(), 1000);
+  }
+
+  async flush() {
+    if (!this.saveTimer) return;
+    clearTimeout(this.saveTimer);
+    await this.write();
+  }
+
+  private async read() {
+    try {
+      const raw = await fs.readFile(this.file, "utf8");
+      const data = JSON.parse(raw) as CacheFile;
+      if (data.version !== CACHE_VERSION || !Array.isArray(data.entries)) {
+        log(`🗑️ 索引缓存版本不匹配（${data.version} ≠ ${CACHE_VERSION}），已忽略`);
+        return;
+      }
+      this.entries = new Map(data.entries.map((entry) => [entry.path, entry]));
+      log(`💾 已加载索引缓存：${this.entries.size} 个条目`);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+        error("读取索引缓存失败", err);
+      }
+    }
+  }
+
+  private async write() {
+    this.saveTimer = undefined;
+    try {
+      const data: CacheFile = {
+        version: CACHE_VERSION,
+        entries: Array.from(this.entries.values()),
+      };
+      await fs.mkdir(this.storageUri.fsPath, { recursive: true });
+      await fs.writeFile(this.file, JSON.stringify(data), "utf8");
+    } catch (err) {
+      error("写入索引缓存失败", err);
+    }
+  }
+}
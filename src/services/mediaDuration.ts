@@ -0,0 +1,186 @@
+import { promises as fs } from "fs";
+
+const HEADER_SIZE = 64 * 1024;
+
+/** MP3 各版本/层的码率表（kbps），索引为帧头中的 bitrate 字段 */
+const MP3_BITRATES: Record<string, number[]> = {
+  "1-1": [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  "1-2": [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  "1-3": [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  "2-1": [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  "2-2": [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+const MP3_SAMPLE_RATES = [44100, 48000, 32000];
+
+/**
+ * 读取音视频时长（秒），支持 MP4/MOV/M4A、WAV、MP3、FLAC、OGG、WebM/MKV，
+ * 无法解析时返回 undefined
+ */
+export async function readMediaDuration(fsPath: string): Promise<number | undefined> {
+  let handle: fs.FileHandle | undefined;
+  try {
+    handle = await fs.open(fsPath, "r");
+    const { size } = await handle.stat();
+    const head = await readAt(handle, 0, HEADER_SIZE);
+    const ascii = (start: number, end: number) => head.toString("latin1", start, end);
+
+    let duration: number | undefined;
+    if (ascii(4, 8) === "ftyp") duration = await mp4Duration(handle, size);
+    else if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WAVE") duration = wavDuration(head);
+    else if (ascii(0, 4) === "fLaC") duration = flacDuration(head);
+    else if (ascii(0, 4) === "OggS") duration = await oggDuration(handle, head, size);
+    else if (head.readUInt32BE(0) === 0x1a45dfa3) duration = ebmlDuration(head);
+    else duration = mp3Duration(head, size);
+    return duration && Number.isFinite(duration) && duration > 0 ? duration : undefined;
+  } catch {
+    return undefined;
+  } finally {
+    await handle?.close();
+  }
+}
+
+/** 时长格式化为 m:ss 或 h:mm:ss */
+export function formatDuration(seconds: number) {
+  const total = Math.round(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, "0");
+  return h ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
+async function readAt(handle: fs.FileHandle, position: number, length: number) {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+}
+
+/** 按盒子头跳转查找 moov/mvhd，moov 位于文件末尾时无需读取媒体数据 */
+async function mp4Duration(handle: fs.FileHandle, size: number) {
+  let offset = 0;
+  let end = size;
+  while (offset + 8 <= end) {
+    const header = await readAt(handle, offset, 16);
+    if (header.length < 8) return undefined;
+    let boxSize = header.readUInt32BE(0);
+    const type = header.toString("latin1", 4, 8);
+    let headerSize = 8;
+    if (boxSize === 1 && header.length >= 16) {
+      boxSize = Number(header.readBigUInt64BE(8));
+      headerSize = 16;
+    } else if (boxSize === 0) {
+      boxSize = end - offset;
+    }
+    if (boxSize < headerSize) return undefined;
+
+    if (type === "moov") {
+      end = offset + boxSize;
+      offset += headerSize;
+      continue;
+    }
+    if (type === "mvhd") {
+      const body = await readAt(handle, offset + headerSize, 32);
+      const version = body[0];
+      const timescale = body.readUInt32BE(version === 1 ? 20 : 12);
+      const duration =
+        version === 1 ? Number(body.readBigUInt64BE(24)) : body.readUInt32BE(16);
+      return timescale ? duration / timescale : undefined;
+    }
+    offset += boxSize;
+  }
+  return undefined;
+}
+
+function wavDuration(buf: Buffer) {
+  let offset = 12;
+  let byteRate = 0;
+  while (offset + 8 <= buf.length) {
+    const id = buf.toString("latin1", offset, offset + 4);
+    const chunkSize = buf.readUInt32LE(offset + 4);
+    if (id === "fmt " && offset + 16 <= buf.length) {
+      byteRate = buf.readUInt32LE(offset + 16);
+    } else if (id === "data") {
+      return byteRate ? chunkSize / byteRate : undefined;
+    }
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+  return undefined;
+}
+
+/** STREAMINFO：20 位采样率 + 36 位总采样数 */
+function flacDuration(buf: Buffer) {
+  if (buf.length < 26) return undefined;
+  const sampleRate = (buf[18] << 12) | (buf[19] << 4) | (buf[20] >> 4);
+  const totalSamples = (buf[21] & 0x0f) * 2 ** 32 + buf.readUInt32BE(22);
+  return sampleRate ? totalSamples / sampleRate : undefined;
+}
+
+/** 最后一页的 granule position 除以采样率（Opus 固定 48kHz） */
+async function oggDuration(handle: fs.FileHandle, head: Buffer, size: number) {
+  let sampleRate: number | undefined;
+  const vorbis = head.indexOf("\x01vorbis", 0, "latin1");
+  if (vorbis >= 0) sampleRate = head.readUInt32LE(vorbis + 12);
+  else if (head.indexOf("OpusHead", 0, "latin1") >= 0) sampleRate = 48000;
+  if (!sampleRate) return undefined;
+
+  const tailStart = Math.max(0, size - HEADER_SIZE);
+  const tail = await readAt(handle, tailStart, size - tailStart);
+  const page = tail.lastIndexOf("OggS", tail.length, "latin1");
+  if (page < 0 || page + 14 > tail.length) return undefined;
+  return Number(tail.readBigUInt64LE(page + 6)) / sampleRate;
+}
+
+/** Segment Info 中的 Duration（浮点，单位为 TimecodeScale 纳秒，默认 1ms） */
+function ebmlDuration(buf: Buffer) {
+  const durationAt = buf.indexOf(Buffer.from([0x44, 0x89]));
+  if (durationAt < 0) return undefined;
+  const sizeByte = buf[durationAt + 2];
+  const value =
+    sizeByte === 0x84
+      ? buf.readFloatBE(durationAt + 3)
+      : sizeByte === 0x88
+        ? buf.readDoubleBE(durationAt + 3)
+        : undefined;
+  if (value === undefined) return undefined;
+
+  let scale = 1_000_000;
+  const scaleAt = buf.indexOf(Buffer.from([0x2a, 0xd7, 0xb1]));
+  if (scaleAt >= 0) {
+    const length = buf[scaleAt + 3] & 0x0f;
+    if (length > 0 && length <= 6) scale = buf.readUIntBE(scaleAt + 4, length);
+  }
+  return (value * scale) / 1e9;
+}
+
+/** 跳过 ID3v2 后读取首帧：有 Xing/Info 头时按帧数计算，否则按恒定码率估算 */
+function mp3Duration(buf: Buffer, size: number) {
+  let offset = 0;
+  if (buf.toString("latin1", 0, 3) === "ID3") {
+    offset =
+      10 + ((buf[6] & 0x7f) << 21) + ((buf[7] & 0x7f) << 14) + ((buf[8] & 0x7f) << 7) + (buf[9] & 0x7f);
+  }
+  const isSync = (i: number) => buf[i] === 0xff && (buf[i + 1] & 0xe0) === 0xe0;
+  // ID3 标签后可能有填充字节；没有标签时首字节必须是帧同步，避免误判其他格式
+  if (offset) {
+    while (offset + 4 <= buf.length && !isSync(offset)) offset++;
+  }
+  if (offset + 4 > buf.length || !isSync(offset)) return undefined;
+
+  const versionBits = (buf[offset + 1] >> 3) & 0x03;
+  const layerBits = (buf[offset + 1] >> 1) & 0x03;
+  if (versionBits === 1 || layerBits === 0) return undefined;
+  const mpeg1 = versionBits === 3;
+  const layer = 4 - layerBits;
+  const bitrate =
+    MP3_BITRATES[`${mpeg1 ? 1 : 2}-${mpeg1 ? layer : Math.min(layer, 2)}`][buf[offset + 2] >> 4];
+  const rateIndex = (buf[offset + 2] >> 2) & 0x03;
+  if (!bitrate || rateIndex === 3) return undefined;
+  const sampleRate = MP3_SAMPLE_RATES[rateIndex] / (versionBits === 3 ? 1 : versionBits === 2 ? 2 : 4);
+  const samplesPerFrame = layer === 1 ? 384 : layer === 3 && !mpeg1 ? 576 : 1152;
+
+  const xing = buf.subarray(offset, offset + 200);
+  const tag = Math.max(xing.indexOf("Xing", 0, "latin1"), xing.indexOf("Info", 0, "latin1"));
+  if (tag >= 0 && tag + 12 <= xing.length && xing.readUInt32BE(tag + 4) & 0x01) {
+    return (xing.readUInt32BE(tag + 8) * samplesPerFrame) / sampleRate;
+  }
+  return ((size - offset) * 8) / (bitrate * 1000);
+}
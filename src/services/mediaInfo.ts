@@ -1,51 +1,53 @@
 import * as vscode from "vscode";
 import * as path from "path";
-import { ResourceType } from "../types";
+import { AssetCategory, OfficeFileType, ResourceType } from "../types";
+import { lookupExtension } from "./categories";
+import { SniffedFormat, isExtensionMismatch } from "./sniff";
 
-export const IMAGE_EXT = [
-  "png", "jpg", "jpeg", "gif", "webp", "avif", "bmp", "svg", "ico",
-];
-export const AUDIO_EXT = ["mp3", "wav", "aac", "flac", "ogg", "m4a", "wma", "opus"];
-export const VIDEO_EXT = [
-  "mp4",
-  "avi",
-  "mov",
-  "mkv",
-  "wmv",
-  "flv",
-  "webm",
-  "m4v",
-  "mpg",
-  "3gp"
-];
-export const FONT_EXT = ["woff", "woff2", "ttf", "otf", "tff"];
-export const OFFICE_EXT = [
-  "pdf", "doc", "docx", "xls", "xlsx", "ppt", "pptx",
-];
-export const OTHER_STATIC_EXT = [
-  "txt", "csv", "json", "xml", "yaml", "yml", "psd", "ai", "eps",
-  "sketch", "fig", "zip", "rar", "7z", "map",
-];
-
-const ALL_RESOURCE_EXT = [
-  ...IMAGE_EXT,
-  ...AUDIO_EXT,
-  ...VIDEO_EXT,
-  ...FONT_EXT,
-  ...OFFICE_EXT,
-  ...OTHER_STATIC_EXT,
-];
+function extOf(text: string) {
+  return path.extname(text).replace(".", "").toLowerCase();
+}
 
 export function detectResourceType(uri: vscode.Uri): ResourceType {
-  const ext = path.extname(uri.fsPath).replace(".", "").toLowerCase();
-  if (IMAGE_EXT.includes(ext)) return "image";
-  if (AUDIO_EXT.includes(ext)) return "audio";
-  if (VIDEO_EXT.includes(ext)) return "video";
-  if (FONT_EXT.includes(ext)) return "font";
-  return "other";
+  return lookupExtension(extOf(uri.fsPath))?.type ?? "other";
 }
 
 export function isResourceExt(text: string): boolean {
-  const ext = path.extname(text).replace(".", "").toLowerCase();
-  return ALL_RESOURCE_EXT.includes(ext);
+  return !!lookupExtension(extOf(text));
+}
+
+/**
+ * 资源所属的侧边栏分类，由分类注册表（内置 + assetManage.categories）决定
+ */
+export function getAssetCategory(uri: vscode.Uri): AssetCategory {
+  return lookupExtension(extOf(uri.fsPath))?.category ?? "others";
+}
+
+/**
+ * 结合扩展名与文件头识别结果确定分类：扩展名与内容不一致、或没有扩展名时以内容为准；
+ * 两者都无法归类时返回 undefined（不进入索引）
+ */
+export function classifyAsset(uri: vscode.Uri, sniffed?: SniffedFormat) {
+  const ext = extOf(uri.fsPath);
+  const extMismatch = isExtensionMismatch(ext, sniffed);
+  // 旧版 Office 复合文档无法细分，统一按 doc 归类
+  const bySniff = sniffed && lookupExtension(sniffed === "ole" ? "doc" : sniffed);
+  if (bySniff && (extMismatch || !ext)) {
+    return { ...bySniff, format: sniffed as string, extMismatch };
+  }
+  const byExt = lookupExtension(ext);
+  return byExt && { ...byExt, format: ext, extMismatch };
+}
+
+/**
+ * @param format 实际格式（扩展名或文件头识别结果），默认取文件扩展名
+ */
+export function getOfficeFileType(
+  uri: vscode.Uri,
+  format = extOf(uri.fsPath),
+): OfficeFileType {
+  if (["docx", "doc", "ole"].includes(format)) return "word";
+  if (["xlsx", "xls"].includes(format)) return "excel";
+  if (["pptx", "ppt"].includes(format)) return "powerpoint";
+  return "pdf";
 }
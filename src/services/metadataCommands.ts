@@ -0,0 +1,84 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { promises as fs } from "fs";
+import { toHumanSize } from "../utils/fsUtils";
+import { log } from "../utils/logger";
+import { BackupStore, showBackupResult } from "./backup";
+import { stripMetadataBuffer } from "./metadataStrip";
+
+/**
+ * 原地去除所选图片的元数据：确认后先备份，完成后可撤销
+ */
+export async function stripImageMetadata(backups: BackupStore, uris: vscode.Uri[]) {
+  const files = uris.map((uri) => uri.fsPath);
+  if (!files.length) return;
+
+  const confirm = vscode.l10n.t("Strip Metadata");
+  const choice = await vscode.window.showWarningMessage(
+    files.length === 1
+      ? vscode.l10n.t("Strip EXIF/IPTC/XMP metadata from {0}?", path.basename(files[0]))
+      : vscode.l10n.t("Strip EXIF/IPTC/XMP metadata from {0} images?", files.length),
+    {
+      modal: true,
+      detail: vscode.l10n.t("The images are rewritten in place without re-encoding. A backup is kept and can be restored."),
+    },
+    confirm,
+  );
+  if (choice !== confirm) return;
+
+  const results: Array<{ file: string; data: Buffer; saved: number }> = [];
+  const unsupported: string[] = [];
+  const failed: string[] = [];
+  for (const file of files) {
+    let original: Buffer;
+    try {
+      original = await fs.readFile(file);
+    } catch (err) {
+      // 文件已被删除、重命名或无法读取时跳过，继续处理其余图片
+      log(`❌ 读取图片失败 ${file}：${err instanceof Error ? err.message : err}`);
+      failed.push(path.basename(file));
+      continue;
+    }
+    const stripped = stripMetadataBuffer(original);
+    if (!stripped) unsupported.push(path.basename(file));
+    else if (stripped.length !== original.length || !stripped.equals(original)) {
+      results.push({ file, data: stripped, saved: original.length - stripped.length });
+    }
+  }
+
+  if (unsupported.length) {
+    vscode.window.showWarningMessage(
+      vscode.l10n.t("Metadata stripping supports JPEG, PNG and WebP only, skipped: {0}", unsupported.join(", ")),
+    );
+  }
+  if (failed.length) {
+    vscode.window.showWarningMessage(
+      vscode.l10n.t("Failed to read {0} image(s), skipped: {1}", failed.length, failed.join(", ")),
+    );
+  }
+  if (!results.length) {
+    if (!unsupported.length && !failed.length) {
+      vscode.window.showInformationMessage(vscode.l10n.t("No metadata to strip"));
+    }
+    return;
+  }
+
+  const backup = await backups.backup(results.map((r) => r.file), "strip-metadata");
+  for (const { file, data } of results) {
+    await fs.writeFile(file, data);
+  }
+  const saved = results.reduce((sum, r) => sum + r.saved, 0);
+  log(`🧹 已去除 ${results.length} 张图片的元数据，减少 ${toHumanSize(saved)}`);
+  await showBackupResult(
+    backups,
+    backup,
+    failed.length
+      ? vscode.l10n.t(
+          "Stripped metadata from {0} image(s), saved {1}; {2} unreadable image(s) skipped",
+          results.length,
+          toHumanSize(saved),
+          failed.length,
+        )
+      : vscode.l10n.t("Stripped metadata from {0} image(s), saved {1}", results.length, toHumanSize(saved)),
+  );
+}
@@ -0,0 +1,135 @@
+import { readOrientation } from "./imageMetadata";
+
+/** 去除后保留的 JPEG 段：JFIF/JFXX(APP0)、ICC 配置(APP2)、Adobe 颜色变换(APP14) */
+const KEPT_JPEG_APP = new Set([0xe0, 0xe2, 0xee]);
+
+/** 去除的 PNG 块：EXIF、文本（含 XMP）与修改时间 */
+const STRIPPED_PNG_CHUNKS = new Set(["eXIf", "tEXt", "zTXt", "iTXt", "tIME"]);
+
+/** VP8X 标志位中的 EXIF 与 XMP */
+const WEBP_EXIF_FLAG = 0x08;
+const WEBP_XMP_FLAG = 0x04;
+
+/**
+ * 无损去除图片中的 EXIF、IPTC、XMP 与注释，只改写容器结构，不重新编码图像数据；
+ * ICC 色彩配置与 EXIF 方向会被保留。格式不支持时返回 undefined
+ */
+export function stripMetadataBuffer(buf: Buffer): Buffer | undefined {
+  if (buf[0] === 0xff && buf[1] === 0xd8) return stripJpeg(buf);
+  if (buf.length > 8 && buf.readUInt32BE(0) === 0x89504e47) return stripPng(buf);
+  if (buf.toString("latin1", 0, 4) === "RIFF" && buf.toString("latin1", 8, 12) === "WEBP") {
+    return stripWebp(buf);
+  }
+  return undefined;
+}
+
+function stripJpeg(buf: Buffer) {
+  const parts: Buffer[] = [buf.subarray(0, 2)];
+  let orientation: number | undefined;
+  let offset = 2;
+  while (offset + 4 <= buf.length) {
+    const marker = buf[offset + 1];
+    if (buf[offset] !== 0xff) return undefined;
+    if (marker === 0xda) break;
+    const end = offset + 2 + buf.readUInt16BE(offset + 2);
+    const isApp = marker >= 0xe0 && marker <= 0xef;
+    if (marker === 0xe1 && buf.toString("latin1", offset + 4, offset + 10) === "Exif\0\0") {
+      orientation ??= readOrientation(buf.subarray(offset + 10, end));
+    }
+    if ((!isApp && marker !== 0xfe) || KEPT_JPEG_APP.has(marker)) {
+      parts.push(buf.subarray(offset, end));
+    }
+    offset = end;
+  }
+  if (orientation && orientation !== 1) {
+    const exif = Buffer.concat([Buffer.from("Exif\0\0", "latin1"), orientationTiff(orientation)]);
+    const segment = Buffer.alloc(4);
+    segment.writeUInt16BE(0xffe1, 0);
+    segment.writeUInt16BE(exif.length + 2, 2);
+    // 放在 APP0 之后（没有 APP0 时紧跟 SOI）
+    const at = parts[1]?.[1] === 0xe0 ? 2 : 1;
+    parts.splice(at, 0, segment, exif);
+  }
+  parts.push(buf.subarray(offset));
+  return Buffer.concat(parts);
+}
+
+function stripPng(buf: Buffer) {
+  const parts: Buffer[] = [buf.subarray(0, 8)];
+  let offset = 8;
+  while (offset + 12 <= buf.length) {
+    const length = buf.readUInt32BE(offset);
+    const type = buf.toString("latin1", offset + 4, offset + 8);
+    const end = offset + 12 + length;
+    if (type === "eXIf") {
+      const orientation = readOrientation(buf.subarray(offset + 8, offset + 8 + length));
+      if (orientation && orientation !== 1) parts.push(pngChunk("eXIf", orientationTiff(orientation)));
+    } else if (!STRIPPED_PNG_CHUNKS.has(type)) {
+      parts.push(buf.subarray(offset, end));
+    }
+    offset = end;
+    if (type === "IEND") break;
+  }
+  return Buffer.concat(parts);
+}
+
+function stripWebp(buf: Buffer) {
+  // 简单格式（VP8/VP8L）不含元数据块
+  if (buf.toString("latin1", 12, 16) !== "VP8X") return buf;
+  const parts: Buffer[] = [];
+  let offset = 12;
+  while (offset + 8 <= buf.length) {
+    const type = buf.toString("latin1", offset, offset + 4);
+    const length = buf.readUInt32LE(offset + 4);
+    const end = Math.min(buf.length, offset + 8 + length + (length % 2));
+    if (type !== "EXIF" && type !== "XMP ") {
+      const chunk = Buffer.from(buf.subarray(offset, end));
+      if (type === "VP8X") chunk[8] &= ~(WEBP_EXIF_FLAG | WEBP_XMP_FLAG);
+      parts.push(chunk);
+    }
+    offset = end;
+  }
+  const header = Buffer.from(buf.subarray(0, 12));
+  const body = Buffer.concat(parts);
+  header.writeUInt32LE(body.length + 4, 4);
+  return Buffer.concat([header, body]);
+}
+
+/** 只含 Orientation 一个字段的最小 TIFF 结构（大端） */
+function orientationTiff(orientation: number) {
+  const tiff = Buffer.alloc(26);
+  tiff.write("MM\0*", 0, "latin1");
+  tiff.writeUInt32BE(8, 4);
+  tiff.writeUInt16BE(1, 8);
+  tiff.writeUInt16BE(0x0112, 10);
+  tiff.writeUInt16BE(3, 12);
+  tiff.writeUInt32BE(1, 14);
+  tiff.writeUInt16BE(orientation, 18);
+  tiff.writeUInt32BE(0, 22);
+  return tiff;
+}
+
+function pngChunk(type: string, data: Buffer) {
+  const chunk = Buffer.alloc(12 + data.length);
+  chunk.writeUInt32BE(data.length, 0);
+  chunk.write(type, 4, "latin1");
+  data.copy(chunk, 8);
+  chunk.writeUInt32BE(crc32(chunk.subarray(4, 8 + data.length)), 8 + data.length);
+  return chunk;
+}
+
+let crcTable: Uint32Array | undefined;
+
+function crc32(data: Buffer) {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of data) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
@@ -0,0 +1,197 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { log } from "../utils/logger";
+import { AssetReference } from "../types";
+import { ALIAS_CONFIG_GLOB, AliasRule, loadAliases } from "./aliasConfig";
+import { cleanReference, formatReference } from "./references";
+
+/** 单个工作区文件夹的解析配置 */
+interface FolderConfig {
+  root: string;
+  /** 按前缀长度降序排列，优先匹配更具体的别名 */
+  aliases: AliasRule[];
+  /** 以 / 开头的 URL 可能由这些目录提供（绝对路径） */
+  publicRoots: string[];
+}
+
+/**
+ * 资源路径解析：在相对路径之外，识别 tsconfig/jsconfig paths、
+ * Vite/webpack 中静态声明的 alias、assetManage.aliases 以及 public 目录，
+ * 把源码中的引用映射到可能的文件路径
+ */
+export class AssetPathResolver implements vscode.Disposable {
+  private configs = new Map<string, FolderConfig>();
+  private loading?: Promise<void>;
+  private disposables: vscode.Disposable[] = [];
+
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  /** 别名或 public 目录配置变化 */
+  readonly onDidChange = this.changeEmitter.event;
+
+  constructor() {
+    const watcher = vscode.workspace.createFileSystemWatcher(ALIAS_CONFIG_GLOB);
+    this.disposables.push(
+      watcher,
+      watcher.onDidCreate(() => this.reset()),
+      watcher.onDidChange(() => this.reset()),
+      watcher.onDidDelete(() => this.reset()),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.reset()),
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (
+          e.affectsConfiguration("assetManage.aliases") ||
+          e.affectsConfiguration("assetManage.publicRoots")
+        ) {
+          this.reset();
+        }
+      }),
+    );
+  }
+
+  /**
+   * 确保各工作区文件夹的别名已读取，解析前调用
+   */
+  async ready() {
+    if (!this.loading) {
+      this.loading = this.load();
+    }
+    await this.loading;
+  }
+
+  /**
+   * 引用可能指向的文件（按优先级排列）：
+   * ./ ../ 相对当前文件；命中别名时为别名目标；/ 开头依次尝试工作区根目录与 public 目录；
+   * 其余裸路径先按当前目录再按根目录解析
+   */
+  resolve(value: string, fromFile: string): string[] {
+    const cleaned = cleanReference(value);
+    const dir = path.dirname(fromFile);
+    if (/^\.\.?\//.test(cleaned)) {
+      return [path.resolve(dir, cleaned)];
+    }
+
+    const config = this.getConfig(fromFile);
+    const aliased = config && this.resolveAlias(cleaned, config);
+    if (aliased) return aliased;
+    if (!config) return [path.resolve(dir, cleaned)];
+
+    if (cleaned.startsWith("/")) {
+      return [config.root, ...config.publicRoots].map((base) => path.join(base, cleaned));
+    }
+    // 样式中的 ~ 前缀表示从模块/别名解析（如 ~assets/x.png、~/assets/x.png）
+    if (cleaned.startsWith("~")) {
+      const rest = cleaned.replace(/^~\/?/, "");
+      return this.resolveAlias(rest, config) ?? [path.join(config.root, rest)];
+    }
+    return [path.resolve(dir, cleaned), path.join(config.root, cleaned)];
+  }
+
+  /**
+   * 能确定指向本地文件的引用：显式的相对/绝对路径、命中别名的路径，
+   * 或 CSS/HTML/Markdown 中的裸路径（相对当前文件）；
+   * 未命中别名的 @、~ 前缀以及 import/普通字符串中的裸路径可能来自依赖包，无法判断
+   */
+  isLocal(ref: Pick<AssetReference, "value" | "kind">, fromFile: string) {
+    const cleaned = cleanReference(ref.value);
+    if (/^\.\.?\//.test(cleaned) || cleaned.startsWith("/")) return true;
+    const config = this.getConfig(fromFile);
+    if (config && this.resolveAlias(cleaned.replace(/^~\/?/, ""), config)) {
+      return true;
+    }
+    if (/^[@~]/.test(cleaned)) return false;
+    return ref.kind === "url" || ref.kind === "attribute" || ref.kind === "markdown";
+  }
+
+  /**
+   * 生成从 fromFile 指向 target 的引用，沿用原引用的写法：
+   * 原引用使用别名且目标仍在别名目录下时保留别名，
+   * 原引用以 / 开头且目标位于 public 目录时生成相对该目录的 URL
+   */
+  format(target: string, fromFile: string, original: string) {
+    const config = this.getConfig(fromFile);
+    const cleaned = cleanReference(original);
+    const suffix = original.match(/[?#].*$/)?.[0] ?? "";
+    if (config && !/^\.\.?\//.test(cleaned)) {
+      const match = this.matchAlias(cleaned.replace(/^~\/?/, ""), config);
+      if (match && match.rule.pattern.endsWith("*")) {
+        const prefix = original.slice(0, original.indexOf(match.rule.pattern.slice(0, -1)));
+        for (const base of match.rule.targets) {
+          const relative = relativeInside(base.replace(/\*$/, ""), target);
+          if (relative !== undefined) {
+            return prefix + match.rule.pattern.slice(0, -1) + relative + suffix;
+          }
+        }
+      }
+      if (cleaned.startsWith("/")) {
+        for (const base of config.publicRoots) {
+          const relative = relativeInside(base, target);
+          if (relative !== undefined) return "/" + relative + suffix;
+        }
+      }
+    }
+    return formatReference(target, fromFile, original, config?.root);
+  }
+
+  dispose() {
+    this.disposables.forEach((d) => d.dispose());
+    this.changeEmitter.dispose();
+  }
+
+  private reset() {
+    this.loading = undefined;
+    this.configs.clear();
+    this.changeEmitter.fire();
+  }
+
+  private async load() {
+    const configs = new Map<string, FolderConfig>();
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      const root = folder.uri.fsPath;
+      const publicRoots = vscode.workspace
+        .getConfiguration("assetManage", folder.uri)
+        .get<string[]>("publicRoots", ["public"]);
+      const aliases = (await loadAliases(folder)).sort(
+        (a, b) => b.pattern.replace("*", "").length - a.pattern.replace("*", "").length,
+      );
+      configs.set(folder.uri.toString(), {
+        root,
+        aliases,
+        publicRoots: publicRoots.map((p) => path.join(root, p)),
+      });
+    }
+    this.configs = configs;
+    log(`🧭 路径解析配置已加载：${configs.size} 个工作区文件夹`);
+  }
+
+  private getConfig(fromFile: string) {
+    const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(fromFile));
+    return folder && this.configs.get(folder.uri.toString());
+  }
+
+  private resolveAlias(value: string, config: FolderConfig) {
+    const match = this.matchAlias(value, config);
+    return match?.rule.targets.map((t) => t.replace("*", match.rest));
+  }
+
+  private matchAlias(value: string, config: FolderConfig) {
+    for (const rule of config.aliases) {
+      if (rule.pattern.endsWith("*")) {
+        const prefix = rule.pattern.slice(0, -1);
+        if (value.startsWith(prefix)) {
+          return { rule, rest: value.slice(prefix.length) };
+        }
+      } else if (value === rule.pattern) {
+        return { rule, rest: "" };
+      }
+    }
+    return undefined;
+  }
+}
+
+/** target 位于 base 目录内时返回相对路径（posix），否则返回 undefined */
+function relativeInside(base: string, target: string) {
+  const relative = path.relative(base, target);
+  if (!relative || relative.startsWith("..") || path.isAbsolute(relative)) {
+    return undefined;
+  }
+  return relative.split(path.sep).join("/");
+}
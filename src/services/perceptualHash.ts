@@ -0,0 +1,156 @@
+import { RawImage } from "./imageCodecs";
+
+/** dHash 的比较网格：每行 9 个采样点得到 8 位，共 8 行 64 位 */
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+const HASH_BITS = 64;
+
+/**
+ * 计算差异哈希（dHash）：缩小为 9×8 灰度图后比较相邻像素的明暗，
+ * 缩放、重新压缩、轻微调色后的图片哈希基本不变。透明像素按白色背景合成
+ */
+export function differenceHash(image: RawImage) {
+  const gray = downscaleGray(image, HASH_WIDTH, HASH_HEIGHT);
+  let hex = "";
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    let byte = 0;
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      const i = y * HASH_WIDTH + x;
+      byte = (byte << 1) | (gray[i] < gray[i + 1] ? 1 : 0);
+    }
+    hex += byte.toString(16).padStart(2, "0");
+  }
+  return hex;
+}
+
+/** 按区域平均缩小为灰度图 */
+function downscaleGray({ data, width, height }: RawImage, outWidth: number, outHeight: number) {
+  const sums = new Float64Array(outWidth * outHeight);
+  const counts = new Uint32Array(outWidth * outHeight);
+  for (let y = 0; y < height; y++) {
+    const row = Math.min(outHeight - 1, Math.floor((y * outHeight) / height)) * outWidth;
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const alpha = data[i + 3] / 255;
+      const luma = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+      const cell = row + Math.min(outWidth - 1, Math.floor((x * outWidth) / width));
+      sums[cell] += luma * alpha + 255 * (1 - alpha);
+      counts[cell]++;
+    }
+  }
+  return Array.from(sums, (sum, i) => (counts[i] ? sum / counts[i] : 255));
+}
+
+/** 相似度（0–100），100 表示哈希完全相同 */
+function similarityOf(distance: number) {
+  return Math.round((1 - distance / HASH_BITS) * 100);
+}
+
+export interface SimilarImage {
+  path: string;
+  /** 相似度百分比 */
+  similarity: number;
+}
+
+interface IndexedImage {
+  perceptualHash: string;
+  hash?: string;
+  /** 哈希拆成的两个 32 位整数，避免比较时反复解析字符串 */
+  words: [number, number];
+}
+
+/**
+ * 增量维护的近似图片索引：只把新增或哈希变化的图片与其余图片比较，删除的图片从相邻列表中移除。
+ * 内容完全相同（文件哈希一致）的图片已作为重复文件展示，不再列出。
+ * version 在结果变化时递增，可作为缓存键
+ */
+export class SimilarImageIndex {
+  private images = new Map<string, IndexedImage>();
+  private similar = new Map<string, SimilarImage[]>();
+  private threshold?: number;
+  version = 0;
+
+  /** 路径 → 相似度不低于阈值的近似图片（按相似度降序），只包含存在近似图片的条目 */
+  get result(): ReadonlyMap<string, SimilarImage[]> {
+    return this.similar;
+  }
+
+  /**
+   * 以当前全部图片更新索引，返回更新后的 version
+   */
+  update(images: Array<{ path: string; perceptualHash: string; hash?: string }>, threshold: number) {
+    if (threshold !== this.threshold) {
+      this.threshold = threshold;
+      this.images.clear();
+      this.similar.clear();
+      this.version++;
+    }
+
+    const current = new Set<string>();
+    const changed: string[] = [];
+    for (const image of images) {
+      current.add(image.path);
+      const previous = this.images.get(image.path);
+      if (previous?.perceptualHash === image.perceptualHash && previous.hash === image.hash) continue;
+      if (previous) this.remove(image.path);
+      this.images.set(image.path, {
+        perceptualHash: image.perceptualHash,
+        hash: image.hash,
+        words: [
+          parseInt(image.perceptualHash.slice(0, 8), 16),
+          parseInt(image.perceptualHash.slice(8, 16), 16),
+        ],
+      });
+      changed.push(image.path);
+    }
+    const removed = [...this.images.keys()].filter((path) => !current.has(path));
+    removed.forEach((path) => this.remove(path));
+    if (!changed.length && !removed.length) return this.version;
+
+    const maxDistance = Math.floor(((100 - threshold) / 100) * HASH_BITS);
+    const touched = new Set<string>();
+    const compared = new Set<string>();
+    for (const path of changed) {
+      const image = this.images.get(path)!;
+      compared.add(path);
+      for (const [other, candidate] of this.images) {
+        // 两张都是本次变化的图片时只比较一次
+        if (compared.has(other)) continue;
+        if (image.hash && image.hash === candidate.hash) continue;
+        const distance =
+          popcount(image.words[0] ^ candidate.words[0]) + popcount(image.words[1] ^ candidate.words[1]);
+        if (distance > maxDistance) continue;
+        const similarity = similarityOf(distance);
+        this.add(path, other, similarity);
+        this.add(other, path, similarity);
+        touched.add(path).add(other);
+      }
+    }
+    touched.forEach((path) => this.similar.get(path)!.sort((a, b) => b.similarity - a.similarity));
+    this.version++;
+    return this.version;
+  }
+
+  private add(from: string, to: string, similarity: number) {
+    const list = this.similar.get(from);
+    if (list) list.push({ path: to, similarity });
+    else this.similar.set(from, [{ path: to, similarity }]);
+  }
+
+  private remove(path: string) {
+    for (const { path: other } of this.similar.get(path) ?? []) {
+      const list = this.similar.get(other)?.filter((item) => item.path !== path);
+      if (list?.length) this.similar.set(other, list);
+      else this.similar.delete(other);
+    }
+    this.similar.delete(path);
+    this.images.delete(path);
+  }
+}
+
+function popcount(value: number) {
+  let v = value >>> 0;
+  v -= (v >>> 1) & 0x55555555;
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+  return Math.imul((v + (v >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24;
+}
@@ -0,0 +1,330 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { promises as fs } from "fs";
+import fg from "fast-glob";
+import picomatch from "picomatch";
+import { pathKey, statSafe } from "../utils/fsUtils";
+import { log, error } from "../utils/logger";
+import { AssetEntry, AssetReference, ReferenceLocation } from "../types";
+import { AssetIndex, getScanPatterns } from "./assetIndex";
+import { IgnoreRules, isIgnoreFile } from "./ignoreRules";
+import {
+  SOURCE_EXTENSIONS,
+  extractReferences,
+  referenceBasename,
+} from "./references";
+import { AssetPathResolver } from "./pathResolver";
+
+const SOURCE_GLOB = `**/*.{${SOURCE_EXTENSIONS.join(",")}}`;
+
+/** 压缩产物与锁文件体积大且不会手写资源路径，跳过 */
+const SOURCE_EXCLUDE = [
+  "**/*.min.js",
+  "**/*.min.css",
+  "**/package-lock.json",
+  "**/composer.lock",
+];
+
+/** 超过该大小的源码文件视为生成产物，不做分析 */
+const MAX_SOURCE_SIZE = 1024 * 1024;
+
+/** 全量分析时每批并发读取的文件数 */
+const READ_CHUNK = 50;
+
+const FLUSH_DELAY = 300;
+
+/**
+ * 源码中的资源引用索引：全量扫描工作区源码并记录每个文件里的资源路径，
+ * 之后随文件保存增量更新；与 AssetIndex 对照即可得出每个资源的使用位置
+ */
+export class ReferenceIndex implements vscode.Disposable {
+  /** 源码文件 → 其中的资源引用 */
+  private files = new Map<string, AssetReference[]>();
+  private building?: Promise<void>;
+  /** 每次全量分析递增，旧的分析发现自己被取代后直接丢弃结果 */
+  private generation = 0;
+  private ignoreRules = new Map<string, IgnoreRules>();
+  /** 资源路径 → 引用位置，引用或资源变化后失效，按需重新计算 */
+  private usage?: Map<string, ReferenceLocation[]>;
+  private pending = new Map<string, "upsert" | "delete">();
+  private flushTimer?: ReturnType<typeof setTimeout>;
+  private disposables: vscode.Disposable[] = [];
+
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  /** 引用关系可能发生变化（源码或资源增删改、配置变更） */
+  readonly onDidChange = this.changeEmitter.event;
+
+  constructor(
+    private readonly assetIndex: AssetIndex,
+    /** 引用路径解析（别名、public 目录），改写引用时也需要用到 */
+    readonly resolver: AssetPathResolver,
+  ) {
+    const watcher = vscode.workspace.createFileSystemWatcher("**/*");
+    this.disposables.push(
+      watcher,
+      watcher.onDidCreate((uri) => this.enqueue(uri, "upsert")),
+      watcher.onDidChange((uri) => this.enqueue(uri, "upsert")),
+      watcher.onDidDelete((uri) => this.enqueue(uri, "delete")),
+      assetIndex.onDidChange(() => this.invalidate()),
+      resolver.onDidChange(() => this.invalidate()),
+      assetIndex.onDidProgress((progress) => {
+        if (progress.done) this.invalidate();
+      }),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.reset()),
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (
+          e.affectsConfiguration("assetManage.scanExclude") ||
+          e.affectsConfiguration("assetManage.respectGitignore") ||
+          e.affectsConfiguration("assetManage.categories")
+        ) {
+          this.reset();
+        } else if (e.affectsConfiguration("assetManage.detectUnused")) {
+          this.invalidate();
+        }
+      }),
+    );
+  }
+
+  /** assetManage.detectUnused 关闭时不做引用分析 */
+  get enabled() {
+    return vscode.workspace
+      .getConfiguration("assetManage")
+      .get<boolean>("detectUnused", true);
+  }
+
+  /**
+   * 资源路径 → 引用位置（含未被引用的资源，值为空数组）；首次调用时触发全量分析
+   */
+  async getUsage(
+    token?: vscode.CancellationToken,
+  ): Promise<Map<string, ReferenceLocation[]>> {
+    while (!token?.isCancellationRequested) {
+      if (!this.building) {
+        this.building = this.build();
+      }
+      const building = this.building;
+      await building;
+      if (building === this.building) break;
+    }
+    const entries = await this.assetIndex.getEntries(token);
+    await this.resolver.ready();
+    if (!this.usage) {
+      this.usage = this.computeUsage(entries);
+    }
+    return this.usage;
+  }
+
+  /** 单个资源的引用位置 */
+  async getUsages(
+    assetPath: string,
+    token?: vscode.CancellationToken,
+  ): Promise<ReferenceLocation[]> {
+    const usage = await this.getUsage(token);
+    return usage.get(pathKey(assetPath)) ?? [];
+  }
+
+  /** 未被任何源码引用的资源 */
+  async getUnused(token?: vscode.CancellationToken): Promise<AssetEntry[]> {
+    const usage = await this.getUsage(token);
+    const entries = await this.assetIndex.getEntries(token);
+    return entries.filter((entry) => usage.get(pathKey(entry.path))?.length === 0);
+  }
+
+  dispose() {
+    this.generation++;
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.disposables.forEach((d) => d.dispose());
+    this.changeEmitter.dispose();
+  }
+
+  /**
+   * 丢弃已有结果，下次访问时重新全量分析
+   */
+  private reset() {
+    this.generation++;
+    this.building = undefined;
+    this.files.clear();
+    this.invalidate();
+  }
+
+  private invalidate() {
+    this.usage = undefined;
+    this.changeEmitter.fire();
+  }
+
+  private async build() {
+    const generation = ++this.generation;
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Window,
+        title: vscode.l10n.t("Analyzing asset references"),
+      },
+      async (progress) => {
+        const start = Date.now();
+        const rules = new Map<string, IgnoreRules>();
+        const sources: string[] = [];
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+          const folderRules = await IgnoreRules.load(folder);
+          rules.set(folder.uri.toString(), folderRules);
+          const files = await fg([SOURCE_GLOB], {
+            cwd: folder.uri.fsPath,
+            ignore: [...getScanPatterns(folder.uri).exclude, ...SOURCE_EXCLUDE],
+            absolute: true,
+            onlyFiles: true,
+            suppressErrors: true,
+          });
+          sources.push(
+            ...files.map(path.normalize).filter((file) => !folderRules.check(file)),
+          );
+        }
+
+        const files = new Map<string, AssetReference[]>();
+        for (let i = 0; i < sources.length; i += READ_CHUNK) {
+          if (generation !== this.generation) return;
+          const chunk = sources.slice(i, i + READ_CHUNK);
+          const results = await Promise.all(chunk.map(readReferences));
+          chunk.forEach((file, index) => {
+            if (results[index]?.length) files.set(file, results[index]!);
+          });
+          progress.report({
+            message: `${Math.min(i + READ_CHUNK, sources.length)}/${sources.length}`,
+          });
+        }
+
+        if (generation !== this.generation) {
+          log(`⏭️ 引用分析已被新的分析取代`);
+          return;
+        }
+        this.files = files;
+        this.ignoreRules = rules;
+        this.invalidate();
+        log(
+          `🔗 资源引用分析完成：${sources.length} 个源码文件，` +
+            `${files.size} 个包含资源引用，耗时 ${Date.now() - start}ms`,
+        );
+      },
+    );
+  }
+
+  /**
+   * 把每条引用解析到索引中的资源：能按路径解析的精确匹配，
+   * 解析不到时按文件名兜底（宁可多算使用，也不误报未使用）
+   */
+  private computeUsage(entries: AssetEntry[]) {
+    const usage = new Map<string, ReferenceLocation[]>();
+    const byName = new Map<string, string[]>();
+    for (const entry of entries) {
+      const key = pathKey(entry.path);
+      usage.set(key, []);
+      const name = entry.name.toLowerCase();
+      if (!byName.has(name)) byName.set(name, []);
+      byName.get(name)!.push(key);
+    }
+
+    for (const [file, refs] of this.files) {
+      for (const ref of refs) {
+        const hit = this.resolver
+          .resolve(ref.value, file)
+          .map(pathKey)
+          .find((key) => usage.has(key));
+        if (hit) {
+          usage.get(hit)!.push({ ...ref, file, exact: true });
+          continue;
+        }
+        for (const key of byName.get(referenceBasename(ref.value)) ?? []) {
+          usage.get(key)!.push({ ...ref, file, exact: false });
+        }
+      }
+    }
+    return usage;
+  }
+
+  /**
+   * 判断文件是否参与引用分析（与全量分析使用同一套规则）
+   */
+  private isSource(fsPath: string) {
+    const workspace = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(fsPath));
+    if (!workspace) return false;
+    const relative = path
+      .relative(workspace.uri.fsPath, fsPath)
+      .split(path.sep)
+      .join("/");
+    const exclude = [...getScanPatterns(workspace.uri).exclude, ...SOURCE_EXCLUDE];
+    return (
+      picomatch.isMatch(relative, SOURCE_GLOB) &&
+      !picomatch.isMatch(relative, exclude) &&
+      !this.ignoreRules.get(workspace.uri.toString())?.check(fsPath)
+    );
+  }
+
+  private enqueue(uri: vscode.Uri, action: "upsert" | "delete") {
+    if (isIgnoreFile(uri.fsPath)) {
+      // 忽略规则变化可能影响任意文件，下次访问时全量重新分析
+      if (this.building) this.reset();
+      return;
+    }
+    this.pending.set(uri.fsPath, action);
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = setTimeout(() => {
+      this.flush().catch((err) => error("增量更新引用索引失败", err));
+    }, FLUSH_DELAY);
+  }
+
+  private async flush() {
+    this.flushTimer = undefined;
+    // 尚未分析过时无需增量维护，首次访问会全量分析
+    if (!this.building) {
+      this.pending.clear();
+      return;
+    }
+    await this.building;
+
+    const pending = Array.from(this.pending.entries());
+    this.pending.clear();
+    let changed = false;
+
+    for (const [fsPath, action] of pending) {
+      if (action === "delete") {
+        // 删除目录时只会上报目录本身
+        for (const key of this.files.keys()) {
+          if (key === fsPath || key.startsWith(fsPath + path.sep)) {
+            this.files.delete(key);
+            changed = true;
+          }
+        }
+        continue;
+      }
+      // 粘贴、复制或检出目录时 watcher 只上报目录本身，需要遍历其中的源码
+      const stat = await statSafe({ fsPath });
+      const candidates = stat?.isDirectory()
+        ? await fg([SOURCE_GLOB], { cwd: fsPath, absolute: true, onlyFiles: true, suppressErrors: true })
+        : [fsPath];
+      for (const file of candidates.map(path.normalize)) {
+        if (!this.isSource(file)) continue;
+        const refs = await readReferences(file);
+        if (refs?.length) {
+          this.files.set(file, refs);
+          changed = true;
+        } else if (this.files.delete(file)) {
+          changed = true;
+        }
+      }
+    }
+
+    if (changed) this.invalidate();
+  }
+}
+
+/**
+ * 读取单个源码文件并提取资源引用；过大或无法读取的文件返回 undefined
+ */
+async function readReferences(file: string) {
+  const stat = await statSafe({ fsPath: file });
+  if (!stat?.isFile() || stat.size > MAX_SOURCE_SIZE) return undefined;
+  try {
+    return extractReferences(await fs.readFile(file, "utf8"));
+  } catch (err) {
+    error(`读取源码文件失败 ${file}`, err);
+    return undefined;
+  }
+}
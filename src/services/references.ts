@@ -0,0 +1,150 @@
+import * as path from "path";
+import { AssetReference } from "../types";
+import { isResourceExt } from "./mediaInfo";
+
+type ReferenceKind = AssetReference["kind"];
+
+/** 参与引用分析的源码文件扩展名 */
+export const SOURCE_EXTENSIONS = [
+  "ts", "tsx", "js", "jsx", "mjs", "cjs", "vue", "svelte", "astro",
+  "css", "scss", "sass", "less", "styl", "html", "htm", "md", "mdx", "json",
+];
+
+/**
+ * 各类引用写法，value 所在的捕获组固定为最后一组；
+ * 顺序即优先级，同一位置被多个模式命中时保留靠前的类型
+ */
+const PATTERNS: { kind: ReferenceKind; regex: RegExp }[] = [
+  // import x from "…" / export … from "…" / import "…"
+  { kind: "import", regex: /\b(?:from|import)\s*(['"])([^'"\n]+?)\1/g },
+  // require("…") / import("…") / new URL("…", import.meta.url)
+  { kind: "import", regex: /\b(?:require|import|URL)\s*\(\s*(['"`])([^'"`\n]+?)\1/g },
+  // CSS url(…)，引号可省略
+  { kind: "url", regex: /\burl\(\s*(['"]?)([^'")\s]+?)\1\s*\)/g },
+  // HTML / Vue / JSX 属性
+  {
+    kind: "attribute",
+    regex: /(?:^|[\s:])(?:src|href|poster|data-src|xlink:href)\s*=\s*(['"])([^'"\n]+?)\1/gm,
+  },
+  // Markdown 链接与图片 [alt](path "title")
+  { kind: "markdown", regex: /\]\(\s*<?([^)\s>]+)/g },
+  // 其余字符串字面量，仅保留看起来像资源路径的值
+  { kind: "string", regex: /(['"`])((?:\\.|(?!\1)[^\\\n])+?)\1/g },
+];
+
+/** srcset 中以逗号分隔的多个候选，每项为「路径 描述符」 */
+const SRCSET = /(?:^|\s)srcset\s*=\s*(['"])([^'"]+)\1/gim;
+
+/**
+ * 从源码文本中提取所有指向已登记资源扩展名的引用（按出现位置排序）
+ */
+export function extractReferences(text: string): AssetReference[] {
+  const found = new Map<number, AssetReference>();
+  const lineStarts = computeLineStarts(text);
+
+  const add = (value: string, start: number, kind: ReferenceKind) => {
+    if (found.has(start) || !isAssetPath(value)) return;
+    const line = lineAt(lineStarts, start);
+    found.set(start, {
+      value,
+      kind,
+      start,
+      end: start + value.length,
+      line,
+      character: start - lineStarts[line],
+    });
+  };
+
+  for (const match of text.matchAll(SRCSET)) {
+    const valueStart = match.index! + match[0].lastIndexOf(match[2]);
+    for (const candidate of match[2].matchAll(/[^\s,]+(?:\s+[\d.]+[wx])?/g)) {
+      const url = candidate[0].split(/\s+/)[0];
+      add(url, valueStart + candidate.index!, "attribute");
+    }
+  }
+
+  for (const { kind, regex } of PATTERNS) {
+    for (const match of text.matchAll(regex)) {
+      const value = match[match.length - 1];
+      if (!value) continue;
+      add(value, match.index! + match[0].lastIndexOf(value), kind);
+    }
+  }
+
+  return Array.from(found.values()).sort((a, b) => a.start - b.start);
+}
+
+/**
+ * 去掉引用中的查询参数与锚点并解码，得到可与文件路径比较的部分
+ */
+export function cleanReference(value: string) {
+  const cleaned = value.replace(/[?#].*$/, "");
+  try {
+    return decodeURI(cleaned);
+  } catch {
+    return cleaned;
+  }
+}
+
+/** 文件是否为参与引用分析的源码文件 */
+export function isSourceFile(fsPath: string) {
+  return SOURCE_EXTENSIONS.includes(path.extname(fsPath).slice(1).toLowerCase());
+}
+
+/**
+ * 生成从 fromFile 指向 target 的引用路径，尽量沿用原引用的写法：
+ * 原引用以 / 开头时使用相对工作区根目录的路径，以 ./ 开头时保留 ./ 前缀，
+ * 原引用经过 URL 编码时同样编码，并保留原有的查询参数与锚点
+ */
+export function formatReference(
+  target: string,
+  fromFile: string,
+  original: string,
+  workspaceRoot?: string,
+) {
+  const suffix = original.match(/[?#].*$/)?.[0] ?? "";
+  const encoded = cleanReference(original) !== original.slice(0, original.length - suffix.length);
+  const toPosix = (p: string) => {
+    const posix = p.split(path.sep).join("/");
+    return encoded ? encodeURI(posix) : posix;
+  };
+  if (original.startsWith("/") && workspaceRoot) {
+    return "/" + toPosix(path.relative(workspaceRoot, target)) + suffix;
+  }
+  let relative = toPosix(path.relative(path.dirname(fromFile), target));
+  if (!relative.startsWith(".") && original.startsWith("./")) {
+    relative = "./" + relative;
+  }
+  return relative + suffix;
+}
+
+/** 引用的文件名部分（小写），路径无法解析时按文件名兜底匹配 */
+export function referenceBasename(value: string) {
+  return path.posix.basename(cleanReference(value).replace(/\\/g, "/")).toLowerCase();
+}
+
+function isAssetPath(value: string) {
+  if (/^(?:[a-z][a-z\d+.-]*:|\/\/|#)/i.test(value)) return false;
+  // 含空白或模板插值的字符串不是静态路径
+  if (/\s|\$\{|\{\{/.test(value)) return false;
+  return isResourceExt(cleanReference(value));
+}
+
+function computeLineStarts(text: string) {
+  const starts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) === 10) starts.push(i + 1);
+  }
+  return starts;
+}
+
+function lineAt(lineStarts: number[], offset: number) {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (lineStarts[mid] <= offset) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+}
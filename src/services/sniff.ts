@@ -0,0 +1,247 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+
+/** 读取文件头的字节数：足以覆盖 ZIP 首个条目名与 SVG 前导的 XML 声明 */
+const HEADER_SIZE = 4096;
+
+/**
+ * 按文件头识别的格式，取值为该格式的规范扩展名（不带点），
+ * ole 为旧版 Office 使用的复合文档格式
+ */
+export type SniffedFormat =
+  | "png" | "jpg" | "gif" | "webp" | "avif" | "heic" | "bmp" | "ico" | "tiff" | "svg" | "psd"
+  | "pdf" | "zip" | "docx" | "xlsx" | "pptx" | "ole" | "gz" | "7z" | "rar"
+  | "woff" | "woff2" | "otf" | "ttf" | "ttc"
+  | "mp4" | "mov" | "m4a" | "3gp" | "webm" | "mkv" | "avi" | "flv" | "mpg"
+  | "mp3" | "wav" | "ogg" | "flac" | "aac" | "wma";
+
+/**
+ * 与识别格式兼容的扩展名：同一容器的常见别名不视为不匹配
+ * （如 TrueType 轮廓的 .otf、ZIP 容器的 .sketch、PDF 兼容的 .ai）
+ */
+const COMPATIBLE_EXT: Partial<Record<SniffedFormat, string[]>> = {
+  jpg: ["jpg", "jpeg", "jpe", "jfif"],
+  tiff: ["tif", "tiff"],
+  svg: ["svg", "xml"],
+  pdf: ["pdf", "ai"],
+  zip: ["zip", "sketch", "docx", "xlsx", "pptx", "jar", "apk"],
+  ole: ["doc", "xls", "ppt", "msg"],
+  otf: ["otf", "ttf", "tff"],
+  ttf: ["ttf", "tff", "otf"],
+  ttc: ["ttc", "ttf", "otf"],
+  mp4: ["mp4", "m4v", "m4a", "mov", "3gp"],
+  mov: ["mov", "mp4", "m4v"],
+  m4a: ["m4a", "mp4", "aac"],
+  "3gp": ["3gp", "mp4"],
+  webm: ["webm", "mkv"],
+  mkv: ["mkv", "webm"],
+  ogg: ["ogg", "oga", "opus"],
+  aac: ["aac", "m4a"],
+  wma: ["wma", "wmv"],
+  gz: ["gz", "tgz", "svgz"],
+};
+
+/** 没有 magic number 的文本格式，识别出二进制格式时视为不匹配 */
+const TEXT_EXT = ["txt", "csv", "json", "xml", "yaml", "yml", "map", "md"];
+
+/**
+ * 能从扩展名推断出预期格式的扩展名；其余扩展名（如基于 ZIP 的 .lottie）
+ * 无法判断是否与内容一致，不参与不匹配检测
+ */
+const KNOWN_EXT = new Set([
+  ...Object.values(COMPATIBLE_EXT).flat(),
+  "png", "gif", "webp", "avif", "heic", "bmp", "ico", "psd",
+  "woff", "woff2", "avi", "flv", "mpg", "mp3", "wav", "flac", "7z", "rar",
+  ...TEXT_EXT,
+]);
+
+/**
+ * 签名只有 2~4 字节、文本也可能以此开头的格式。即使校验了头部字段，
+ * 也不让它们推翻文本或文档扩展名
+ */
+const WEAK_FORMATS = new Set<SniffedFormat>(["bmp", "ico", "tiff", "flv", "mpg", "mp3", "aac", "ttf", "otf"]);
+const DOCUMENT_EXT = new Set([...TEXT_EXT, "pdf", "doc", "docx", "xls", "xlsx", "ppt", "pptx", "rtf"]);
+
+/**
+ * MPEG/ADTS 帧同步只有 11~12 位，容易误中其他二进制或 UTF-16 文本，
+ * 仅在没有扩展名或扩展名本身是音频时使用
+ */
+const FRAME_SYNC_EXT = new Set(["", "mp3", "mp2", "mpga", "aac"]);
+
+/**
+ * 读取文件头并按 magic number 识别真实格式，无法识别（含纯文本格式）时返回 undefined
+ */
+export async function sniffFile(fsPath: string): Promise<SniffedFormat | undefined> {
+  let handle: fs.FileHandle | undefined;
+  try {
+    handle = await fs.open(fsPath, "r");
+    const buffer = Buffer.alloc(HEADER_SIZE);
+    const { bytesRead } = await handle.read(buffer, 0, HEADER_SIZE, 0);
+    return sniffBuffer(buffer.subarray(0, bytesRead), path.extname(fsPath));
+  } catch {
+    return undefined;
+  } finally {
+    await handle?.close();
+  }
+}
+
+/**
+ * 按文件头识别格式；ext 为文件扩展名，省略时视为没有扩展名
+ */
+export function sniffBuffer(buf: Buffer, ext = ""): SniffedFormat | undefined {
+  const normalized = ext.replace(/^\./, "").toLowerCase();
+  const format = sniffHeader(buf, normalized);
+  if (format && WEAK_FORMATS.has(format) && DOCUMENT_EXT.has(normalized)) return undefined;
+  return format;
+}
+
+function sniffHeader(buf: Buffer, ext: string): SniffedFormat | undefined {
+  const ascii = (start: number, end: number) => buf.toString("latin1", start, end);
+  const startsWith = (...bytes: number[]) => bytes.every((b, i) => buf[i] === b);
+
+  if (startsWith(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a)) return "png";
+  if (startsWith(0xff, 0xd8, 0xff)) return "jpg";
+  if (ascii(0, 4) === "GIF8") return "gif";
+  if (ascii(0, 2) === "BM" && isBmpHeader(buf)) return "bmp";
+  if ((startsWith(0x00, 0x00, 0x01, 0x00) || startsWith(0x00, 0x00, 0x02, 0x00)) && isIcoHeader(buf)) {
+    return "ico";
+  }
+  if (startsWith(0x49, 0x49, 0x2a, 0x00) || startsWith(0x4d, 0x4d, 0x00, 0x2a)) return "tiff";
+  if (ascii(0, 4) === "8BPS") return "psd";
+  if (ascii(0, 5) === "%PDF-") return "pdf";
+
+  if (ascii(0, 4) === "RIFF") {
+    switch (ascii(8, 12)) {
+      case "WEBP": return "webp";
+      case "WAVE": return "wav";
+      case "AVI ": return "avi";
+    }
+  }
+
+  // ISO BMFF（MP4/MOV/AVIF/HEIC 等）：第 4~8 字节为 ftyp，随后是主品牌
+  if (ascii(4, 8) === "ftyp") {
+    const brand = ascii(8, 12);
+    if (brand === "avif" || brand === "avis") return "avif";
+    if (["heic", "heix", "mif1", "msf1"].includes(brand)) return "heic";
+    if (brand === "qt  ") return "mov";
+    if (brand === "M4A " || brand === "M4B ") return "m4a";
+    if (brand.startsWith("3g")) return "3gp";
+    return "mp4";
+  }
+
+  if (startsWith(0x1a, 0x45, 0xdf, 0xa3)) {
+    // Matroska 的 DocType 出现在 EBML 头部
+    return ascii(0, 64).includes("webm") ? "webm" : "mkv";
+  }
+  // FLV 版本号为 1，头部长度固定为 9
+  if (ascii(0, 3) === "FLV" && buf[3] === 0x01 && buf.length >= 9 && buf.readUInt32BE(5) === 9) {
+    return "flv";
+  }
+  if (startsWith(0x00, 0x00, 0x01, 0xba) || startsWith(0x00, 0x00, 0x01, 0xb3)) return "mpg";
+
+  if (ascii(0, 4) === "OggS") return "ogg";
+  if (ascii(0, 4) === "fLaC") return "flac";
+  if (ascii(0, 3) === "ID3" && isId3Header(buf)) return "mp3";
+  // UTF-16 的 BOM（FF FE / FE FF）会被误认为帧同步，按文本处理
+  if (startsWith(0xff, 0xfe) || startsWith(0xfe, 0xff)) return undefined;
+  if (FRAME_SYNC_EXT.has(ext)) {
+    if (isAdtsHeader(buf)) return "aac";
+    if (isMpegAudioHeader(buf)) return "mp3";
+  }
+  if (startsWith(0x30, 0x26, 0xb2, 0x75, 0x8e, 0x66, 0xcf, 0x11)) return "wma";
+
+  if (ascii(0, 4) === "wOFF") return "woff";
+  if (ascii(0, 4) === "wOF2") return "woff2";
+  if (ascii(0, 4) === "OTTO" && isSfntHeader(buf)) return "otf";
+  if (ascii(0, 4) === "ttcf") return "ttc";
+  if ((startsWith(0x00, 0x01, 0x00, 0x00) || ascii(0, 4) === "true") && isSfntHeader(buf)) return "ttf";
+
+  if (ascii(0, 4) === "PK\x03\x04") {
+    // OOXML 的首个条目通常是 [Content_Types].xml，正文目录名紧随其后
+    const head = ascii(0, buf.length);
+    if (head.includes("word/")) return "docx";
+    if (head.includes("xl/")) return "xlsx";
+    if (head.includes("ppt/")) return "pptx";
+    return "zip";
+  }
+  if (startsWith(0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1)) return "ole";
+  if (startsWith(0x1f, 0x8b)) return "gz";
+  if (startsWith(0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c)) return "7z";
+  if (ascii(0, 4) === "Rar!") return "rar";
+
+  const text = buf.toString("utf8").replace(/^\uFEFF/, "").trimStart();
+  if (/^(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*(<!DOCTYPE svg[^>]*>\s*)?<svg[\s>]/i.test(text)) {
+    return "svg";
+  }
+  return undefined;
+}
+
+/**
+ * BMP 文件头：两个保留字段为 0，信息头长度为已知版本（12/40/52/56/64/108/124），
+ * 像素数据偏移不小于两个头部之和
+ */
+function isBmpHeader(buf: Buffer) {
+  if (buf.length < 18 || buf.readUInt32LE(6) !== 0) return false;
+  const infoSize = buf.readUInt32LE(14);
+  return [12, 40, 52, 56, 64, 108, 124].includes(infoSize) && buf.readUInt32LE(10) >= 14 + infoSize;
+}
+
+/**
+ * ICO/CUR 目录：图像数量为 1~255，首个目录项的保留字节为 0，
+ * 图像数据位于目录之后
+ */
+function isIcoHeader(buf: Buffer) {
+  if (buf.length < 22) return false;
+  const count = buf.readUInt16LE(4);
+  return count > 0 && count < 256 && buf[9] === 0 && buf.readUInt32LE(18) >= 6 + count * 16;
+}
+
+/**
+ * ID3v2 标签头：主版本为 2~4，修订号不为 FF，长度为 synchsafe 整数（每字节最高位为 0）
+ */
+function isId3Header(buf: Buffer) {
+  return (
+    buf.length >= 10 &&
+    buf[3] >= 2 && buf[3] <= 4 &&
+    buf[4] !== 0xff &&
+    [6, 7, 8, 9].every((i) => buf[i] < 0x80)
+  );
+}
+
+/**
+ * TrueType/OpenType 表目录：表数量合理，searchRange 与表数量一致
+ */
+function isSfntHeader(buf: Buffer) {
+  if (buf.length < 12) return false;
+  const numTables = buf.readUInt16BE(4);
+  if (numTables === 0 || numTables > 128) return false;
+  return buf.readUInt16BE(6) === 16 * 2 ** Math.floor(Math.log2(numTables));
+}
+
+/**
+ * ADTS 帧头：12 位同步字、layer 为 00、采样率索引不超过 12
+ */
+function isAdtsHeader(buf: Buffer) {
+  return buf.length >= 3 && buf[0] === 0xff && (buf[1] & 0xf6) === 0xf0 && ((buf[2] >> 2) & 0x0f) <= 12;
+}
+
+/**
+ * MPEG 音频帧头：11 位同步字，版本与 layer 不为保留值，码率索引不为 1111，采样率索引不为 11
+ */
+function isMpegAudioHeader(buf: Buffer) {
+  if (buf.length < 3 || buf[0] !== 0xff || (buf[1] & 0xe0) !== 0xe0) return false;
+  const version = (buf[1] >> 3) & 0x03;
+  const layer = (buf[1] >> 1) & 0x03;
+  const bitrate = buf[2] >> 4;
+  const sampleRate = (buf[2] >> 2) & 0x03;
+  return version !== 0b01 && layer !== 0b00 && bitrate !== 0b1111 && sampleRate !== 0b11;
+}
+
+/**
+ * 扩展名与识别格式是否一致；无法识别格式或扩展名不表明具体格式时不判定为不匹配
+ */
+export function isExtensionMismatch(ext: string, format: SniffedFormat | undefined) {
+  const normalized = ext.replace(/^\./, "").toLowerCase();
+  if (!format || !KNOWN_EXT.has(normalized)) return false;
+  return !(COMPATIBLE_EXT[format] ?? [format]).includes(normalized);
+}
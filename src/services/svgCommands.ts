@@ -0,0 +1,203 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { promises as fs } from "fs";
+import { statSafe, toHumanSize } from "../utils/fsUtils";
+import { log } from "../utils/logger";
+import { BackupStore, showBackupResult } from "./backup";
+import {
+  ComponentFramework,
+  barrelExport,
+  componentName,
+  svgToComponent,
+} from "./svgComponents";
+import { optimizeSvg } from "./svgInspector";
+
+/**
+ * 用 svgo 优化 SVG 并覆盖原文件（保留 viewBox），先备份，完成后可撤销
+ */
+export async function optimizeSvgFile(backups: BackupStore, uri: vscode.Uri) {
+  const name = path.basename(uri.fsPath);
+  let optimized: string;
+  let originalSize: number;
+  try {
+    const source = await fs.readFile(uri.fsPath, "utf8");
+    originalSize = Buffer.byteLength(source);
+    optimized = optimizeSvg(source);
+  } catch (err) {
+    vscode.window.showErrorMessage(
+      vscode.l10n.t("Failed to optimize {0}: {1}", name, err instanceof Error ? err.message : String(err)),
+    );
+    return;
+  }
+
+  const size = Buffer.byteLength(optimized);
+  if (size >= originalSize) {
+    vscode.window.showInformationMessage(vscode.l10n.t("{0} is already optimized", name));
+    return;
+  }
+
+  const backup = await backups.backup([uri.fsPath], "optimize-svg");
+  await fs.writeFile(uri.fsPath, optimized);
+  const percent = Math.round(((originalSize - size) / originalSize) * 100);
+  log(`✨ 已优化 SVG ${vscode.workspace.asRelativePath(uri)}：${toHumanSize(originalSize)} → ${toHumanSize(size)}`);
+  await showBackupResult(
+    backups,
+    backup,
+    vscode.l10n.t(
+      "Optimized {0}: {1} → {2} (-{3}%)",
+      name,
+      toHumanSize(originalSize),
+      toHumanSize(size),
+      percent,
+    ),
+  );
+}
+
+/**
+ * 把所选 SVG（文件夹则包含其中全部 SVG）生成为 React 或 Vue 图标组件，
+ * 写入配置的输出目录，并在 index.ts 中补充导出
+ */
+export async function generateSvgComponents(uris: vscode.Uri[]) {
+  const files = await collectSvgFiles(uris);
+  if (!files.length) {
+    vscode.window.showInformationMessage(vscode.l10n.t("No SVG files selected"));
+    return;
+  }
+
+  const config = vscode.workspace.getConfiguration("assetManage");
+  const title = vscode.l10n.t("Generate components from {0} SVG(s)", files.length);
+  const preferred = config.get<ComponentFramework>("svgComponentFramework", "react");
+  const frameworks = [
+    { label: "React", description: "TSX", framework: "react" as const },
+    { label: "Vue", description: vscode.l10n.t("Single-file component"), framework: "vue" as const },
+  ];
+  // 配置的框架排在首位，作为默认选中项
+  const frameworkPick = await vscode.window.showQuickPick(
+    [
+      ...frameworks.filter((item) => item.framework === preferred),
+      ...frameworks.filter((item) => item.framework !== preferred),
+    ],
+    { title },
+  );
+  if (!frameworkPick) return;
+  const { framework } = frameworkPick;
+
+  const currentColorItem: vscode.QuickPickItem = {
+    label: vscode.l10n.t("Replace hard-coded colors with currentColor"),
+    description: vscode.l10n.t("Icons follow the text color"),
+    picked: config.get<boolean>("svgComponentCurrentColor", true),
+  };
+  const options = await vscode.window.showQuickPick([currentColorItem], {
+    title,
+    canPickMany: true,
+  });
+  if (!options) return;
+
+  // 输出目录相对第一个文件所在的工作区文件夹
+  const workspace = vscode.workspace.getWorkspaceFolder(files[0]);
+  const outDir = path.resolve(
+    workspace?.uri.fsPath ?? path.dirname(files[0].fsPath),
+    config.get<string>("svgComponentOutDir", "src/components/icons"),
+  );
+  const template = config.get<string>("svgComponentName", "{Name}Icon");
+  const ext = framework === "react" ? ".tsx" : ".vue";
+  const components = files.map((file) => {
+    const name = componentName(template, path.basename(file.fsPath, path.extname(file.fsPath)));
+    return { file, name, target: path.join(outDir, name + ext) };
+  });
+
+  const seen = new Map<string, string>();
+  for (const { file, name } of components) {
+    const previous = seen.get(name);
+    if (previous) {
+      vscode.window.showErrorMessage(
+        vscode.l10n.t("{0} and {1} both produce component {2}", previous, path.basename(file.fsPath), name),
+      );
+      return;
+    }
+    seen.set(name, path.basename(file.fsPath));
+  }
+
+  const existing: string[] = [];
+  for (const { target } of components) {
+    if (await statSafe({ fsPath: target })) existing.push(path.basename(target));
+  }
+  if (existing.length) {
+    const overwrite = vscode.l10n.t("Overwrite");
+    const choice = await vscode.window.showWarningMessage(
+      vscode.l10n.t("{0} already exist. Overwrite?", existing.join(", ")),
+      { modal: true },
+      overwrite,
+    );
+    if (choice !== overwrite) return;
+  }
+
+  await fs.mkdir(outDir, { recursive: true });
+  const written: string[] = [];
+  const failed: string[] = [];
+  for (const { file, name, target } of components) {
+    try {
+      const source = await fs.readFile(file.fsPath, "utf8");
+      const code = svgToComponent(source, {
+        framework,
+        name,
+        currentColor: options.includes(currentColorItem),
+      });
+      await fs.writeFile(target, code);
+      written.push(name);
+    } catch (err) {
+      log(`❌ 生成组件失败 ${file.fsPath}：${err instanceof Error ? err.message : err}`);
+      failed.push(path.basename(file.fsPath));
+    }
+  }
+  if (failed.length) {
+    vscode.window.showWarningMessage(
+      vscode.l10n.t("Failed to convert {0} SVG(s): {1}", failed.length, failed.join(", ")),
+    );
+  }
+  if (!written.length) return;
+
+  const index = vscode.Uri.file(path.join(outDir, "index.ts"));
+  await updateBarrel(index.fsPath, written.map((name) => barrelExport(name, framework)));
+  log(`🧩 已生成 ${written.length} 个 ${frameworkPick.label} 组件：${vscode.workspace.asRelativePath(outDir)}`);
+
+  const open = vscode.l10n.t("Open index.ts");
+  const choice = await vscode.window.showInformationMessage(
+    vscode.l10n.t(
+      "Generated {0} component(s) in {1}",
+      written.length,
+      vscode.workspace.asRelativePath(outDir),
+    ),
+    open,
+  );
+  if (choice === open) await vscode.window.showTextDocument(index);
+}
+
+/**
+ * 展开所选项：文件夹按 glob 查找其中的 SVG，文件按扩展名过滤
+ */
+async function collectSvgFiles(uris: vscode.Uri[]) {
+  const files = new Map<string, vscode.Uri>();
+  for (const uri of uris) {
+    const stat = await statSafe(uri);
+    if (stat?.isDirectory()) {
+      const found = await vscode.workspace.findFiles(new vscode.RelativePattern(uri, "**/*.svg"));
+      found.forEach((file) => files.set(file.fsPath, file));
+    } else if (/\.svg$/i.test(uri.fsPath)) {
+      files.set(uri.fsPath, uri);
+    }
+  }
+  return [...files.values()].sort((a, b) => a.fsPath.localeCompare(b.fsPath));
+}
+
+/**
+ * 在已有的 index.ts 末尾补充缺少的导出，保留原有内容
+ */
+async function updateBarrel(file: string, exports: string[]) {
+  const current = await fs.readFile(file, "utf8").catch(() => "");
+  const lines = new Set(current.split(/\r?\n/).map((line) => line.trim()));
+  const missing = exports.filter((line) => !lines.has(line));
+  if (!missing.length) return;
+  const prefix = current && !current.endsWith("\n") ? `${current}\n` : current;
+  await fs.writeFile(file, `${prefix}${missing.join("\n")}\n`);
+}
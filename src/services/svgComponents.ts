@@ -0,0 +1,220 @@
+import { CustomPlugin, XastChild, XastElement, XastRoot, optimize } from "svgo";
+
+export type ComponentFramework = "react" | "vue";
+
+export interface SvgComponentOptions {
+  framework: ComponentFramework;
+  /** 组件名，已是合法的标识符 */
+  name: string;
+  /** 把写死的填充与描边颜色替换为 currentColor，图标颜色随文字颜色变化 */
+  currentColor: boolean;
+}
+
+/** 不替换为 currentColor 的颜色值 */
+const KEEP_COLORS = new Set(["none", "currentcolor", "inherit", "transparent"]);
+const COLOR_ATTRIBUTES = new Set(["fill", "stroke", "stop-color", "flood-color", "lighting-color", "color"]);
+
+/** React 中名称与 SVG 属性规则不一致的属性 */
+const JSX_ATTRIBUTES: Record<string, string> = {
+  class: "className",
+  for: "htmlFor",
+  tabindex: "tabIndex",
+};
+
+/**
+ * 按命名模板生成组件名：{name} 为原文件名，{Name} 为其大驼峰形式，
+ * 结果中的非法字符被去除，以数字开头时加上 Svg 前缀
+ */
+export function componentName(template: string, fileName: string) {
+  const pascal = fileName
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join("");
+  const name = template
+    .replace(/\{Name\}/g, pascal)
+    .replace(/\{name\}/g, fileName)
+    .replace(/[^a-zA-Z0-9_$]/g, "");
+  return /^[0-9]/.test(name) ? `Svg${name}` : name || "SvgIcon";
+}
+
+/**
+ * 把 SVG 源码转换为 React（TSX）或 Vue 单文件组件：先经 svgo 优化，
+ * 根元素的宽高改为 1em（保留 viewBox），React 组件透传 props，Vue 组件由属性透传自动继承
+ */
+export function svgToComponent(source: string, options: SvgComponentOptions) {
+  let root: XastRoot | undefined;
+  const capture: CustomPlugin = {
+    name: "captureTree",
+    fn: (tree) => {
+      root = tree;
+    },
+  };
+  optimize(source, {
+    plugins: [
+      "preset-default",
+      // cleanupIds 会把 id 缩短为 a、b…，同页多个图标时 url(#a) 会指向别的图标，按组件名加前缀
+      { name: "prefixIds", params: { prefix: options.name } },
+      ...(options.currentColor ? [currentColorPlugin()] : []),
+      resizeRootPlugin(),
+      capture,
+    ],
+  });
+  const svg = root?.children.find(
+    (child): child is XastElement => child.type === "element" && child.name === "svg",
+  );
+  if (!svg) throw new Error("No <svg> element found");
+
+  return options.framework === "react"
+    ? reactComponent(svg, options.name)
+    : vueComponent(svg, options.name);
+}
+
+/**
+ * 生成 index 桶文件的导出语句
+ */
+export function barrelExport(name: string, framework: ComponentFramework) {
+  return framework === "react"
+    ? `export { default as ${name} } from "./${name}";`
+    : `export { default as ${name} } from "./${name}.vue";`;
+}
+
+function currentColorPlugin(): CustomPlugin {
+  const replace = (value: string) =>
+    KEEP_COLORS.has(value.trim().toLowerCase()) || value.trim().startsWith("url(")
+      ? value
+      : "currentColor";
+  return {
+    name: "replaceColors",
+    fn: () => ({
+      element: {
+        enter(node) {
+          for (const [name, value] of Object.entries(node.attributes)) {
+            if (COLOR_ATTRIBUTES.has(name)) node.attributes[name] = replace(value);
+          }
+          if (node.attributes.style) {
+            node.attributes.style = node.attributes.style.replace(
+              /((?:^|;)\s*(?:fill|stroke|stop-color|color)\s*:)([^;]+)/g,
+              (_, prop: string, value: string) => prop + replace(value),
+            );
+          }
+          // 未指定填充的图形默认为黑色，改为继承根元素的 currentColor
+          if (node.name === "svg" && !node.attributes.fill) {
+            node.attributes.fill = "currentColor";
+          }
+        },
+      },
+    }),
+  };
+}
+
+function resizeRootPlugin(): CustomPlugin {
+  return {
+    name: "resizeRoot",
+    fn: () => ({
+      element: {
+        enter(node, parent) {
+          if (node.name !== "svg" || parent.type !== "root") return;
+          const { width, height } = node.attributes;
+          if (!node.attributes.viewBox && width && height) {
+            node.attributes.viewBox = `0 0 ${parseFloat(width)} ${parseFloat(height)}`;
+          }
+          node.attributes.width = "1em";
+          node.attributes.height = "1em";
+        },
+      },
+    }),
+  };
+}
+
+function reactComponent(svg: XastElement, name: string) {
+  const attributes = jsxAttributes(svg.attributes);
+  const children = svg.children.map((child) => jsxNode(child, 3)).filter(Boolean);
+  const open = `    <svg${attributes} {...props}>`;
+  return [
+    `import type { SVGProps } from "react";`,
+    ``,
+    `export default function ${name}(props: SVGProps<SVGSVGElement>) {`,
+    `  return (`,
+    ...(children.length ? [open, ...children, `    </svg>`] : [`    <svg${attributes} {...props} />`]),
+    `  );`,
+    `}`,
+    ``,
+  ].join("\n");
+}
+
+function vueComponent(svg: XastElement, name: string) {
+  return [
+    `<template>`,
+    xmlNode(svg, 1),
+    `</template>`,
+    ``,
+    `<script setup lang="ts">`,
+    `defineOptions({ name: "${name}" });`,
+    `</script>`,
+    ``,
+  ].join("\n");
+}
+
+function jsxNode(node: XastChild, depth: number): string {
+  const indent = "  ".repeat(depth);
+  if (node.type === "text" || node.type === "cdata") {
+    return node.value.trim() ? `${indent}{${JSON.stringify(node.value)}}` : "";
+  }
+  if (node.type !== "element") return "";
+  const attributes = jsxAttributes(node.attributes);
+  const children = node.children.map((child) => jsxNode(child, depth + 1)).filter(Boolean);
+  if (!children.length) return `${indent}<${node.name}${attributes} />`;
+  return [`${indent}<${node.name}${attributes}>`, ...children, `${indent}</${node.name}>`].join("\n");
+}
+
+function jsxAttributes(attributes: Record<string, string>) {
+  return Object.entries(attributes)
+    .map(([name, value]) => {
+      const jsxName = jsxAttributeName(name);
+      if (name === "style") return ` style={${styleObject(value)}}`;
+      return value.includes('"')
+        ? ` ${jsxName}={${JSON.stringify(value)}}`
+        : ` ${jsxName}="${value}"`;
+    })
+    .join("");
+}
+
+/** data-* 与 aria-* 保持原样，其余带连字符或命名空间的属性转为驼峰 */
+function jsxAttributeName(name: string) {
+  if (JSX_ATTRIBUTES[name]) return JSX_ATTRIBUTES[name];
+  if (/^(data|aria)-/.test(name)) return name;
+  return name.replace(/[-:]([a-z])/g, (_, char: string) => char.toUpperCase());
+}
+
+function styleObject(style: string) {
+  const entries = style
+    .split(";")
+    .map((declaration) => declaration.split(/:(.*)/s))
+    .filter(([prop, value]) => prop?.trim() && value?.trim())
+    .map(([prop, value]) => {
+      const key = prop.trim().startsWith("--")
+        ? JSON.stringify(prop.trim())
+        : prop.trim().replace(/-([a-z])/g, (_, char: string) => char.toUpperCase());
+      return `${key}: ${JSON.stringify(value.trim())}`;
+    });
+  return `{ ${entries.join(", ")} }`;
+}
+
+function xmlNode(node: XastChild, depth: number): string {
+  const indent = "  ".repeat(depth);
+  if (node.type === "text" || node.type === "cdata") {
+    return node.value.trim() ? `${indent}${escapeXml(node.value.trim())}` : "";
+  }
+  if (node.type !== "element") return "";
+  const attributes = Object.entries(node.attributes)
+    .map(([name, value]) => ` ${name}="${escapeXml(value).replace(/"/g, "&quot;")}"`)
+    .join("");
+  const children = node.children.map((child) => xmlNode(child, depth + 1)).filter(Boolean);
+  if (!children.length) return `${indent}<${node.name}${attributes} />`;
+  return [`${indent}<${node.name}${attributes}>`, ...children, `${indent}</${node.name}>`].join("\n");
+}
+
+function escapeXml(value: string) {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
@@ -0,0 +1,127 @@
+import { Config, CustomPlugin, XastElement, optimize } from "svgo";
+import { toHumanSize } from "../utils/fsUtils";
+import { SvgInspection, SvgWarning } from "../types";
+
+/** 发送到 webview 的源码上限，超出部分不显示 */
+const MAX_SOURCE_LENGTH = 200 * 1024;
+
+/**
+ * svgo v4 的 preset-default 会去除编辑器元数据、合并多余分组、压缩路径数据，
+ * 且不再移除 viewBox，缩放行为保持不变
+ */
+const OPTIMIZE_CONFIG: Config = { multipass: true };
+
+const PRETTY: Config["js2svg"] = { pretty: true, indent: 2 };
+
+/**
+ * 用 svgo 优化 SVG 源码，无法解析时抛出异常
+ */
+export function optimizeSvg(source: string) {
+  return optimize(source, OPTIMIZE_CONFIG).data;
+}
+
+/**
+ * 检查 SVG：格式化源码，计算优化后的体积，并找出内嵌位图、脚本与外部引用
+ */
+export function inspectSvg(source: string): SvgInspection {
+  const size = Buffer.byteLength(source);
+  const warnings: SvgWarning[] = [];
+  try {
+    const pretty = optimize(source, {
+      plugins: [warningCollector(warnings)],
+      js2svg: PRETTY,
+    }).data;
+    const optimized = optimizeSvg(source);
+    const optimizedPretty = optimize(optimized, { plugins: [], js2svg: PRETTY }).data;
+    return {
+      source: pretty.slice(0, MAX_SOURCE_LENGTH),
+      optimizedSource: optimizedPretty.slice(0, MAX_SOURCE_LENGTH),
+      size,
+      optimizedSize: Buffer.byteLength(optimized),
+      warnings: dedupe(warnings),
+      truncated: pretty.length > MAX_SOURCE_LENGTH,
+    };
+  } catch (err) {
+    return {
+      source: source.slice(0, MAX_SOURCE_LENGTH),
+      optimizedSource: "",
+      size,
+      optimizedSize: size,
+      warnings: [],
+      truncated: source.length > MAX_SOURCE_LENGTH,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+/**
+ * 只读的 svgo 插件：遍历元素收集警告，不修改文档
+ */
+function warningCollector(warnings: SvgWarning[]): CustomPlugin {
+  return {
+    name: "collectWarnings",
+    fn: () => ({
+      element: {
+        enter(node) {
+          if (node.name === "script") {
+            warnings.push({ kind: "script", detail: "<script>" });
+          }
+          for (const [name, value] of Object.entries(node.attributes)) {
+            if (/^on/i.test(name)) {
+              warnings.push({ kind: "script", detail: `${name}="${shorten(value)}"` });
+            } else if (name === "href" || name === "xlink:href") {
+              checkReference(value, warnings);
+            } else if (name === "style" || value.includes("url(")) {
+              checkCss(value, warnings);
+            }
+          }
+          if (node.name === "style") checkCss(textOf(node), warnings);
+        },
+      },
+    }),
+  };
+}
+
+function checkReference(value: string, warnings: SvgWarning[]) {
+  const ref = value.trim();
+  if (!ref || ref.startsWith("#")) return;
+  if (/^javascript:/i.test(ref)) {
+    warnings.push({ kind: "script", detail: shorten(ref) });
+  } else if (/^data:image\/(?!svg)/i.test(ref)) {
+    // 按 base64 长度估算内嵌位图的体积
+    const type = ref.slice(5, ref.search(/[;,]/));
+    warnings.push({ kind: "raster", detail: `${type} (${toHumanSize(Math.round(ref.length * 0.75))})` });
+  } else if (!/^data:/i.test(ref)) {
+    warnings.push({ kind: "external", detail: shorten(ref) });
+  }
+}
+
+function checkCss(css: string, warnings: SvgWarning[]) {
+  const importPattern = /@import\s+(?:url\()?\s*['"]?([^'");\s]+)[^;]*;?/g;
+  for (const match of css.matchAll(importPattern)) {
+    warnings.push({ kind: "external", detail: `@import ${shorten(match[1])}` });
+  }
+  for (const match of css.replace(importPattern, "").matchAll(/url\(\s*(['"]?)([^'")]+)\1\s*\)/g)) {
+    checkReference(match[2], warnings);
+  }
+}
+
+function textOf(node: XastElement) {
+  return node.children
+    .map((child) => (child.type === "text" || child.type === "cdata" ? child.value : ""))
+    .join("");
+}
+
+function shorten(value: string) {
+  return value.length > 80 ? `${value.slice(0, 77)}...` : value;
+}
+
+function dedupe(warnings: SvgWarning[]) {
+  const seen = new Set<string>();
+  return warnings.filter(({ kind, detail }) => {
+    const key = `${kind}:${detail}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
@@ -1,28 +1,64 @@
 import * as vscode from "vscode";
 import * as path from "path";
-import fg from "fast-glob";
-import { toHumanSize, statSafe } from "../utils/fsUtils";
-import { log } from "../utils/logger";
+import { promises as fs } from "fs";
+import { toHumanSize } from "../utils/fsUtils";
+import { error, log } from "../utils/logger";
+import { AssetIndex } from "../services/assetIndex";
+import { ReferenceIndex } from "../services/referenceIndex";
+import { pathKey } from "../utils/fsUtils";
+import { getCategories } from "../services/categories";
+import { readImageMetadata } from "../services/imageMetadata";
+import { inspectSvg } from "../services/svgInspector";
+import { SimilarImage, SimilarImageIndex } from "../services/perceptualHash";
+import { ImageOptimizer, OptimizeResult } from "../services/imageOptimizer";
 import {
-  detectResourceType,
-  IMAGE_EXT,
-  AUDIO_EXT,
-  VIDEO_EXT,
-  FONT_EXT,
-  OFFICE_EXT,
-  OTHER_STATIC_EXT,
-  isResourceExt,
-} from "../services/mediaInfo";
+  AssetCategory,
+  AssetEntry,
+  AssetIndexChange,
+  ScanProgress,
+} from "../types";
+
+/** 每个分类单次推送到 webview 的文件数量 */
+const PAGE_SIZE = 200;
+
+/** 引用关系变化后推送使用情况前的合并窗口 */
+const USAGE_DELAY = 500;
+
+/** webview 发来的消息，字段按消息类型取用 */
+interface WebviewMessage {
+  command?: string;
+  type?: string;
+  path?: string;
+  paths?: string[];
+  line?: number;
+  character?: number;
+  category?: AssetCategory;
+  all?: boolean;
+}
 
 export class AssetViewProvider implements vscode.WebviewViewProvider {
   private webviewView?: vscode.WebviewView;
-  private fontCharsetCache = new Map<string, string>();
-  private static readonly FONT_CHARSET =
-    "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789`~!@#$%^&*()_+-=[]{};:'\",.<>?/\\|一二三四五六七八九十春夏秋冬東南西北风雨雷电云山海川湖田木林森花草鸟鱼虫日月星辰天地人和";
+  private indexSubscriptions: vscode.Disposable[] = [];
+  /** 已推送到 webview 的条目（路径 → 分类），用于分页续传与去重 */
+  private sentPaths = new Map<string, AssetCategory>();
+  private sentCounts = emptyCounts();
+  private usageTimer?: ReturnType<typeof setTimeout>;
+  /** 等待定位的资源：视图尚未加载完成时，首屏数据发送后再定位 */
+  private pendingReveal?: string;
+  private dataReady = false;
+  /** 近似图片的计算结果，感知哈希与阈值均未变化时复用 */
+  private readonly similarIndex = new SimilarImageIndex();
+  /** 以近似图片索引的 version 为键缓存推送给 webview 的结果 */
+  private similarCache?: { version: number; result: Record<string, SimilarImage[]> };
+  /** 视图销毁时取消，避免已关闭的视图继续等待或触发扫描 */
+  private viewTokenSource?: vscode.CancellationTokenSource;
 
   constructor(
-    private readonly viewId: "fonts" | "images",
+    private readonly viewId: "images",
     private readonly extensionUri: vscode.Uri,
+    private readonly assetIndex: AssetIndex,
+    private readonly referenceIndex: ReferenceIndex,
+    private readonly optimizer: ImageOptimizer,
   ) {
     log(`🏗️ AssetViewProvider 构造函数被调用，viewId: ${viewId}`);
   }
@@ -36,52 +72,225 @@ export class AssetViewProvider implements vscode.WebviewViewProvider {
     log(`📋 context.state: ${JSON.stringify(context.state)}`);
 
     this.webviewView = webviewView;
+    this.dataReady = false;
+    this.viewTokenSource?.dispose();
+    this.viewTokenSource = new vscode.CancellationTokenSource();
     log(`✅ ${this.viewId} 视图初始化开始`);
 
     // 配置 webview 权限
-    const workspaceRoots =
-      vscode.workspace.workspaceFolders?.map((f) => f.uri) || [];
-    webviewView.webview.options = {
-      enableScripts: true,
-      localResourceRoots: [this.extensionUri, ...workspaceRoots],
-      // 允许加载外部资源（开发模式需要）
-      enableCommandUris: true,
-    };
+    this.updateWebviewOptions();
 
     // 处理来自 webview 的消息
-    webviewView.webview.onDidReceiveMessage(async (msg) => {
+    webviewView.webview.onDidReceiveMessage(async (msg: WebviewMessage) => {
       // 兼容 msg.command 与 msg.type，避免前端与扩展端字段不一致
-      const command = msg.command ?? msg.type;
-      if (command === "refresh") {
-        log(`🔄 用户手动点击刷新 ${this.viewId} 视图`);
-        await vscode.commands.executeCommand("assetManage.refreshIndexes");
-        webviewView.webview.postMessage({ type: "refreshDone" });
-      } else if (command === "getData") {
-        log(`📥 前端请求数据`);
-        await this.sendDataToWebview();
-      } else if (command === "reveal" && msg.path) {
-        vscode.commands.executeCommand(
-          "revealInExplorer",
-          vscode.Uri.file(msg.path),
+      const command = msg.command ?? msg.type ?? "";
+      try {
+        await this.handleMessage(webviewView, command, msg);
+      } catch (err) {
+        // 单条消息失败时提示并记录，不留下未处理的 Promise 拒绝
+        error(`处理 webview 消息失败: ${command}`, err);
+        vscode.window.showErrorMessage(
+          vscode.l10n.t("Asset Manage: {0} failed: {1}", command, err instanceof Error ? err.message : String(err)),
         );
-      } else if ((command === "open" || command === "openFile") && msg.path) {
-        vscode.workspace
-          .openTextDocument(vscode.Uri.file(msg.path))
-          .then((doc) => vscode.window.showTextDocument(doc));
       }
     });
 
+    // 索引增量变更时直接推送变化的条目，侧边栏无需手动刷新
+    this.indexSubscriptions.forEach((d) => d.dispose());
+    this.indexSubscriptions = [
+      this.assetIndex.onDidChange((change) => this.postDelta(change)),
+      this.assetIndex.onDidProgress((progress) =>
+        this.postScanProgress(progress),
+      ),
+      // 源码或资源变化后引用关系随之变化，重新推送使用情况
+      this.referenceIndex.onDidChange(() => this.schedulePostUsage()),
+      // 新增的工作区文件夹需要加入 localResourceRoots 才能加载其中的资源
+      vscode.workspace.onDidChangeWorkspaceFolders(() =>
+        this.updateWebviewOptions(),
+      ),
+      vscode.workspace.onDidChangeConfiguration(async (e) => {
+        if (e.affectsConfiguration("assetManage.similarityThreshold")) {
+          this.postSummary(await this.getEntries());
+        }
+      }),
+    ];
+    webviewView.onDidDispose(() => {
+      this.indexSubscriptions.forEach((d) => d.dispose());
+      this.indexSubscriptions = [];
+      this.webviewView = undefined;
+      if (this.usageTimer) clearTimeout(this.usageTimer);
+      // 视图关闭后不再需要本次扫描结果，下次打开时重新扫描
+      this.viewTokenSource?.cancel();
+      this.viewTokenSource?.dispose();
+      this.viewTokenSource = undefined;
+      this.assetIndex.cancelScan(false);
+    });
+
+    // 关闭视图时丢弃的扫描在重新打开后恢复
+    this.assetIndex.resumeScan();
     // 立即进行初次渲染
     log(`🎨 执行 ${this.viewId} 视图初次渲染`);
     this.render();
   }
 
+  /**
+   * 处理来自 webview 的消息
+   */
+  private async handleMessage(webviewView: vscode.WebviewView, command: string, msg: WebviewMessage) {
+    if (command === "refresh") {
+      log(`🔄 用户手动点击刷新 ${this.viewId} 视图`);
+      try {
+        await vscode.commands.executeCommand("assetManage.refreshIndexes");
+      } finally {
+        webviewView.webview.postMessage({ type: "refreshDone" });
+      }
+    } else if (command === "getData") {
+      log(`📥 前端请求数据`);
+      await this.sendDataToWebview();
+    } else if (command === "cancelScan") {
+      log(`⏹️ 用户停止扫描`);
+      this.assetIndex.cancelScan();
+    } else if (command === "getExcluded") {
+      webviewView.webview.postMessage({
+        type: "excludedFiles",
+        files: this.assetIndex.getExcluded(),
+      });
+    } else if (command === "findUsages" && msg.path) {
+      await this.postUsages(msg.path);
+    } else if (command === "renameAsset" && msg.path) {
+      await vscode.commands.executeCommand(
+        "assetManage.renameAsset",
+        vscode.Uri.file(msg.path),
+      );
+    } else if (command === "moveAsset" && msg.path) {
+      await vscode.commands.executeCommand(
+        "assetManage.moveAsset",
+        vscode.Uri.file(msg.path),
+      );
+    } else if (command === "getMetadata" && msg.path) {
+      webviewView.webview.postMessage({
+        type: "imageMetadata",
+        path: msg.path,
+        metadata: await readImageMetadata(msg.path),
+      });
+    } else if (command === "stripMetadata" && msg.path) {
+      await vscode.commands.executeCommand(
+        "assetManage.stripMetadata",
+        vscode.Uri.file(msg.path),
+      );
+    } else if (command === "convertImages" && msg.paths?.length) {
+      const uris = msg.paths.map((file) => vscode.Uri.file(file));
+      await vscode.commands.executeCommand("assetManage.convertImages", uris[0], uris);
+    } else if (command === "generateVariants" && msg.path) {
+      await vscode.commands.executeCommand(
+        "assetManage.generateVariants",
+        vscode.Uri.file(msg.path),
+      );
+    } else if (command === "inspectSvg" && msg.path) {
+      webviewView.webview.postMessage({
+        type: "svgInspection",
+        path: msg.path,
+        // 文件已被删除时按空内容处理，面板显示解析错误
+        inspection: inspectSvg(await fs.readFile(msg.path, "utf8").catch(() => "")),
+      });
+    } else if (command === "optimizeSvg" && msg.path) {
+      await vscode.commands.executeCommand(
+        "assetManage.optimizeSvg",
+        vscode.Uri.file(msg.path),
+      );
+    } else if (command === "generateSvgComponents" && msg.paths?.length) {
+      const uris = msg.paths.map((file) => vscode.Uri.file(file));
+      await vscode.commands.executeCommand("assetManage.generateSvgComponents", uris[0], uris);
+    } else if (command === "optimizeImages" && msg.paths?.length) {
+      try {
+        await this.optimizer.prepare(msg.paths, (result) =>
+          webviewView.webview.postMessage({
+            type: "optimizeResult",
+            result: this.toWebviewOptimizeResult(result),
+          }),
+        );
+      } finally {
+        // 失败时也结束进度，避免对比弹窗一直停留在处理中
+        webviewView.webview.postMessage({ type: "optimizeDone" });
+      }
+    } else if (command === "applyOptimization" && msg.paths?.length) {
+      await this.optimizer.apply(msg.paths);
+    } else if (command === "discardOptimization") {
+      await this.optimizer.discard();
+    } else if (command === "openLocation" && msg.path) {
+      const position = new vscode.Position(msg.line ?? 0, msg.character ?? 0);
+      await vscode.window.showTextDocument(vscode.Uri.file(msg.path), {
+        selection: new vscode.Range(position, position),
+      });
+    } else if (command === "loadMore" && msg.category) {
+      await this.loadMore(msg.category, Boolean(msg.all));
+    } else if (command === "reveal" && msg.path) {
+      vscode.commands.executeCommand(
+        "revealInExplorer",
+        vscode.Uri.file(msg.path),
+      );
+    } else if ((command === "open" || command === "openFile") && msg.path) {
+      vscode.workspace
+        .openTextDocument(vscode.Uri.file(msg.path))
+        .then((doc) => vscode.window.showTextDocument(doc));
+    }
+  }
+
+  private updateWebviewOptions() {
+    if (!this.webviewView) return;
+    const workspaceRoots =
+      vscode.workspace.workspaceFolders?.map((f) => f.uri) || [];
+    this.webviewView.webview.options = {
+      enableScripts: true,
+      // 压缩预览写在扩展存储目录中
+      localResourceRoots: [
+        this.extensionUri,
+        ...workspaceRoots,
+        this.optimizer.previewRoot,
+      ],
+      // 允许加载外部资源（开发模式需要）
+      enableCommandUris: true,
+    };
+  }
+
   /**
    * 重新拉取数据并发送到 webview（供外部命令调用）
    */
   async refreshData() {
     log(`外部触发刷新 ${this.viewId} 视图`);
-    await this.sendDataToWebview();
+    // 扫描进度与首屏数据通过 onDidProgress 推送
+    await this.assetIndex.rebuild();
+  }
+
+  /**
+   * 打开侧边栏并定位到指定资源的卡片
+   */
+  async revealAsset(fsPath: string) {
+    this.pendingReveal = fsPath;
+    await vscode.commands.executeCommand("workbench.view.extension.assetmanage");
+    await vscode.commands.executeCommand("assetManage.imagesView.focus");
+    if (this.dataReady) await this.flushReveal();
+  }
+
+  private async flushReveal() {
+    const fsPath = this.pendingReveal;
+    if (!fsPath || !this.webviewView) return;
+    this.pendingReveal = undefined;
+
+    const entry = (await this.getEntries()).find(
+      (e) => pathKey(e.path) === pathKey(fsPath),
+    );
+    if (!entry) return;
+    // 目标可能位于尚未加载的分页中，先单独推送
+    if (!this.sentPaths.has(entry.path)) {
+      this.postEntries([entry]);
+    }
+    log(`🎯 定位资源：${entry.relativePath}`);
+    this.webviewView.webview.postMessage({
+      type: "revealAsset",
+      path: entry.path,
+      category: entry.category,
+    });
   }
 
   /**
@@ -96,13 +305,9 @@ export class AssetViewProvider implements vscode.WebviewViewProvider {
     try {
       log(`🎨 开始渲染 ${this.viewId} 视图...`);
       const html = this.getWebviewContent(this.webviewView.webview);
+      // 数据由 webview 加载完成后发送的 getData 消息按需拉取
       this.webviewView.webview.html = html;
 
-      // 等待 webview 加载完成后再发送数据
-      setTimeout(async () => {
-        await this.sendDataToWebview();
-      }, 500);
-
       log(`✅ ${this.viewId} 视图渲染完成`);
     } catch (error) {
       log(`❌ ${this.viewId} 视图渲染失败: ${error}`);
@@ -203,298 +408,367 @@ export class AssetViewProvider implements vscode.WebviewViewProvider {
   }
 
   /**
-   * 发送数据到 Webview
+   * 发送数据到 Webview：重置前端数据后按分类推送首屏，其余分页按需加载
    */
   private async sendDataToWebview() {
     if (!this.webviewView) return;
 
-    if (this.viewId === "fonts") {
-      const fontData = await this.getFontData();
-      log(`📤 发送字体数据: ${fontData.length} 个字体`);
-      this.webviewView.webview.postMessage({
-        type: "fontData",
-        data: fontData,
-      });
-    } else {
-      const assetData = await this.getAssetData();
-      log(`📤 发送资源数据`);
-      this.webviewView.webview.postMessage({
-        type: "assetData",
-        data: assetData,
-      });
-    }
+    this.resetWebviewData();
+    const entries = await this.getEntries();
+    log(`📤 发送资源数据首屏`);
+    this.sendFirstPages(entries);
+    this.schedulePostUsage();
+    this.dataReady = true;
+    await this.flushReveal();
   }
 
   /**
-   * 按需扫描工作区，返回所有静态资源文件（去除 node_modules/.git 等）
+   * 读取索引条目；视图已关闭时不再等待扫描完成
    */
-  private async listAllAssets(): Promise<vscode.Uri[]> {
-    const workspace = vscode.workspace.workspaceFolders?.[0];
-    if (!workspace) return [];
-    const cwd = workspace.uri.fsPath;
-
-    const config = vscode.workspace.getConfiguration("assetManage");
-    const include = config.get<string[]>("scanInclude") ?? ["**/*"];
-    const exclude = config.get<string[]>("scanExclude") ?? [
-      "**/node_modules/**",
-      "**/.git/**",
-      "**/dist/**",
-      "**/build/**",
-    ];
+  private getEntries() {
+    return this.assetIndex.getEntries(this.viewTokenSource?.token);
+  }
 
-    // 当 include 使用自定义模式时，优先按 include 搜索，再按扩展过滤；
-    // 默认模式则直接用扩展过滤的通配符以提升效率。
-    const ALL_EXT = [
-      ...IMAGE_EXT,
-      ...AUDIO_EXT,
-      ...VIDEO_EXT,
-      ...FONT_EXT,
-      ...OFFICE_EXT,
-      ...OTHER_STATIC_EXT,
-    ];
+  private resetWebviewData() {
+    this.sentPaths.clear();
+    this.sentCounts = emptyCounts();
+    this.webviewView?.webview.postMessage({
+      type: "assetReset",
+      roots: (vscode.workspace.workspaceFolders ?? []).map((f) => ({
+        name: f.name,
+        path: f.uri.fsPath,
+      })),
+      categories: getCategories(),
+    });
+  }
 
-    let files: string[] = [];
-    if (include.length && !(include.length === 1 && include[0] === "**/*")) {
-      files = await fg(include, {
-        cwd,
-        ignore: exclude,
-        absolute: true,
-        suppressErrors: true,
-        onlyFiles: true,
-      });
-      files = files.filter(isResourceExt);
-    } else {
-      const pattern = `**/*.{${ALL_EXT.join(",")}}`;
-      files = await fg([pattern], {
-        cwd,
-        ignore: exclude,
-        absolute: true,
-        suppressErrors: true,
-        onlyFiles: true,
-      });
+  /**
+   * 每个分类补齐首屏数量，并同步汇总信息
+   */
+  private sendFirstPages(entries: AssetEntry[]) {
+    for (const { id: category } of getCategories()) {
+      const missing = PAGE_SIZE - this.sentCounts[category];
+      if (missing > 0) {
+        this.postEntries(this.getUnsent(entries, category).slice(0, missing));
+      }
     }
-
-    return files.map((p) => vscode.Uri.file(p));
+    this.postSummary(entries);
   }
 
   /**
-   * 获取字体数据
+   * 前端滚动到底部或需要完整数据（搜索、排序、查重）时加载下一页
    */
-  private async getFontData() {
-    const allAssets = await this.listAllAssets();
-    const fontFiles = allAssets.filter(
-      (uri) => detectResourceType(uri) === "font",
-    );
-
-    const fonts = [];
-    for (const uri of fontFiles) {
-      const stat = await statSafe(uri);
-      if (!stat) continue;
-
-      const familyName =
-        (await this.getFontFamilyFromFile(uri)) ||
-        path.basename(uri.fsPath, path.extname(uri.fsPath));
-      const charset =
-        (await this.extractFontCharsetFromSources([uri])) ||
-        AssetViewProvider.FONT_CHARSET;
-
-      fonts.push({
-        path: uri.fsPath,
-        name: path.basename(uri.fsPath, path.extname(uri.fsPath)),
-        familyName,
-        size: toHumanSize(stat.size),
-        ext: path.extname(uri.fsPath).slice(1).toUpperCase(),
-        relativePath: vscode.workspace.asRelativePath(uri.fsPath),
-        charset: charset.slice(0, 100),
-        fullCharset: charset,
-        previewCharset: charset.slice(0, 120),
-        uri: this.webviewView!.webview.asWebviewUri(uri).toString(),
-      });
-    }
+  private async loadMore(category: AssetCategory, all: boolean) {
+    const entries = await this.getEntries();
+    const unsent = this.getUnsent(entries, category);
+    this.postEntries(all ? unsent : unsent.slice(0, PAGE_SIZE));
+  }
 
-    return fonts;
+  private getUnsent(entries: AssetEntry[], category: AssetCategory) {
+    return entries
+      .filter(
+        (entry) =>
+          entry.category === category && !this.sentPaths.has(entry.path),
+      )
+      .sort(
+        (a, b) =>
+          a.folder.localeCompare(b.folder) || a.name.localeCompare(b.name),
+      );
   }
 
   /**
-   * 获取资源数据
+   * 以增量消息的形式推送条目，前端按路径合并
    */
-  private async getAssetData() {
-    const allAssets = await this.listAllAssets();
-    const categorized = this.categorizeAssets(allAssets);
+  private postEntries(entries: AssetEntry[], removed: string[] = []) {
+    if (!this.webviewView || (!entries.length && !removed.length)) return;
 
-    // 处理图片
-    const imagesByFolder = new Map<string, any[]>();
-    for (const img of categorized.images) {
-      const stat = await statSafe(img);
-      if (!stat) continue;
+    for (const entry of entries) {
+      if (!this.sentPaths.has(entry.path)) {
+        this.sentCounts[entry.category] =
+          (this.sentCounts[entry.category] ?? 0) + 1;
+      }
+      this.sentPaths.set(entry.path, entry.category);
+    }
+    for (const removedPath of removed) {
+      const category = this.sentPaths.get(removedPath);
+      if (category) {
+        this.sentCounts[category]--;
+        this.sentPaths.delete(removedPath);
+      }
+    }
 
-      const dir = path.dirname(img.fsPath);
-      const relativeDir = vscode.workspace.asRelativePath(dir);
+    this.webviewView.webview.postMessage({
+      type: "assetDelta",
+      upserted: entries.map((entry) => ({
+        category: entry.category,
+        root: entry.root,
+        folder: entry.folder,
+        file: this.toWebviewFile(entry),
+      })),
+      removed,
+    });
+  }
 
-      if (!imagesByFolder.has(relativeDir)) {
-        imagesByFolder.set(relativeDir, []);
+  /**
+   * 汇总全部条目的统计信息：前端只持有已加载的分页，数量与重复检测以此为准
+   */
+  private postSummary(entries: AssetEntry[]) {
+    const counts: Record<string, Record<AssetCategory | "folders", number>> =
+      {};
+    const imageFolders = new Map<string, Set<string>>();
+    const hashCounts = new Map<string, number>();
+    let mismatched = 0;
+    let privateMetadata = 0;
+
+    for (const entry of entries) {
+      if (entry.extMismatch) mismatched++;
+      if (entry.privacy?.length) privateMetadata++;
+      counts[entry.root] ??= { ...emptyCounts(), folders: 0 };
+      counts[entry.root][entry.category] =
+        (counts[entry.root][entry.category] ?? 0) + 1;
+      if (entry.category === "images") {
+        if (!imageFolders.has(entry.root)) {
+          imageFolders.set(entry.root, new Set());
+        }
+        imageFolders.get(entry.root)!.add(entry.folder);
+        if (entry.hash) {
+          hashCounts.set(entry.hash, (hashCounts.get(entry.hash) ?? 0) + 1);
+        }
       }
+    }
+    for (const [root, folders] of imageFolders) {
+      counts[root].folders = folders.size;
+    }
 
-      imagesByFolder.get(relativeDir)!.push({
-        path: img.fsPath,
-        name: path.basename(img.fsPath),
-        size: toHumanSize(stat.size),
-        ext: path.extname(img.fsPath).slice(1).toUpperCase(),
-        uri: this.webviewView!.webview.asWebviewUri(img).toString(),
-        relativePath: vscode.workspace.asRelativePath(img.fsPath),
-        sizeBytes: stat.size,
-        hash: this.getFileHash(img.fsPath),
-      });
+    const duplicateHashes: Record<string, number> = {};
+    for (const [hash, count] of hashCounts) {
+      if (count > 1) duplicateHashes[hash] = count;
     }
 
-    // 处理媒体文件 - 按目录分组
-    const mediaByFolder = new Map<string, any[]>();
-    for (const uri of [...categorized.audios, ...categorized.videos]) {
-      const stat = await statSafe(uri);
-      if (!stat) continue;
+    this.webviewView?.webview.postMessage({
+      type: "assetSummary",
+      counts,
+      duplicateHashes,
+      mismatched,
+      privateMetadata,
+      similarImages: this.getSimilarImages(entries),
+      scan: this.assetIndex.scanReport,
+    });
+  }
 
-      const dir = path.dirname(uri.fsPath);
-      const relativeDir = vscode.workspace.asRelativePath(dir);
+  /**
+   * 按感知哈希查找近似图片（路径 → 相似图片及相似度），只包含存在近似图片的条目
+   */
+  private getSimilarImages(entries: AssetEntry[]) {
+    const threshold = vscode.workspace
+      .getConfiguration("assetManage")
+      .get<number>("similarityThreshold", 90);
+    const images = entries
+      .filter((entry) => entry.category === "images" && entry.perceptualHash)
+      .map((entry) => ({
+        path: entry.path,
+        perceptualHash: entry.perceptualHash!,
+        hash: entry.hash,
+      }));
+    const version = this.similarIndex.update(images, threshold);
+    if (this.similarCache?.version !== version) {
+      this.similarCache = {
+        version,
+        result: Object.fromEntries(this.similarIndex.result),
+      };
+    }
+    return this.similarCache.result;
+  }
 
-      if (!mediaByFolder.has(relativeDir)) {
-        mediaByFolder.set(relativeDir, []);
-      }
+  /**
+   * 合并短时间内的多次变化，只推送一次使用情况
+   */
+  private schedulePostUsage() {
+    if (this.usageTimer) clearTimeout(this.usageTimer);
+    this.usageTimer = setTimeout(() => {
+      this.usageTimer = undefined;
+      void this.postUsage();
+    }, USAGE_DELAY);
+  }
 
-      mediaByFolder.get(relativeDir)!.push({
-        path: uri.fsPath,
-        name: path.basename(uri.fsPath),
-        size: toHumanSize(stat.size),
-        ext: path.extname(uri.fsPath).replace(".", "").toUpperCase(),
-        uri: this.webviewView!.webview.asWebviewUri(uri).toString(),
-        relativePath: vscode.workspace.asRelativePath(uri.fsPath),
-        kind: detectResourceType(uri) === "video" ? "video" : "audio",
-      });
+  /**
+   * 推送未被源码引用的资源及各工作区文件夹可回收的体积；
+   * 关闭 assetManage.detectUnused 时推送 enabled: false，前端隐藏相关标记
+   */
+  private async postUsage() {
+    if (!this.webviewView) return;
+    if (!this.referenceIndex.enabled) {
+      this.webviewView.webview.postMessage({ type: "assetUsage", enabled: false });
+      return;
     }
 
-    // 处理字体文件 - 按目录分组
-    const fontsByFolder = new Map<string, any[]>();
-    for (const uri of categorized.fonts) {
-      const stat = await statSafe(uri);
-      if (!stat) continue;
-
-      const dir = path.dirname(uri.fsPath);
-      const relativeDir = vscode.workspace.asRelativePath(dir);
+    const token = this.viewTokenSource?.token;
+    const entries = await this.referenceIndex.getUnused(token);
+    if (token?.isCancellationRequested) return;
+
+    const unused: string[] = [];
+    const reclaimable: Record<string, { count: number; bytes: number }> = {};
+    for (const entry of entries) {
+      unused.push(entry.path);
+      reclaimable[entry.root] ??= { count: 0, bytes: 0 };
+      reclaimable[entry.root].count++;
+      reclaimable[entry.root].bytes += entry.sizeBytes;
+    }
+    log(`🔗 推送资源使用情况：${unused.length} 个未被引用`);
+    this.webviewView?.webview.postMessage({
+      type: "assetUsage",
+      enabled: true,
+      unused,
+      reclaimable,
+    });
+  }
 
-      if (!fontsByFolder.has(relativeDir)) {
-        fontsByFolder.set(relativeDir, []);
+  /**
+   * 推送单个资源在源码中的引用位置，附带所在行内容用于展示
+   */
+  private async postUsages(assetPath: string) {
+    const locations = await this.referenceIndex.getUsages(
+      assetPath,
+      this.viewTokenSource?.token,
+    );
+    const lines = new Map<string, string[]>();
+    const usages = [];
+    for (const location of locations) {
+      if (!lines.has(location.file)) {
+        const text = await fs.readFile(location.file, "utf8").catch(() => "");
+        lines.set(location.file, text.split(/\r?\n/));
       }
-
-      const familyName =
-        (await this.getFontFamilyFromFile(uri)) ||
-        path.basename(uri.fsPath, path.extname(uri.fsPath));
-      const charset =
-        (await this.extractFontCharsetFromSources([uri])) ||
-        AssetViewProvider.FONT_CHARSET;
-
-      fontsByFolder.get(relativeDir)!.push({
-        path: uri.fsPath,
-        name: path.basename(uri.fsPath, path.extname(uri.fsPath)),
-        familyName,
-        size: toHumanSize(stat.size),
-        ext: path.extname(uri.fsPath).slice(1).toUpperCase(),
-        relativePath: vscode.workspace.asRelativePath(uri.fsPath),
-        charset: charset.slice(0, 100),
-        fullCharset: charset,
-        previewCharset: charset.slice(0, 120),
-        uri: this.webviewView!.webview.asWebviewUri(uri).toString(),
+      usages.push({
+        file: location.file,
+        relativePath: vscode.workspace.asRelativePath(location.file),
+        line: location.line,
+        character: location.character,
+        kind: location.kind,
+        exact: location.exact,
+        snippet: (lines.get(location.file)![location.line] ?? "").trim().slice(0, 200),
       });
     }
+    usages.sort(
+      (a, b) => a.relativePath.localeCompare(b.relativePath) || a.line - b.line,
+    );
+    log(`🔍 ${path.basename(assetPath)} 共有 ${usages.length} 处引用`);
+    this.webviewView?.webview.postMessage({
+      type: "assetUsages",
+      path: assetPath,
+      usages,
+    });
+  }
 
-    // 处理办公文档 - 按目录分组
-    const officeByFolder = new Map<string, any[]>();
-    log(`📄 开始处理 ${categorized.office.length} 个办公文档`);
-    for (const uri of categorized.office) {
-      const stat = await statSafe(uri);
-      if (!stat) {
-        log(`⚠️ 办公文档文件不存在: ${uri.fsPath}`);
-        continue;
-      }
-
-      const dir = path.dirname(uri.fsPath);
-      const relativeDir = vscode.workspace.asRelativePath(dir);
-
-      if (!officeByFolder.has(relativeDir)) {
-        officeByFolder.set(relativeDir, []);
-      }
+  /**
+   * 扫描过程中实时推送进度，并把每批结果补进首屏，第一批图片无需等待整个扫描结束
+   */
+  private async postScanProgress(progress: ScanProgress) {
+    if (!this.webviewView) return;
 
-      const ext = path.extname(uri.fsPath).toLowerCase();
-      let fileType: "word" | "excel" | "powerpoint" | "pdf" = "pdf";
-
-      if ([".docx", ".doc"].includes(ext)) {
-        fileType = "word";
-      } else if ([".xlsx", ".xls"].includes(ext)) {
-        fileType = "excel";
-      } else if ([".pptx", ".ppt"].includes(ext)) {
-        fileType = "powerpoint";
-      } else if (ext === ".pdf") {
-        fileType = "pdf";
-      }
+    if (progress.processed === 0 && !progress.done) {
+      this.resetWebviewData();
+    }
 
-      const fileData = {
-        path: uri.fsPath,
-        name: path.basename(uri.fsPath),
-        size: toHumanSize(stat.size),
-        ext: path.extname(uri.fsPath).replace(".", "").toUpperCase(),
-        relativePath: vscode.workspace.asRelativePath(uri.fsPath),
-        uri: this.webviewView!.webview.asWebviewUri(uri).toString(),
-        fileType,
-      };
+    this.postEntries(
+      progress.chunk.filter(
+        (entry) => (this.sentCounts[entry.category] ?? 0) < PAGE_SIZE,
+      ),
+    );
+    this.webviewView.webview.postMessage({
+      type: "scanProgress",
+      processed: progress.processed,
+      total: progress.total,
+      done: progress.done,
+    });
 
-      log(`✅ 添加办公文档: ${fileData.name} (${fileData.fileType})`);
-      officeByFolder.get(relativeDir)!.push(fileData);
+    if (progress.done) {
+      this.sendFirstPages(await this.getEntries());
     }
-    log(`📄 办公文档处理完成，共 ${officeByFolder.size} 个目录`);
-
-    // 处理其他文件 - 按目录分组
-    const othersByFolder = new Map<string, any[]>();
-    for (const uri of categorized.others) {
-      const stat = await statSafe(uri);
-      if (!stat) continue;
+  }
 
-      const dir = path.dirname(uri.fsPath);
-      const relativeDir = vscode.workspace.asRelativePath(dir);
+  /**
+   * 将索引条目转换为前端所需的数据结构（补充 webview uri 等展示字段）
+   */
+  private toWebviewFile(entry: AssetEntry) {
+    const uri = vscode.Uri.file(entry.path);
+    const base = {
+      path: entry.path,
+      name: entry.name,
+      size: toHumanSize(entry.sizeBytes),
+      ext: entry.ext,
+      relativePath: entry.relativePath,
+      sizeBytes: entry.sizeBytes,
+      hash: entry.hash,
+      sniffedType: entry.sniffedType,
+      extMismatch: entry.extMismatch,
+    };
 
-      if (!othersByFolder.has(relativeDir)) {
-        othersByFolder.set(relativeDir, []);
+    switch (entry.category) {
+      case "images":
+        return {
+          ...base,
+          uri: this.webviewView!.webview.asWebviewUri(uri).toString(),
+          image: entry.image,
+          privacy: entry.privacy,
+        };
+      case "media":
+        return {
+          ...base,
+          uri: this.webviewView!.webview.asWebviewUri(uri).toString(),
+          kind: entry.kind,
+        };
+      case "fonts": {
+        const charset = entry.charset ?? "";
+        return {
+          ...base,
+          name: path.basename(entry.path, path.extname(entry.path)),
+          familyName: entry.familyName,
+          charset: charset.slice(0, 100),
+          fullCharset: charset,
+          previewCharset: charset.slice(0, 120),
+          uri: this.webviewView!.webview.asWebviewUri(uri).toString(),
+        };
       }
-
-      othersByFolder.get(relativeDir)!.push({
-        path: uri.fsPath,
-        name: path.basename(uri.fsPath),
-        size: toHumanSize(stat.size),
-        ext: path.extname(uri.fsPath).replace(".", "").toUpperCase(),
-        relativePath: vscode.workspace.asRelativePath(uri.fsPath),
-      });
+      case "office":
+        return {
+          ...base,
+          uri: this.webviewView!.webview.asWebviewUri(uri).toString(),
+          fileType: entry.fileType,
+        };
+      default:
+        return base;
     }
+  }
 
+  /**
+   * 压缩预览结果补充原图与压缩结果的 webview uri
+   */
+  private toWebviewOptimizeResult(result: OptimizeResult) {
+    const webview = this.webviewView!.webview;
     return {
-      images: Array.from(imagesByFolder.entries()).map(([folder, files]) => ({
-        folder,
-        files,
-      })),
-      media: Array.from(mediaByFolder.entries()).map(([folder, files]) => ({
-        folder,
-        files,
-      })),
-      fonts: Array.from(fontsByFolder.entries()).map(([folder, files]) => ({
-        folder,
-        files,
-      })),
-      office: Array.from(officeByFolder.entries()).map(([folder, files]) => ({
-        folder,
-        files,
-      })),
-      others: Array.from(othersByFolder.entries()).map(([folder, files]) => ({
-        folder,
-        files,
-      })),
+      path: result.path,
+      name: path.basename(result.path),
+      originalSize: result.originalSize,
+      optimizedSize: result.optimizedSize,
+      originalUri: webview.asWebviewUri(vscode.Uri.file(result.path)).toString(),
+      // 预览文件名每次不同，无需处理缓存
+      previewUri:
+        result.preview &&
+        webview.asWebviewUri(vscode.Uri.file(result.preview)).toString(),
+      error: result.error,
     };
   }
+
+  /**
+   * 将索引增量变更推送到 webview，避免整体重新发送
+   */
+  private async postDelta(change: AssetIndexChange) {
+    if (!this.webviewView) return;
+
+    this.postEntries(change.upserted, change.removed);
+    this.postSummary(await this.getEntries());
+  }
+
   /**
    * 错误提示页面
    */
@@ -532,212 +806,10 @@ export class AssetViewProvider implements vscode.WebviewViewProvider {
       </html>
     `;
   }
+}
 
-  private categorizeAssets(assets: vscode.Uri[]) {
-    const images: vscode.Uri[] = [];
-    const audios: vscode.Uri[] = [];
-    const videos: vscode.Uri[] = [];
-    const fonts: vscode.Uri[] = [];
-    const office: vscode.Uri[] = [];
-    const others: vscode.Uri[] = [];
-
-    // 办公文档扩展名
-    const officeExtensions = [
-      ".docx",
-      ".doc",
-      ".pdf",
-      ".xlsx",
-      ".xls",
-      ".pptx",
-      ".ppt",
-    ];
-
-    for (const uri of assets) {
-      const ext = path.extname(uri.fsPath).toLowerCase();
-
-      if (officeExtensions.includes(ext)) {
-        log(`📄 发现办公文档: ${uri.fsPath}`);
-        office.push(uri);
-      } else {
-        const type = detectResourceType(uri);
-        if (type === "image") images.push(uri);
-        else if (type === "audio") audios.push(uri);
-        else if (type === "video") videos.push(uri);
-        else if (type === "font") fonts.push(uri);
-        else others.push(uri);
-      }
-    }
-
-    log(
-      `📊 资源分类统计: 图片=${images.length}, 音频=${audios.length}, 视频=${videos.length}, 字体=${fonts.length}, 办公=${office.length}, 其他=${others.length}`,
-    );
-    return { images, audios, videos, fonts, office, others };
-  }
-
-  private countFolders(images: vscode.Uri[]) {
-    const set = new Set<string>();
-    for (const img of images) {
-      set.add(path.dirname(img.fsPath));
-    }
-    return set.size;
-  }
-
-  private async extractFontCharsetFromSources(
-    sources: vscode.Uri[],
-  ): Promise<string | undefined> {
-    if (!sources.length) return undefined;
-
-    try {
-      for (const src of sources) {
-        const stat = await statSafe(src);
-        if (!stat) continue;
-
-        // 缓存key包含文件路径和修改时间，确保文件变更后缓存失效
-        const cacheKey = `${src.fsPath}|${stat.mtime.getTime()}`;
-        const cached = this.fontCharsetCache.get(cacheKey);
-        if (cached) return cached;
-
-        const mod = await import("fontkit");
-        const fontkit = (mod as any).default ?? (mod as any);
-        const font = await fontkit.open(src.fsPath);
-
-        let codePoints: number[] = [];
-
-        // 尝试多种方法获取字符集
-        try {
-          // 方法1: 使用 characterSet 属性（适用于大多数字体）
-          if (font.characterSet && font.characterSet.length > 0) {
-            codePoints = font.characterSet;
-          } else {
-            // 方法2: 手动遍历 cmap 表获取字符映射
-            const cmap = font.characterToGlyphIndexMap;
-            if (cmap) {
-              codePoints = Object.keys(cmap)
-                .map((k) => parseInt(k, 10))
-                .filter((cp) => cp > 0);
-            }
-          }
-
-          // 方法3: 如果是复合字体（TTC），尝试获取所有子字体的字符集
-          if (codePoints.length === 0 && font.fonts) {
-            for (const subFont of font.fonts) {
-              if (subFont.characterSet && subFont.characterSet.length > 0) {
-                codePoints = codePoints.concat(subFont.characterSet);
-              }
-            }
-            // 去重
-            codePoints = Array.from(new Set(codePoints));
-          }
-        } catch (cmapErr) {
-          log(`解析字体字符映射表失败: ${cmapErr}`);
-        }
-
-        if (codePoints.length === 0) {
-          log(`无法从字体文件获取字符集: ${src.fsPath}`);
-          continue;
-        }
-
-        const chars: string[] = [];
-        for (const cp of codePoints) {
-          // 放宽字符过滤条件，包含更多字符
-          if (cp > 0x10ffff) continue; // 超出 Unicode 范围
-
-          try {
-            const ch = String.fromCodePoint(cp);
-            // 只过滤掉控制字符（除了空格和换行）
-            if (cp < 32 && cp !== 9 && cp !== 10 && cp !== 13 && cp !== 32)
-              continue;
-            chars.push(ch);
-          } catch (err) {
-            // 忽略无效的码点
-            log(`无效码点 ${cp}: ${err}`);
-          }
-        }
-
-        // 对字符进行排序，便于查看常用字符
-        const sortedChars = chars.sort((a, b) => {
-          const aCode = a.codePointAt(0) || 0;
-          const bCode = b.codePointAt(0) || 0;
-          return aCode - bCode;
-        });
-
-        const unique = Array.from(new Set(sortedChars)).join("");
-        log("unique=============");
-        log(unique);
-        // const limited = unique.slice(0, 2000);
-        const limited = unique;
-        this.fontCharsetCache.set(cacheKey, limited);
-        return limited;
-      }
-    } catch (err) {
-      log(`字体字符集解析失败: ${err}`);
-    }
-
-    return undefined;
-  }
-
-  private async getFontFamilyFromFile(
-    uri: vscode.Uri,
-  ): Promise<string | undefined> {
-    try {
-      // 确保文件存在
-      const stat = await statSafe(uri);
-      if (!stat) {
-        return undefined;
-      }
-
-      const mod = await import("fontkit");
-      const fontkit = (mod as any).default ?? (mod as any);
-      const font = fontkit.openSync(uri.fsPath);
-      return (
-        font.familyName ||
-        font.fullName ||
-        font.postscriptName ||
-        path.basename(uri.fsPath, path.extname(uri.fsPath))
-      );
-    } catch (err) {
-      log(`读取字体名称失败 ${uri.fsPath}: ${err}`);
-      return undefined;
-    }
-  }
-
-  private guessFontFormat(filePath: string) {
-    const ext = path.extname(filePath).replace(".", "").toLowerCase();
-    if (ext === "ttf" || ext === "tff") return "truetype";
-    if (ext === "otf") return "opentype";
-    if (ext === "woff2") return "woff2";
-    if (ext === "woff") return "woff";
-    return "opentype";
-  }
-
-  private escapeHtml(value: string) {
-    return value
-      .replace(/&/g, "&amp;")
-      .replace(/</g, "&lt;")
-      .replace(/>/g, "&gt;")
-      .replace(/"/g, "&quot;")
-      .replace(/'/g, "&#39;");
-  }
-
-  private escapeAttr(value: string) {
-    return this.escapeHtml(value).replace(/`/g, "&#96;");
-  }
-
-  private normalizePath(p: string) {
-    return p.replace(/\\/g, "\\\\").replace(/'/g, "\\'");
-  }
-
-  private getFileHash(filePath: string): string {
-    try {
-      const fs = require("fs");
-      const crypto = require("crypto");
-      const buffer = fs.readFileSync(filePath);
-      const hash = crypto.createHash("md5");
-      hash.update(buffer);
-      return hash.digest("hex");
-    } catch (err) {
-      log(`计算文件哈希失败: ${filePath}, ${err}`);
-      return "";
-    }
-  }
-}
\ No newline at end of file
+function emptyCounts(): Record<AssetCategory, number> {
+  return Object.fromEntries(
+    getCategories().map(({ id }) => [id, 0]),
+  ) as Record<AssetCategory, number>;
+}
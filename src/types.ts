@@ -1 +1,167 @@
-export type ResourceType = "image" | "audio" | "video" | "font" | "other";
+import type { BuiltinCategory, ResourceType } from "./services/categories";
+
+export type { BuiltinCategory, ResourceType };
+
+/**
+ * 侧边栏资源分类，与前端 Tab 一一对应；
+ * 除内置分类外还可以是 assetManage.categories 中定义的自定义分类
+ */
+export type AssetCategory = BuiltinCategory | (string & {});
+
+export type OfficeFileType = "word" | "excel" | "powerpoint" | "pdf";
+
+/**
+ * 资源索引中的单个条目，只保存与 webview 无关的数据，
+ * 发送前再由 AssetViewProvider 补充 webview uri
+ */
+export interface AssetEntry {
+  path: string;
+  /** 所属工作区文件夹名称（多根工作区） */
+  root: string;
+  category: AssetCategory;
+  /** 所在目录（相对工作区，多根工作区下带文件夹名前缀） */
+  folder: string;
+  name: string;
+  ext: string;
+  relativePath: string;
+  sizeBytes: number;
+  mtime: number;
+  hash?: string;
+  /** 计算 hash 时使用的算法，算法变更后需重新计算 */
+  hashAlgorithm?: string;
+  /** 按文件头识别出的实际格式（规范扩展名），纯文本等无法识别时为空 */
+  sniffedType?: string;
+  /** 扩展名与识别出的实际格式不一致 */
+  extMismatch?: boolean;
+  /** 超过 maxFileSize，未计算哈希也未解析内容 */
+  oversized?: boolean;
+  kind?: "audio" | "video";
+  fileType?: OfficeFileType;
+  familyName?: string;
+  charset?: string;
+  /** 图片文件头中解析出的信息 */
+  image?: ImageInfo;
+  /** 图片元数据中包含的隐私信息 */
+  privacy?: PrivacyKind[];
+  /** 图片的感知哈希（dHash，16 位十六进制），用于查找近似图片 */
+  perceptualHash?: string;
+}
+
+/** gps：位置信息；personal：作者、联系方式、设备序列号等个人信息 */
+export type PrivacyKind = "gps" | "personal";
+
+export interface MetadataField {
+  name: string;
+  value: string;
+  privacy?: PrivacyKind;
+}
+
+/** 按来源分组的元数据：EXIF、GPS、IPTC、XMP、Text（PNG 文本块与 JPEG 注释） */
+export interface MetadataGroup {
+  name: string;
+  fields: MetadataField[];
+}
+
+export interface ImageMetadata {
+  groups: MetadataGroup[];
+  privacy: PrivacyKind[];
+}
+
+/** raster：内嵌位图；script：脚本或事件属性；external：引用外部文件或网址 */
+export type SvgWarningKind = "raster" | "script" | "external";
+
+export interface SvgWarning {
+  kind: SvgWarningKind;
+  detail: string;
+}
+
+/** SVG 源码检查结果：格式化后的源码、svgo 优化前后的体积与安全/体积相关的警告 */
+export interface SvgInspection {
+  source: string;
+  /** 优化结果（格式化后便于阅读），写入文件时不带缩进 */
+  optimizedSource: string;
+  size: number;
+  optimizedSize: number;
+  warnings: SvgWarning[];
+  /** 源码过大时只显示开头部分 */
+  truncated: boolean;
+  /** 无法解析时的错误信息 */
+  error?: string;
+}
+
+/** 从图片文件头解析的信息，无法确定的字段为空 */
+export interface ImageInfo {
+  width: number;
+  height: number;
+  /** 每通道位深（调色板图片为颜色索引位数） */
+  bitDepth?: number;
+  hasAlpha?: boolean;
+  /** 色彩空间，带 ICC 配置时附加 (ICC) */
+  colorSpace?: string;
+  /** 动图帧数，静态图片为 1 */
+  frames?: number;
+  /** SVG 根元素的 viewBox */
+  viewBox?: string;
+}
+
+/** 索引增量变更：新增/修改的条目与被删除的路径 */
+export interface AssetIndexChange {
+  upserted: AssetEntry[];
+  removed: string[];
+}
+
+/** 全量扫描进度，chunk 为本批新处理完成的条目 */
+export interface ScanProgress {
+  processed: number;
+  total: number;
+  chunk: AssetEntry[];
+  done: boolean;
+}
+
+/** 最近一次全量扫描的预算使用情况，上限为 0 表示不限制 */
+export interface ScanReport {
+  /** 文件数达到 maxFileCount，其余文件未被扫描 */
+  truncated: boolean;
+  maxFileCount: number;
+  /** 超过 maxFileSize（MB）而跳过内容解析的文件数 */
+  skippedLarge: number;
+  maxFileSize: number;
+  /** 扫描被用户中途取消 */
+  cancelled: boolean;
+  /** 被 .gitignore / .assetignore 排除的文件数 */
+  ignored: number;
+}
+
+/** 命中的忽略规则：规则文件（相对工作区）、行号与原始模式 */
+export interface IgnoreReason {
+  source: string;
+  line: number;
+  pattern: string;
+}
+
+/** 因忽略规则未进入索引的文件 */
+export interface ExcludedEntry {
+  path: string;
+  root: string;
+  relativePath: string;
+  reason: IgnoreReason;
+}
+
+/**
+ * 源码中对资源的一处引用：value 为引号/括号内的原始路径，
+ * start/end 为 value 在文件中的偏移，line/character 从 0 开始
+ */
+export interface AssetReference {
+  value: string;
+  kind: "import" | "url" | "attribute" | "markdown" | "string";
+  start: number;
+  end: number;
+  line: number;
+  character: number;
+}
+
+/** 某个资源被引用的位置；exact 为 false 表示仅按文件名匹配，路径无法解析 */
+export interface ReferenceLocation extends AssetReference {
+  file: string;
+  exact: boolean;
+}
@@ -1,4 +1,5 @@
 import { promises as fs } from "fs";
+import * as path from "path";
 
 export async function statSafe(uri: { fsPath: string }) {
   try {
@@ -8,6 +9,12 @@ export async function statSafe(uri: { fsPath: string }) {
   }
 }
 
+/** 用于比较的路径：Windows 文件系统不区分大小写，统一转小写 */
+export function pathKey(fsPath: string) {
+  const normalized = path.normalize(fsPath);
+  return process.platform === "win32" ? normalized.toLowerCase() : normalized;
+}
+
 export function toHumanSize(bytes?: number): string {
   if (bytes === undefined) return "未知";
   if (bytes < 1024) return `${bytes} B`;
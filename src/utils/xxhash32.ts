@@ -0,0 +1,102 @@
+const PRIME1 = 0x9e3779b1;
+const PRIME2 = 0x85ebca77;
+const PRIME3 = 0xc2b2ae3d;
+const PRIME4 = 0x27d4eb2f;
+const PRIME5 = 0x165667b1;
+
+function rotl(x: number, r: number) {
+  return (x << r) | (x >>> (32 - r));
+}
+
+function round(acc: number, input: number) {
+  acc = (acc + Math.imul(input, PRIME2)) | 0;
+  return Math.imul(rotl(acc, 13), PRIME1);
+}
+
+/**
+ * 流式 XXH32（非加密哈希，速度快），接口与 crypto.Hash 的 update/digest 保持一致
+ */
+export class XXHash32 {
+  private v1: number;
+  private v2: number;
+  private v3: number;
+  private v4: number;
+  private totalLen = 0;
+  private memory = Buffer.alloc(16);
+  private memSize = 0;
+
+  constructor(private readonly seed = 0) {
+    this.v1 = (seed + PRIME1 + PRIME2) | 0;
+    this.v2 = (seed + PRIME2) | 0;
+    this.v3 = seed | 0;
+    this.v4 = (seed - PRIME1) | 0;
+  }
+
+  update(data: Buffer) {
+    const len = data.length;
+    this.totalLen += len;
+
+    if (this.memSize + len < 16) {
+      data.copy(this.memory, this.memSize);
+      this.memSize += len;
+      return this;
+    }
+
+    let p = 0;
+    if (this.memSize > 0) {
+      p = 16 - this.memSize;
+      data.copy(this.memory, this.memSize, 0, p);
+      this.processStripe(this.memory, 0);
+      this.memSize = 0;
+    }
+
+    for (; p + 16 <= len; p += 16) {
+      this.processStripe(data, p);
+    }
+
+    if (p < len) {
+      data.copy(this.memory, 0, p);
+      this.memSize = len - p;
+    }
+    return this;
+  }
+
+  digest(): string {
+    let h: number;
+    if (this.totalLen >= 16) {
+      h =
+        (rotl(this.v1, 1) +
+          rotl(this.v2, 7) +
+          rotl(this.v3, 12) +
+          rotl(this.v4, 18)) |
+        0;
+    } else {
+      h = (this.seed + PRIME5) | 0;
+    }
+    h = (h + this.totalLen) | 0;
+
+    let p = 0;
+    for (; p + 4 <= this.memSize; p += 4) {
+      h = (h + Math.imul(this.memory.readUInt32LE(p), PRIME3)) | 0;
+      h = Math.imul(rotl(h, 17), PRIME4);
+    }
+    for (; p < this.memSize; p++) {
+      h = (h + Math.imul(this.memory[p], PRIME5)) | 0;
+      h = Math.imul(rotl(h, 11), PRIME1);
+    }
+
+    h ^= h >>> 15;
+    h = Math.imul(h, PRIME2);
+    h ^= h >>> 13;
+    h = Math.imul(h, PRIME3);
+    h ^= h >>> 16;
+    return (h >>> 0).toString(16).padStart(8, "0");
+  }
+
+  private processStripe(buf: Buffer, offset: number) {
+    this.v1 = round(this.v1, buf.readUInt32LE(offset));
+    this.v2 = round(this.v2, buf.readUInt32LE(offset + 4));
+    this.v3 = round(this.v3, buf.readUInt32LE(offset + 8));
+    this.v4 = round(this.v4, buf.readUInt32LE(offset + 12));
+  }
+}